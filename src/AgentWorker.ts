@@ -0,0 +1,161 @@
+/**
+ * AgentWorker - Gemeinsame Schnittstelle aller lokalen CLI-Agenten
+ *
+ * Claude, Gemini und per Konfiguration eingebundene CLIs (z.B. Codex CLI,
+ * Aider, ein Ollama-Agent) implementieren dieselbe Schnittstelle. Die Tools
+ * in index.ts greifen über die WorkerRegistry darauf zu, statt nach Namen
+ * zu verzweigen.
+ */
+
+import type { ProgressCallback } from './ProgressReporter.js';
+import type { SessionListFilter, SessionRecord } from './SessionStore.js';
+import type { ChangeReport } from './ChangeTracker.js';
+import type { RedactionCounts } from './Redactor.js';
+import type { RetryPolicy, WorkerFailure } from './WorkerErrors.js';
+import type { PermissionProfileName } from './PermissionProfiles.js';
+import type { UsageLimitPolicy } from './WorkerAvailability.js';
+import type { OutputValidation } from './StructuredOutput.js';
+
+/** Erlaubte Worker-Namen (auch als @name-Trigger) */
+export const WORKER_NAME_PATTERN = /^[a-z][a-z0-9-]{0,31}$/;
+
+/** Erlaubte Modellnamen und Aliase (werden als CLI-Argument übergeben) */
+export const MODEL_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:\/-]{0,99}$/;
+
+export interface WorkerCapabilities {
+  /** Kontext kann über mehrere Tasks fortgesetzt werden */
+  sessions: boolean;
+  /** Mehrere benannte Sessions pro Verzeichnis, Tags und Forks */
+  namedSessions: boolean;
+  /** Live-Events für Tool-Aufrufe und Datei-Bearbeitungen */
+  toolEvents: boolean;
+  /** Meldet Token-Verbrauch und Kosten */
+  usageReporting: boolean;
+  /** Rechte-Profile, die der Worker durchsetzen kann */
+  permissionProfiles: PermissionProfileName[];
+  /** Modell kann pro Task gewählt werden */
+  modelSelection: boolean;
+}
+
+export interface WorkerUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface AgentExecuteOptions {
+  /** Arbeitsverzeichnis (default: process.cwd()) */
+  workingDirectory?: string;
+  /** Timeout in Millisekunden (default: je Worker) */
+  timeout?: number;
+  /** Session-ID für Kontext-Erhaltung (nur Worker mit eigenen Session-IDs) */
+  sessionId?: string;
+  /** Automatisch letzte Session fortsetzen (default: true) */
+  continueSession?: boolean;
+  /**
+   * Session nach dem Lauf speichern (default: true). false für Einmal-Läufe,
+   * die die Session eines Workers ohne benannte Sessions nicht ersetzen sollen.
+   */
+  recordSession?: boolean;
+  /** Name der Session im Arbeitsverzeichnis (default: "default") */
+  sessionName?: string;
+  /** Tags für die Session (ersetzen bestehende Tags) */
+  sessionTags?: string[];
+  /** Name einer bestehenden Session, von der abgezweigt wird (braucht sessionName) */
+  forkFrom?: string;
+  /** Bei forkFrom eine bestehende Ziel-Session ersetzen (default: false) */
+  overwriteSession?: boolean;
+  /** Wird für Tool-Aufrufe, Datei-Bearbeitungen und Teil-Antworten aufgerufen */
+  onProgress?: ProgressCallback;
+  /** Bricht den Task ab und beendet den Prozess */
+  signal?: AbortSignal;
+  /** Rechte-Profil (default: laut permissionPolicy für das Verzeichnis) */
+  permissionProfile?: PermissionProfileName;
+  /** Änderungsbericht erstellen (default: true) */
+  trackChanges?: boolean;
+  /** Vollständigen Patch in den Änderungsbericht aufnehmen (default: false) */
+  includePatch?: boolean;
+  /** Überschreibt einzelne Felder der Retry-Policy */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Task-ID für das Audit-Log (default: neu generiert) */
+  taskId?: string;
+  /** Verbindet zusammengehörige Tasks im Audit-Log, z.B. Job-ID */
+  correlationId?: string;
+  /** Verhalten bei erreichtem Nutzungslimit (default: fail) */
+  onUsageLimit?: UsageLimitPolicy;
+  /** Modell oder Alias wie "fast"/"smart" (default: model laut BridgeConfig, sonst CLI-Default) */
+  model?: string;
+  /** Rolle wie implementer oder reviewer (default: defaultRole laut BridgeConfig) */
+  role?: string;
+  /**
+   * Zusätzliche ständige Anweisungen. Beim Aufruf von execute werden Rolle und
+   * Projekt-Preamble vorangestellt, runOnce erhält den fertigen System-Prompt.
+   */
+  systemPrompt?: string;
+}
+
+export interface AgentExecutionResult {
+  success: boolean;
+  output: string;
+  exitCode: number | null;
+  duration: number;
+  /** Session-ID der CLI (falls der Worker eine meldet) */
+  sessionId?: string;
+  /** Name der verwendeten Session */
+  sessionName?: string;
+  /** Verwendetes Modell (laut CLI, sonst das übergebene) */
+  model?: string;
+  /** Verwendete Rolle */
+  role?: string;
+  /** Anzahl der Turns laut CLI */
+  numTurns?: number;
+  /** Token-Verbrauch laut CLI */
+  usage?: WorkerUsage;
+  /** Kosten in USD laut CLI */
+  costUsd?: number;
+  /** Position in der Verzeichnis-Warteschlange (0 = sofort gestartet) */
+  queuePosition?: number;
+  /** Wartezeit in der Warteschlange in ms */
+  queueWaitMs?: number;
+  /** Verwendetes Rechte-Profil */
+  permissionProfile?: PermissionProfileName;
+  /** Änderungen im Arbeitsverzeichnis (Snapshot vorher/nachher) */
+  changes?: ChangeReport;
+  /** Typisierte Fehlerklasse (nur bei success=false) */
+  failure?: WorkerFailure;
+  /** Anzahl der Versuche inklusive Retries */
+  attempts?: number;
+  /** Task-ID im Audit-Log */
+  taskId?: string;
+  /** Redigierte Secrets im Ergebnis pro Detektor */
+  redactions?: RedactionCounts;
+  /** Ursprünglicher Worker, falls der Task wegen Nutzungslimit übergeben wurde */
+  fallbackFrom?: string;
+  /** Prüfung gegen das outputSchema des Aufrufers (nur mit outputSchema) */
+  structuredOutput?: OutputValidation;
+}
+
+export interface AgentWorker {
+  /** Eindeutiger Name, zugleich @name-Trigger */
+  readonly name: string;
+  /** Kurzbeschreibung für Tool-Listen */
+  readonly description: string;
+  readonly capabilities: WorkerCapabilities;
+  /** Eingebaute Modell-Aliase, z.B. fast → kleines Modell (erweiterbar per BridgeConfig) */
+  readonly modelAliases: Readonly<Record<string, string>>;
+
+  /**
+   * Führt eine Aufgabe aus. Fehlschläge kommen als Ergebnis mit failure zurück.
+   *
+   * @throws BudgetExceededError wenn ein Budget-Limit erreicht ist
+   */
+  execute(instruction: string, options?: AgentExecuteOptions): Promise<AgentExecutionResult>;
+
+  /** Prüft, ob die CLI installiert und aufrufbar ist */
+  isAvailable(): Promise<boolean>;
+
+  clearSession(workingDirectory: string, sessionName?: string): Promise<boolean>;
+
+  listSessions(filter?: Omit<SessionListFilter, 'worker'>): Promise<SessionRecord[]>;
+}
@@ -0,0 +1,265 @@
+/**
+ * AuditLogger - Strukturiertes Audit-Log als JSON Lines
+ *
+ * Ersetzt das frühere ~/.claude/orchestrator.log (Freitext, nur Instruction,
+ * wuchs unbegrenzt). Jedes Ereignis ist eine JSON-Zeile in
+ * ~/.claude/bridge-logs/audit.jsonl mit Task-ID und optionaler Correlation-ID
+ * (z.B. Job-ID), sodass zusammengehörige Ereignisse gefunden werden.
+ *
+ * ROTATION:
+ * - Die aktive Datei wird umbenannt, sobald sie maxBytes überschreitet oder
+ *   ihr erstes Ereignis älter als maxAgeMs ist
+ * - Es bleiben höchstens maxFiles rotierte Dateien erhalten
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionStore } from './SessionStore.js';
+import { redactor } from './Redactor.js';
+import { bridgeConfig } from './BridgeConfig.js';
+
+export const AUDIT_EVENT_TYPES = [
+  'task_started',
+  'task_finished',
+  'task_failed',
+  'task_timed_out',
+  'task_cancelled',
+  'task_rejected',
+  'session_created',
+  'session_cleared',
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export type AuditStatus = 'success' | 'failed' | 'cancelled';
+
+export interface AuditEvent {
+  timestamp: string;
+  event: AuditEventType;
+  /** Eindeutige ID pro Task (bleibt über Retries gleich) */
+  taskId?: string;
+  /** Verbindet mehrere Tasks, z.B. Job-ID aus start_task */
+  correlationId?: string;
+  worker?: string;
+  workingDirectory?: string;
+  sessionName?: string;
+  sessionId?: string;
+  instruction?: string;
+  /** Ergebnis bei Abschluss-Ereignissen */
+  status?: AuditStatus;
+  exitCode?: number | null;
+  durationMs?: number;
+  attempts?: number;
+  failureKind?: string;
+  message?: string;
+  permissionProfile?: string;
+  /** Verwendetes Modell (bei task_started das angeforderte) */
+  model?: string;
+  role?: string;
+}
+
+export type AuditEventInput = Omit<AuditEvent, 'timestamp'>;
+
+export interface AuditQuery {
+  workingDirectory?: string;
+  worker?: string;
+  status?: AuditStatus;
+  event?: AuditEventType;
+  taskId?: string;
+  correlationId?: string;
+  since?: Date;
+  until?: Date;
+  /** Maximale Anzahl Ereignisse (default: 50) */
+  limit?: number;
+}
+
+export interface AuditQueryResult {
+  /** Neueste Ereignisse zuerst */
+  events: AuditEvent[];
+  /** Es gibt weitere passende Ereignisse jenseits von limit */
+  hasMore: boolean;
+}
+
+export interface AuditLoggerOptions {
+  /** Log-Verzeichnis (default: paths.logs der BridgeConfig, sonst ~/.claude/bridge-logs) */
+  directory?: string;
+  /** Rotation ab dieser Dateigröße (default: 10 MB) */
+  maxBytes?: number;
+  /** Rotation, wenn das erste Ereignis älter ist (default: 24h) */
+  maxAgeMs?: number;
+  /** Anzahl aufbewahrter rotierter Dateien (default: 10) */
+  maxFiles?: number;
+  /** Maximale Länge von Instruction und Meldung (default: 2000) */
+  maxTextLength?: number;
+}
+
+const ACTIVE_FILE = 'audit.jsonl';
+const ROTATED_PATTERN = /^audit-[0-9TZ-]+\.jsonl$/;
+
+/**
+ * Ordnet einem Worker-Ergebnis das passende Abschluss-Ereignis zu.
+ */
+export function completionEvent(success: boolean, failureKind?: string): { event: AuditEventType; status: AuditStatus } {
+  if (success) return { event: 'task_finished', status: 'success' };
+  if (failureKind === 'cancelled') return { event: 'task_cancelled', status: 'cancelled' };
+  if (failureKind === 'timeout') return { event: 'task_timed_out', status: 'failed' };
+  return { event: 'task_failed', status: 'failed' };
+}
+
+export class AuditLogger {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private readonly maxAgeMs: number;
+  private readonly maxFiles: number;
+  private readonly maxTextLength: number;
+
+  constructor(options: AuditLoggerOptions = {}) {
+    this.directory = options.directory ?? bridgeConfig.path('logs');
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxAgeMs = options.maxAgeMs ?? 24 * 60 * 60 * 1000;
+    this.maxFiles = options.maxFiles ?? 10;
+    this.maxTextLength = options.maxTextLength ?? 2000;
+  }
+
+  /**
+   * Schreibt ein Ereignis. Fehler werden gemeldet, aber nie geworfen -
+   * ein defektes Log darf keinen Task scheitern lassen.
+   */
+  log(input: AuditEventInput): void {
+    const event: AuditEvent = {
+      timestamp: new Date().toISOString(),
+      ...input,
+      workingDirectory: input.workingDirectory !== undefined ? SessionStore.normalizePath(input.workingDirectory) : undefined,
+      instruction: input.instruction !== undefined ? this.truncate(redactor.redact(input.instruction, 'log').text) : undefined,
+      message: input.message !== undefined ? this.truncate(redactor.redact(input.message, 'log').text) : undefined,
+    };
+
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      this.rotateIfNeeded();
+      fs.appendFileSync(this.activeFile(), `${JSON.stringify(event)}\n`);
+    } catch (error) {
+      console.error('[bridge] Audit-Log konnte nicht geschrieben werden:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Durchsucht aktive und rotierte Dateien, neueste Ereignisse zuerst.
+   */
+  query(query: AuditQuery = {}): AuditQueryResult {
+    const limit = query.limit ?? 50;
+    const events: AuditEvent[] = [];
+
+    for (const file of this.logFiles()) {
+      const matching = this.readEvents(file).filter((event) => AuditLogger.matches(event, query)).reverse();
+      for (const event of matching) {
+        if (events.length === limit) return { events, hasMore: true };
+        events.push(event);
+      }
+    }
+    return { events, hasMore: false };
+  }
+
+  private static matches(event: AuditEvent, query: AuditQuery): boolean {
+    if (query.workingDirectory && event.workingDirectory !== SessionStore.normalizePath(query.workingDirectory)) return false;
+    if (query.worker && event.worker !== query.worker) return false;
+    if (query.status && event.status !== query.status) return false;
+    if (query.event && event.event !== query.event) return false;
+    if (query.taskId && event.taskId !== query.taskId) return false;
+    if (query.correlationId && event.correlationId !== query.correlationId) return false;
+    const time = new Date(event.timestamp).getTime();
+    if (query.since && time < query.since.getTime()) return false;
+    if (query.until && time > query.until.getTime()) return false;
+    return true;
+  }
+
+  private activeFile(): string {
+    return path.join(this.directory, ACTIVE_FILE);
+  }
+
+  /**
+   * Aktive Datei zuerst, danach rotierte Dateien von neu nach alt.
+   */
+  private logFiles(): string[] {
+    const rotated = this.rotatedFiles().reverse();
+    return [this.activeFile(), ...rotated];
+  }
+
+  /** Rotierte Dateien, älteste zuerst (Zeitstempel im Namen sortiert lexikografisch) */
+  private rotatedFiles(): string[] {
+    try {
+      return fs.readdirSync(this.directory)
+        .filter((f) => ROTATED_PATTERN.test(f))
+        .sort()
+        .map((f) => path.join(this.directory, f));
+    } catch {
+      return [];
+    }
+  }
+
+  private rotateIfNeeded(): void {
+    const file = this.activeFile();
+    let size: number;
+    try {
+      size = fs.statSync(file).size;
+    } catch {
+      return;
+    }
+    if (size < this.maxBytes && !this.isTooOld(file)) return;
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    try {
+      fs.renameSync(file, path.join(this.directory, `audit-${stamp}.jsonl`));
+    } catch (error) {
+      // Eine andere Bridge-Instanz hat bereits rotiert
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const rotated = this.rotatedFiles();
+    for (const old of rotated.slice(0, Math.max(0, rotated.length - this.maxFiles))) {
+      fs.rmSync(old, { force: true });
+    }
+  }
+
+  /**
+   * Prüft das Alter anhand des ersten Ereignisses (birthtime ist nicht
+   * auf allen Dateisystemen verfügbar).
+   */
+  private isTooOld(file: string): boolean {
+    const buffer = Buffer.alloc(256);
+    const fd = fs.openSync(file, 'r');
+    try {
+      const bytes = fs.readSync(fd, buffer, 0, buffer.length, 0);
+      const match = /"timestamp":"([^"]+)"/.exec(buffer.toString('utf-8', 0, bytes));
+      return match !== null && Date.now() - new Date(match[1]).getTime() > this.maxAgeMs;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private readEvents(file: string): AuditEvent[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(file, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const events: AuditEvent[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line) as AuditEvent);
+      } catch {
+        // Unvollständige Zeile überspringen
+      }
+    }
+    return events;
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.maxTextLength ? `${text.slice(0, this.maxTextLength)}...` : text;
+  }
+}
+
+export const auditLogger = new AuditLogger();
@@ -0,0 +1,646 @@
+/**
+ * BridgeConfig - Validierte Konfiguration der Bridge
+ *
+ * QUELLEN (spätere überschreiben frühere):
+ * 1. Eingebaute Defaults
+ * 2. Globale Datei ~/.claude/bridge.json (Pfad änderbar über BRIDGE_CONFIG)
+ * 3. Umgebungsvariablen für einzelne Abschnitte der globalen Datei
+ *    (BRIDGE_BUDGET, BRIDGE_MAX_CONCURRENCY, BRIDGE_JOB_RETENTION_MS,
+ *    BRIDGE_SESSION_TTL_MS, BRIDGE_PERMISSION_PROFILE, BRIDGE_PERMISSION_LIMITS,
+ *    BRIDGE_REDACTION) - sie werden mit der Datei validiert
+ * 4. Projektdatei .bridge.json - gesucht ab dem workingDirectory aufwärts
+ *
+ * Beispiel (global):
+ *
+ *   {
+ *     "defaultWorker": "claude",
+ *     "paths": { "dataDir": "~/.claude", "logs": "/var/log/bridge" },
+ *     "workers": {
+ *       "claude": { "command": "/opt/claude/bin/claude", "timeout": 900000, "model": "sonnet", "modelAliases": { "fast": "haiku" } },
+ *       "gemini": { "extraArgs": ["--sandbox"], "env": { "GEMINI_API_KEY": "..." } }
+ *     },
+ *     "commandWorkers": [{ "name": "aider", "command": "aider", "args": ["--yes", "--message", "{instruction}"] }],
+ *     "budget": { "maxTasksPerHour": 30 },
+ *     "permissions": { "defaultProfile": "edit-no-shell", "directoryLimits": { "/srv/prod": "read-only" } }
+ *   }
+ *
+ * Projektdateien dürfen nur defaultWorker, defaultRole, preamble/preambleFile,
+ * routing sowie timeout, model und modelAliases pro Worker setzen - keine
+ * Binärpfade, CLI-Argumente, Umgebungsvariablen, Ablageorte oder neuen Worker,
+ * da sie mit einem fremden Repository ausgecheckt werden können (z.B.
+ * --dangerously-skip-permissions in extraArgs oder NODE_OPTIONS in env).
+ *
+ * Eine ungültige globale Datei (bzw. Umgebungsvariable) verhindert den Start (siehe index.ts), eine
+ * ungültige Projektdatei lässt nur Tasks in diesem Projekt scheitern.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { MODEL_NAME_PATTERN, WORKER_NAME_PATTERN } from './AgentWorker.js';
+
+export const PROJECT_CONFIG_FILE = '.bridge.json';
+
+/**
+ * Rechte-Profile, geordnet von wenig nach viel (siehe PermissionProfiles).
+ * Liegen hier, weil PermissionProfiles seine Policy aus der Konfiguration liest.
+ */
+export const PERMISSION_PROFILES = ['read-only', 'edit-no-shell', 'full'] as const;
+
+export type PermissionProfileName = typeof PERMISSION_PROFILES[number];
+
+const WorkerNameSchema = z
+  .string()
+  .regex(WORKER_NAME_PATTERN, 'Kleinbuchstaben, Ziffern und Bindestriche, beginnend mit einem Buchstaben');
+
+const ModelNameSchema = z.string().regex(MODEL_NAME_PATTERN, 'Ungültiger Modellname');
+
+const WorkerSettingsSchema = z
+  .object({
+    /** Programm bzw. Pfad zur CLI */
+    command: z.string().min(1).optional(),
+    /** Default-Timeout in ms, wenn der Aufrufer keins angibt */
+    timeout: z.number().int().min(1000).max(3600000).optional(),
+    /** Default-Modell oder Alias */
+    model: ModelNameSchema.optional(),
+    /** Eigene Aliase bzw. Ersatz für eingebaute, z.B. { "fast": "claude-haiku-4-5" } */
+    modelAliases: z.record(ModelNameSchema, ModelNameSchema).optional(),
+    /** Zusätzliche CLI-Argumente (vor den Rechte-Argumenten) */
+    extraArgs: z.array(z.string()).optional(),
+    env: z.record(z.string()).optional(),
+  })
+  .strict();
+
+const ProjectWorkerSettingsSchema = WorkerSettingsSchema.omit({ command: true, extraArgs: true, env: true }).strict();
+
+/** Eingebaute Worker - nicht als commandWorkers überschreibbar */
+const RESERVED_NAMES = ['claude', 'gemini'];
+
+export const CommandWorkerDefinitionSchema = z
+  .object({
+    name: WorkerNameSchema.refine((name) => !RESERVED_NAMES.includes(name), 'Name ist für eingebaute Worker reserviert'),
+    description: z.string().default(''),
+    command: z.string().min(1),
+    args: z.array(z.string()).default(['{instruction}']),
+    /** Zusätzliche Argumente, wenn eine bestehende Session fortgesetzt wird */
+    resumeArgs: z.array(z.string()).optional(),
+    /** Argumente für die Modellwahl mit {model}, z.B. ["--model", "{model}"] */
+    modelArgs: z.array(z.string()).optional(),
+    /** Argumente für den System-Prompt mit {systemPrompt}; ohne wird er der Instruction vorangestellt */
+    systemPromptArgs: z.array(z.string()).optional(),
+    /** Instruction als Argument (Platzhalter {instruction}) oder über stdin */
+    instructionVia: z.enum(['arg', 'stdin']).default('arg'),
+    output: z
+      .object({
+        format: z.enum(['text', 'json', 'jsonl']).default('text'),
+        /** Pfad zur Antwort, z.B. "result" oder "message.content" */
+        field: z.string().optional(),
+        /** Pfad zur Session-ID (für {sessionId} in resumeArgs) */
+        sessionIdField: z.string().optional(),
+      })
+      .default({}),
+    /** Argumente pro Rechte-Profil (default: nur full ohne Zusatzargumente) */
+    permissionArgs: z.record(z.enum(PERMISSION_PROFILES), z.array(z.string())).optional(),
+    env: z.record(z.string()).optional(),
+    /** Timeout in ms (default: 10 Minuten) */
+    timeout: z.number().int().min(1000).optional(),
+  })
+  .refine(
+    (def) => def.instructionVia === 'stdin' || def.args.some((arg) => arg.includes('{instruction}')),
+    { message: 'args muss {instruction} enthalten (oder instructionVia: "stdin")', path: ['args'] }
+  );
+
+const RoleNameSchema = z
+  .string()
+  .regex(WORKER_NAME_PATTERN, 'Kleinbuchstaben, Ziffern und Bindestriche, beginnend mit einem Buchstaben');
+
+const RoleDefinitionSchema = z
+  .object({
+    description: z.string().default(''),
+    /** Ständige Anweisungen an den Worker */
+    systemPrompt: z.string().min(1),
+    /** Vorgabe, wie das Ergebnis zurückgemeldet wird */
+    resultFormat: z.string().optional(),
+    /** Höchstes Rechte-Profil für Tasks mit dieser Rolle; höhere werden gekappt */
+    maxPermissionProfile: z.enum(PERMISSION_PROFILES).optional(),
+  })
+  .strict();
+
+export const ROUTING_CATEGORIES = ['planning', 'architecture', 'research', 'implementation', 'debugging', 'testing'] as const;
+
+const RoutingRuleBaseSchema = z.object({
+  /** Name für Ergebnis und Audit, z.B. "docs-to-gemini" */
+  name: RoleNameSchema,
+  worker: WorkerNameSchema,
+  category: z.enum(ROUTING_CATEGORIES).optional(),
+  /**
+   * Trifft zu, wenn eins der Wörter vorkommt (ganzes Wort, ohne Groß-/Kleinschreibung).
+   * Mit * am Ende zählt der Wortanfang: "test*" trifft "Tests" und "testen".
+   */
+  keywords: z.array(z.string().min(1)).min(1).optional(),
+  /** Globs für in der Instruction genannte Dateipfade, z.B. "docs/**" oder "*.md" */
+  paths: z.array(z.string().min(1)).min(1).optional(),
+  /** Länge der Instruction in Zeichen */
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(0).optional(),
+});
+
+const RULE_CONDITIONS = ['keywords', 'pattern', 'paths', 'minLength', 'maxLength'] as const;
+
+function hasCondition(rule: Partial<Record<(typeof RULE_CONDITIONS)[number], unknown>>): boolean {
+  return RULE_CONDITIONS.some((key) => rule[key] !== undefined);
+}
+
+/** Globale Regeln dürfen zusätzlich reguläre Ausdrücke nutzen */
+const RoutingRuleSchema = RoutingRuleBaseSchema.extend({
+  /** Regulärer Ausdruck (ohne Groß-/Kleinschreibung) */
+  pattern: z
+    .string()
+    .min(1)
+    .max(200)
+    .refine((pattern) => {
+      try {
+        new RegExp(pattern, 'i');
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Ungültiger regulärer Ausdruck')
+    .optional(),
+})
+  .strict()
+  .refine(hasCondition, 'Regel braucht mindestens eine Bedingung (keywords, pattern, paths, minLength oder maxLength)');
+
+/**
+ * Projektregeln ohne pattern: Ein fremdes Repository könnte sonst einen
+ * Ausdruck mit katastrophalem Backtracking (ReDoS) einschleusen.
+ */
+const ProjectRoutingRuleSchema = RoutingRuleBaseSchema
+  .strict()
+  .refine(hasCondition, 'Regel braucht mindestens eine Bedingung (keywords, paths, minLength oder maxLength)');
+
+const RoutingBaseSchema = z.object({
+  /** Router für delegate ohne @-Trigger (default: true) */
+  enabled: z.boolean().optional(),
+  /** Eingebaute Regeln nach den eigenen anwenden (default: nur ohne konfigurierten defaultWorker) */
+  builtinRules: z.boolean().optional(),
+});
+
+const RoutingSchema = RoutingBaseSchema.extend({
+  /** Eigene Regeln, die erste zutreffende gewinnt */
+  rules: z.array(RoutingRuleSchema).default([]),
+}).strict();
+
+const ProjectRoutingSchema = RoutingBaseSchema.extend({
+  rules: z.array(ProjectRoutingRuleSchema).default([]),
+}).strict();
+
+const PathsSchema = z
+  .object({
+    /** Basisverzeichnis für alle Ablageorte ohne eigene Angabe (default: ~/.claude) */
+    dataDir: z.string().min(1).optional(),
+    sessions: z.string().min(1).optional(),
+    logs: z.string().min(1).optional(),
+    transcripts: z.string().min(1).optional(),
+    usage: z.string().min(1).optional(),
+    worktrees: z.string().min(1).optional(),
+  })
+  .strict();
+
+const BudgetSchema = z
+  .object({
+    maxTasksPerHour: z.number().positive().optional(),
+    maxRuntimeMsPerSession: z.number().positive().optional(),
+    maxRuntimeMsPerDirectory: z.number().positive().optional(),
+    maxCostUsdPerDay: z.number().positive().optional(),
+  })
+  .strict();
+
+const PermissionsSchema = z
+  .object({
+    /** Profil, wenn der Aufruf keins angibt (default: full) */
+    defaultProfile: z.enum(PERMISSION_PROFILES).optional(),
+    /** Obergrenze pro Verzeichnis (gilt auch für Unterverzeichnisse) */
+    directoryLimits: z.record(z.string().min(1), z.enum(PERMISSION_PROFILES)).default({}),
+  })
+  .strict();
+
+const RedactionSchema = z
+  .object({
+    /** Senken, in denen redigiert wird (default: alle) */
+    sinks: z
+      .object({ log: z.boolean().optional(), toolResult: z.boolean().optional(), transcript: z.boolean().optional() })
+      .strict()
+      .optional(),
+    /** Zusätzliche Muster */
+    patterns: z
+      .array(
+        z
+          .object({
+            name: z.string().min(1),
+            pattern: z.string().min(1),
+            flags: z.string().regex(/^[gimsuy]*$/, 'Ungültige Regex-Flags').optional(),
+          })
+          .strict()
+          .refine((p) => {
+            try {
+              new RegExp(p.pattern, p.flags);
+              return true;
+            } catch {
+              return false;
+            }
+          }, { message: 'Ungültiger regulärer Ausdruck', path: ['pattern'] })
+      )
+      .default([]),
+    /** Eingebaute Detektoren, die abgeschaltet werden, z.B. ["high_entropy"] */
+    disabledDetectors: z.array(z.string()).default([]),
+  })
+  .strict();
+
+const GlobalConfigSchema = z
+  .object({
+    /** Worker für delegate ohne @-Trigger und start_task ohne worker (default: claude) */
+    defaultWorker: WorkerNameSchema.optional(),
+    paths: PathsSchema.default({}),
+    /** Einstellungen pro Worker-Name (eingebaut oder commandWorkers) */
+    workers: z.record(WorkerNameSchema, WorkerSettingsSchema).default({}),
+    commandWorkers: z.array(CommandWorkerDefinitionSchema).default([]),
+    /** Rolle, wenn der Aufrufer keine angibt (default: keine) */
+    defaultRole: RoleNameSchema.optional(),
+    /** Eigene Rollen bzw. Ersatz für eingebaute (siehe RoleProfiles) */
+    roles: z.record(RoleNameSchema, RoleDefinitionSchema).default({}),
+    /** Inhaltsbasiertes Routing (siehe TaskRouter) */
+    routing: RoutingSchema.optional(),
+    /** Budget- und Rate-Limits (siehe BudgetGuard) */
+    budget: BudgetSchema.default({}),
+    /** Gleichzeitig laufende Worker (siehe ExecutionQueue) */
+    maxConcurrency: z.number().int().min(1).optional(),
+    /** Aufbewahrung beendeter Jobs in ms (siehe JobRegistry) */
+    jobRetentionMs: z.number().int().min(1).optional(),
+    /** Lebensdauer inaktiver Sessions in ms (siehe SessionStore) */
+    sessionTtlMs: z.number().int().min(1).optional(),
+    /** Default-Profil und Obergrenzen pro Verzeichnis (siehe PermissionProfiles) */
+    permissions: PermissionsSchema.default({}),
+    /** Secret-Redaction (siehe Redactor) */
+    redaction: RedactionSchema.default({}),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const seen = new Set<string>();
+    config.commandWorkers.forEach((worker, index) => {
+      if (seen.has(worker.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['commandWorkers', index, 'name'], message: `Worker "${worker.name}" ist doppelt definiert` });
+      }
+      seen.add(worker.name);
+    });
+  });
+
+const ProjectConfigSchema = z
+  .object({
+    defaultWorker: WorkerNameSchema.optional(),
+    workers: z.record(WorkerNameSchema, ProjectWorkerSettingsSchema).default({}),
+    defaultRole: RoleNameSchema.optional(),
+    /** Projekt-Konventionen, die jedem Task vorangestellt werden */
+    preamble: z.string().min(1).optional(),
+    /** Wie preamble, aber aus einer Datei (relativ zur .bridge.json, innerhalb des Projekts) */
+    preambleFile: z
+      .string()
+      .min(1)
+      .refine(
+        (file) => !path.isAbsolute(file) && !path.win32.isAbsolute(file) && !file.split(/[\\/]/).includes('..'),
+        'Nur relative Pfade innerhalb des Projekts (ohne "..")'
+      )
+      .optional(),
+    routing: ProjectRoutingSchema.optional(),
+  })
+  .strict();
+
+export type WorkerSettings = z.infer<typeof WorkerSettingsSchema>;
+export type CommandWorkerDefinition = z.infer<typeof CommandWorkerDefinitionSchema>;
+export type GlobalConfig = z.infer<typeof GlobalConfigSchema>;
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+export type RoleDefinition = z.infer<typeof RoleDefinitionSchema>;
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+export type RoutingCategory = (typeof ROUTING_CATEGORIES)[number];
+export type StoragePath = Exclude<keyof z.infer<typeof PathsSchema>, 'dataDir'>;
+
+/** Default-Unterverzeichnisse unter dataDir */
+const DEFAULT_DIRECTORIES: Record<StoragePath, string> = {
+  sessions: 'bridge-sessions',
+  logs: 'bridge-logs',
+  transcripts: 'bridge-transcripts',
+  usage: 'bridge-usage',
+  worktrees: 'bridge-worktrees',
+};
+
+export interface RoutingSettings {
+  enabled: boolean;
+  builtinRules: boolean;
+  /** Regeln aus Projekt- und globaler Datei (in dieser Reihenfolge) */
+  rules: Array<RoutingRule & { source: string }>;
+}
+
+/**
+ * Wird geworfen, wenn eine Konfigurationsdatei nicht lesbar oder ungültig ist.
+ */
+export class BridgeConfigError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: string[]
+  ) {
+    super(`Ungültige Konfiguration ${file}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'BridgeConfigError';
+  }
+}
+
+interface CachedProjectConfig {
+  mtimeMs: number;
+  config: ProjectConfig;
+}
+
+export class BridgeConfig {
+  private readonly projectCache = new Map<string, CachedProjectConfig>();
+
+  /**
+   * @param global - Validierte globale Konfiguration
+   * @param baseDir - Bezugsverzeichnis für relative Pfade (Verzeichnis der globalen Datei)
+   * @param errors - Fehler beim Laden der globalen Datei (Defaults sind dann aktiv)
+   */
+  constructor(
+    readonly global: GlobalConfig,
+    private readonly baseDir: string,
+    readonly errors: BridgeConfigError[] = []
+  ) {}
+
+  /**
+   * Lädt die globale Datei. Fehlt sie, gelten die Defaults.
+   *
+   * @param env - Umgebung mit Overrides wie BRIDGE_BUDGET (default: keine)
+   * @throws BridgeConfigError bei unlesbarem JSON oder ungültigen Werten
+   */
+  static load(file: string, env: NodeJS.ProcessEnv = {}): BridgeConfig {
+    const raw = fs.existsSync(file) ? readJson(file) : {};
+    const overridden = applyEnvOverrides(file, raw, env);
+    return new BridgeConfig(validate(file, raw, GlobalConfigSchema, overridden), path.dirname(file));
+  }
+
+  /**
+   * Ablageort für Sessions, Logs, Transcripts, Verbrauch oder Worktrees.
+   */
+  path(kind: StoragePath): string {
+    const configured = this.global.paths[kind];
+    return configured ? this.resolve(configured) : path.join(this.dataDir(), DEFAULT_DIRECTORIES[kind]);
+  }
+
+  /** Basisverzeichnis für Zustandsdateien (default: ~/.claude) */
+  dataDir(): string {
+    return this.global.paths.dataDir ? this.resolve(this.global.paths.dataDir) : path.join(homeDirectory(), '.claude');
+  }
+
+  /**
+   * Einstellungen eines Workers für ein Arbeitsverzeichnis: global, dann Projekt.
+   * modelAliases werden zusammengeführt, command, extraArgs und env kommen nur
+   * aus der globalen Datei.
+   *
+   * @throws BridgeConfigError wenn die Projektdatei ungültig ist
+   */
+  workerSettings(worker: string, workingDirectory?: string): WorkerSettings {
+    const global = this.global.workers[worker] ?? {};
+    const project = workingDirectory ? this.projectConfig(workingDirectory)?.workers[worker] ?? {} : {};
+    return {
+      command: global.command,
+      timeout: project.timeout ?? global.timeout,
+      model: project.model ?? global.model,
+      modelAliases: { ...global.modelAliases, ...project.modelAliases },
+      extraArgs: global.extraArgs ?? [],
+      env: { ...global.env },
+    };
+  }
+
+  /**
+   * Default-Worker für ein Arbeitsverzeichnis (default: claude).
+   *
+   * @throws BridgeConfigError wenn die Projektdatei ungültig ist
+   */
+  defaultWorker(workingDirectory?: string): string {
+    const project = workingDirectory ? this.projectConfig(workingDirectory) : null;
+    return project?.defaultWorker ?? this.global.defaultWorker ?? 'claude';
+  }
+
+  /**
+   * Default-Rolle für ein Arbeitsverzeichnis (undefined = ohne Rolle).
+   *
+   * @throws BridgeConfigError wenn die Projektdatei ungültig ist
+   */
+  defaultRole(workingDirectory?: string): string | undefined {
+    const project = workingDirectory ? this.projectConfig(workingDirectory) : null;
+    return project?.defaultRole ?? this.global.defaultRole;
+  }
+
+  /**
+   * Projekt-Preamble aus preamble und preambleFile (in dieser Reihenfolge).
+   * Die Datei wird bei jedem Aufruf gelesen, Änderungen gelten sofort.
+   *
+   * @throws BridgeConfigError wenn die Projektdatei ungültig oder preambleFile nicht lesbar ist
+   */
+  projectPreamble(workingDirectory: string): string | undefined {
+    const file = this.findProjectFile(workingDirectory);
+    const project = file ? this.projectConfig(workingDirectory) : null;
+    if (!file || !project) return undefined;
+
+    const parts = project.preamble ? [project.preamble] : [];
+    if (project.preambleFile) {
+      try {
+        // Symlinks dürfen nicht aus dem Projekt herausführen (z.B. auf ~/.ssh)
+        const projectRoot = fs.realpathSync(path.dirname(file));
+        const preambleFile = fs.realpathSync(path.resolve(projectRoot, project.preambleFile));
+        if (!preambleFile.startsWith(projectRoot + path.sep)) {
+          throw new Error(`${project.preambleFile} liegt außerhalb von ${projectRoot}`);
+        }
+        parts.push(fs.readFileSync(preambleFile, 'utf-8').trim());
+      } catch (error) {
+        throw new BridgeConfigError(file, [`preambleFile: ${error instanceof Error ? error.message : String(error)}`]);
+      }
+    }
+    return parts.length > 0 ? parts.join('\n\n') : undefined;
+  }
+
+  /**
+   * Routing für ein Arbeitsverzeichnis: Projektregeln vor globalen Regeln,
+   * enabled/builtinRules aus der Projektdatei überschreiben die globalen.
+   * Ist ein defaultWorker konfiguriert, sind die eingebauten Regeln ohne
+   * ausdrückliches builtinRules: true aus - sie würden ihn sonst überstimmen.
+   *
+   * @throws BridgeConfigError wenn die Projektdatei ungültig ist
+   */
+  routing(workingDirectory?: string): RoutingSettings {
+    const file = workingDirectory ? this.findProjectFile(workingDirectory) : null;
+    const projectConfig = file && workingDirectory ? this.projectConfig(workingDirectory) : null;
+    const project = projectConfig?.routing;
+    const global = this.global.routing;
+    const defaultWorkerConfigured = (projectConfig?.defaultWorker ?? this.global.defaultWorker) !== undefined;
+    return {
+      enabled: project?.enabled ?? global?.enabled ?? true,
+      builtinRules: project?.builtinRules ?? global?.builtinRules ?? !defaultWorkerConfigured,
+      rules: [
+        ...(project?.rules ?? []).map((rule) => ({ ...rule, source: file ?? PROJECT_CONFIG_FILE })),
+        ...(global?.rules ?? []).map((rule) => ({ ...rule, source: 'global' })),
+      ],
+    };
+  }
+
+  get roles(): Record<string, RoleDefinition> {
+    return this.global.roles;
+  }
+
+  get commandWorkers(): CommandWorkerDefinition[] {
+    return this.global.commandWorkers;
+  }
+
+  /**
+   * Nächste .bridge.json ab dem Arbeitsverzeichnis aufwärts (null = keine).
+   */
+  findProjectFile(workingDirectory: string): string | null {
+    let dir = path.resolve(workingDirectory);
+    for (;;) {
+      const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+      if (fs.existsSync(candidate)) return candidate;
+      const parent = path.dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+
+  /**
+   * Projektkonfiguration für ein Arbeitsverzeichnis, neu gelesen bei Änderung der Datei.
+   *
+   * @throws BridgeConfigError wenn die Projektdatei ungültig ist
+   */
+  projectConfig(workingDirectory: string): ProjectConfig | null {
+    const file = this.findProjectFile(workingDirectory);
+    if (!file) return null;
+
+    const mtimeMs = fs.statSync(file).mtimeMs;
+    const cached = this.projectCache.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.config;
+
+    const config = parseFile(file, ProjectConfigSchema);
+    this.projectCache.set(file, { mtimeMs, config });
+    return config;
+  }
+
+  /** Löst ~ und relative Pfade (bezogen auf die globale Datei) auf */
+  private resolve(configured: string): string {
+    const expanded = configured === '~' || configured.startsWith('~/') || configured.startsWith('~\\')
+      ? path.join(homeDirectory(), configured.slice(1))
+      : configured;
+    return path.resolve(this.baseDir, expanded);
+  }
+}
+
+function homeDirectory(): string {
+  return process.env.USERPROFILE || process.env.HOME || '.';
+}
+
+/** Umgebungsvariablen, die einen Wert der globalen Datei ersetzen */
+const ENV_OVERRIDES: Array<{ variable: string; path: string[]; type: 'json' | 'number' | 'string' }> = [
+  { variable: 'BRIDGE_BUDGET', path: ['budget'], type: 'json' },
+  { variable: 'BRIDGE_MAX_CONCURRENCY', path: ['maxConcurrency'], type: 'number' },
+  { variable: 'BRIDGE_JOB_RETENTION_MS', path: ['jobRetentionMs'], type: 'number' },
+  { variable: 'BRIDGE_SESSION_TTL_MS', path: ['sessionTtlMs'], type: 'number' },
+  { variable: 'BRIDGE_PERMISSION_PROFILE', path: ['permissions', 'defaultProfile'], type: 'string' },
+  { variable: 'BRIDGE_PERMISSION_LIMITS', path: ['permissions', 'directoryLimits'], type: 'json' },
+  { variable: 'BRIDGE_REDACTION', path: ['redaction'], type: 'json' },
+];
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new BridgeConfigError(file, [error instanceof Error ? error.message : String(error)]);
+  }
+}
+
+function parseFile<T extends z.ZodTypeAny>(file: string, schema: T): z.infer<T> {
+  return validate(file, readJson(file), schema);
+}
+
+/**
+ * @param overridden - Konfigurationspfad → Umgebungsvariable, für verständliche Meldungen
+ */
+function validate<T extends z.ZodTypeAny>(
+  file: string,
+  raw: unknown,
+  schema: T,
+  overridden: Map<string, string> = new Map()
+): z.infer<T> {
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    throw new BridgeConfigError(
+      file,
+      parsed.error.issues.map((issue) => {
+        const issuePath = issue.path.join('.');
+        const variable = [...overridden].find(([key]) => issuePath === key || issuePath.startsWith(`${key}.`))?.[1];
+        return `${issuePath || '(Wurzel)'}${variable ? ` (aus ${variable})` : ''}: ${issue.message}`;
+      })
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Überträgt gesetzte Umgebungsvariablen in die Rohdaten der globalen Datei.
+ *
+ * @returns Überschriebene Pfade (z.B. "budget") → Variable
+ * @throws BridgeConfigError bei ungültigem JSON in einer Variable
+ */
+function applyEnvOverrides(file: string, raw: unknown, env: NodeJS.ProcessEnv): Map<string, string> {
+  const overridden = new Map<string, string>();
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return overridden;
+
+  for (const { variable, path: keys, type } of ENV_OVERRIDES) {
+    const value = env[variable];
+    if (value === undefined || value === '') continue;
+
+    let parsed: unknown = value;
+    if (type === 'number') {
+      parsed = Number(value);
+    } else if (type === 'json') {
+      try {
+        parsed = JSON.parse(value);
+      } catch (error) {
+        throw new BridgeConfigError(file, [`${variable}: ${error instanceof Error ? error.message : String(error)}`]);
+      }
+    }
+
+    let target = raw as Record<string, unknown>;
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key];
+      target = target[key] = typeof next === 'object' && next !== null && !Array.isArray(next) ? next as Record<string, unknown> : {};
+    }
+    target[keys[keys.length - 1]] = parsed;
+    overridden.set(keys.join('.'), variable);
+  }
+  return overridden;
+}
+
+/**
+ * Lädt die globale Konfiguration. Fehler werden gesammelt statt geworfen,
+ * damit alle Module mit Defaults laden und index.ts sie beim Start meldet.
+ */
+function configFromFile(): BridgeConfig {
+  const file = path.resolve(process.env.BRIDGE_CONFIG || path.join(homeDirectory(), '.claude', 'bridge.json'));
+  if (process.env.BRIDGE_CONFIG && !fs.existsSync(file)) {
+    return new BridgeConfig(GlobalConfigSchema.parse({}), path.dirname(file), [
+      new BridgeConfigError(file, ['Datei aus BRIDGE_CONFIG existiert nicht']),
+    ]);
+  }
+  try {
+    return BridgeConfig.load(file, process.env);
+  } catch (error) {
+    if (!(error instanceof BridgeConfigError)) throw error;
+    return new BridgeConfig(GlobalConfigSchema.parse({}), path.dirname(file), [error]);
+  }
+}
+
+export const bridgeConfig = configFromFile();
@@ -0,0 +1,183 @@
+/**
+ * BudgetGuard - Budget- und Rate-Limits für autonome Läufe
+ *
+ * Der autonome Modus delegiert ohne Rückfrage; ein Orchestrator in einer
+ * Schleife könnte so das Tages-Kontingent verbrauchen. Vor jedem Start
+ * eines Workers prüft der Guard die konfigurierten Limits gegen die Daten
+ * des UsageTrackers (gemeinsam für alle Bridge-Instanzen):
+ * - maxTasksPerHour:          abgeschlossene und laufende Tasks im gleitenden 1h-Fenster (alle Worker)
+ * - maxRuntimeMsPerSession:   Laufzeit einer Session im gleitenden 24h-Fenster
+ * - maxRuntimeMsPerDirectory: Laufzeit eines Verzeichnisses im 24h-Fenster
+ * - maxCostUsdPerDay:         gemeldete Kosten im gleitenden 24h-Fenster
+ *
+ * Bei Überschreitung wird ein BudgetExceededError mit Limit und
+ * Zeitpunkt der Freigabe geworfen.
+ *
+ * RESERVIERUNG: Ein Task belegt ab reserve() bis zu release() einen Platz in
+ * maxTasksPerHour. Sonst kämen gleichzeitig gestartete oder wartende Tasks
+ * alle durch die Prüfung, bevor der erste seinen Verbrauch verbucht hat.
+ * Reservierungen gelten pro Bridge-Instanz.
+ */
+
+import { bridgeConfig } from './BridgeConfig.js';
+import { SessionStore } from './SessionStore.js';
+import { usageTracker, type UsageRecord, type UsageTracker } from './UsageTracker.js';
+
+export type BudgetLimitName =
+  | 'tasks_per_hour'
+  | 'runtime_per_session'
+  | 'runtime_per_directory'
+  | 'cost_per_day';
+
+export interface BudgetLimits {
+  maxTasksPerHour?: number;
+  maxRuntimeMsPerSession?: number;
+  maxRuntimeMsPerDirectory?: number;
+  maxCostUsdPerDay?: number;
+}
+
+export interface BudgetScope {
+  worker: string;
+  workingDirectory: string;
+  sessionName: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const LIMIT_LABELS: Record<BudgetLimitName, string> = {
+  tasks_per_hour: 'Tasks pro Stunde',
+  runtime_per_session: 'Laufzeit pro Session (24h)',
+  runtime_per_directory: 'Laufzeit pro Verzeichnis (24h)',
+  cost_per_day: 'Kosten pro Tag (USD)',
+};
+
+export interface BudgetReservation {
+  /**
+   * Prüft die Limits erneut (z.B. nach der Wartezeit in der Queue), ohne die eigene Reservierung mitzuzählen.
+   *
+   * @throws BudgetExceededError beim ersten überschrittenen Limit
+   */
+  recheck(): void;
+  /** Gibt den Platz frei - nach dem Verbuchen des Verbrauchs oder bei Abbruch/Ablehnung */
+  release(): void;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly limit: BudgetLimitName,
+    readonly current: number,
+    readonly maximum: number,
+    readonly resetAt: Date
+  ) {
+    super(`Budget-Limit erreicht: ${LIMIT_LABELS[limit]} (${current}/${maximum}) - wieder frei ab ${resetAt.toISOString()}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export class BudgetGuard {
+  /** Reservierte, noch nicht freigegebene Tasks */
+  private inFlight = 0;
+
+  constructor(
+    private readonly limits: BudgetLimits,
+    private readonly tracker: UsageTracker = usageTracker
+  ) {}
+
+  /** Sind überhaupt Limits konfiguriert? */
+  get active(): boolean {
+    return Object.values(this.limits).some((value) => value !== undefined);
+  }
+
+  /**
+   * Prüft alle Limits für einen geplanten Task (laufende Tasks zählen mit).
+   *
+   * @throws BudgetExceededError beim ersten überschrittenen Limit
+   */
+  check(scope: BudgetScope, now = new Date()): void {
+    this.evaluate(scope, now, this.inFlight);
+  }
+
+  /**
+   * Prüft die Limits und reserviert einen Platz in maxTasksPerHour.
+   *
+   * @throws BudgetExceededError beim ersten überschrittenen Limit (dann ohne Reservierung)
+   */
+  reserve(scope: BudgetScope): BudgetReservation {
+    this.evaluate(scope, new Date(), this.inFlight);
+    this.inFlight++;
+    let released = false;
+    return {
+      recheck: () => this.evaluate(scope, new Date(), this.inFlight - (released ? 0 : 1)),
+      release: () => {
+        if (released) return;
+        released = true;
+        this.inFlight--;
+      },
+    };
+  }
+
+  private evaluate(scope: BudgetScope, now: Date, pendingTasks: number): void {
+    if (!this.active) return;
+
+    const { maxTasksPerHour, maxRuntimeMsPerSession, maxRuntimeMsPerDirectory, maxCostUsdPerDay } = this.limits;
+    const dayRecords = this.tracker.list({ since: new Date(now.getTime() - DAY_MS), until: now });
+    const directory = SessionStore.normalizePath(scope.workingDirectory);
+
+    if (maxTasksPerHour !== undefined) {
+      const hourRecords = dayRecords.filter((r) => new Date(r.timestamp).getTime() >= now.getTime() - HOUR_MS);
+      this.enforce('tasks_per_hour', hourRecords, () => 1, maxTasksPerHour, HOUR_MS, now, pendingTasks);
+    }
+
+    if (maxRuntimeMsPerSession !== undefined) {
+      const sessionRecords = dayRecords.filter((r) =>
+        r.worker === scope.worker
+        && r.workingDirectory === directory
+        && (r.sessionName ?? 'default') === scope.sessionName);
+      this.enforce('runtime_per_session', sessionRecords, (r) => r.durationMs, maxRuntimeMsPerSession, DAY_MS, now);
+    }
+
+    if (maxRuntimeMsPerDirectory !== undefined) {
+      const directoryRecords = dayRecords.filter((r) => r.workingDirectory === directory);
+      this.enforce('runtime_per_directory', directoryRecords, (r) => r.durationMs, maxRuntimeMsPerDirectory, DAY_MS, now);
+    }
+
+    if (maxCostUsdPerDay !== undefined) {
+      this.enforce('cost_per_day', dayRecords, (r) => r.costUsd ?? 0, maxCostUsdPerDay, DAY_MS, now);
+    }
+  }
+
+  /**
+   * Wirft, wenn die Summe im Fenster das Maximum erreicht. Der Reset-Zeitpunkt
+   * ist der Moment, ab dem genug alte Datensätze aus dem Fenster gefallen sind.
+   *
+   * @param pending - Zusätzlich mitgezählte Menge ohne Zeitstempel (laufende Tasks)
+   */
+  private enforce(
+    limit: BudgetLimitName,
+    records: UsageRecord[],
+    amount: (record: UsageRecord) => number,
+    maximum: number,
+    windowMs: number,
+    now: Date,
+    pending = 0
+  ): void {
+    const total = records.reduce((sum, record) => sum + amount(record), pending);
+    if (total < maximum) return;
+
+    let remaining = total;
+    let resetAt = new Date(now.getTime() + windowMs);
+    for (const record of records) {
+      remaining -= amount(record);
+      if (remaining < maximum) {
+        resetAt = new Date(new Date(record.timestamp).getTime() + windowMs);
+        break;
+      }
+    }
+
+    throw new BudgetExceededError(limit, Math.round(total * 10000) / 10000, maximum, resetAt);
+  }
+}
+
+// Limits aus der Konfiguration (budget bzw. BRIDGE_BUDGET)
+export const budgetGuard = new BudgetGuard(bridgeConfig.global.budget);
@@ -0,0 +1,279 @@
+/**
+ * ChangeTracker - Erfasst, was ein Worker im Arbeitsverzeichnis verändert hat
+ *
+ * Vor und nach jeder Ausführung wird ein Snapshot erstellt:
+ * - git-Repo: Tree-Objekt des kompletten Working Trees (inkl. untracked,
+ *   ohne ignorierte Dateien) über einen temporären Index. Der Vergleich
+ *   zweier Trees liefert Dateiliste, Diffstat und optional den Patch.
+ * - sonst: Manifest aus Datei-Hashes (ohne Zeilenstatistik und Patch).
+ *   Gelesen wird asynchron mit begrenzter Parallelität, damit der Server
+ *   währenddessen Fortschritt und Abbrüche bearbeiten kann.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { findRepoRoot, runGit } from './GitRunner.js';
+
+export type FileChangeType = 'created' | 'modified' | 'deleted';
+
+export interface FileChange {
+  /** Pfad relativ zum Repo-Root bzw. Arbeitsverzeichnis */
+  path: string;
+  type: FileChangeType;
+  /** Hinzugefügte Zeilen (nur git, undefined bei Binärdateien) */
+  additions?: number;
+  /** Entfernte Zeilen (nur git, undefined bei Binärdateien) */
+  deletions?: number;
+}
+
+export interface ChangeReport {
+  /** Art des Snapshots */
+  mode: 'git' | 'manifest';
+  files: FileChange[];
+  totals: {
+    created: number;
+    modified: number;
+    deleted: number;
+    additions: number;
+    deletions: number;
+  };
+  /** Vollständiger Patch (nur git und nur auf Anfrage) */
+  patch?: string;
+  patchTruncated?: boolean;
+}
+
+interface GitSnapshot {
+  mode: 'git';
+  repoRoot: string;
+  tree: string;
+}
+
+interface ManifestSnapshot {
+  mode: 'manifest';
+  root: string;
+  files: Map<string, string>;
+}
+
+export type WorkingTreeSnapshot = GitSnapshot | ManifestSnapshot;
+
+/** Gleichzeitig gehashte Dateien im Manifest-Modus */
+const MANIFEST_CONCURRENCY = 16;
+
+/** Verzeichnisse, die im Manifest-Modus übersprungen werden */
+const MANIFEST_SKIP_DIRS = new Set(['node_modules', '.git', 'dist', 'build', '.next', '__pycache__', '.venv']);
+
+export class ChangeTracker {
+  private readonly maxManifestFiles = 20000;
+  private readonly maxPatchLength = 200000;
+
+  /**
+   * Erstellt einen Snapshot des Arbeitsverzeichnisses.
+   * Liefert null, wenn kein Snapshot möglich ist (z.B. Verzeichnis fehlt).
+   */
+  async snapshot(workingDirectory: string): Promise<WorkingTreeSnapshot | null> {
+    try {
+      const repoRoot = await findRepoRoot(workingDirectory);
+      if (repoRoot) {
+        return { mode: 'git', repoRoot, tree: await this.writeWorkingTree(repoRoot) };
+      }
+      return { mode: 'manifest', root: workingDirectory, files: await this.buildManifest(workingDirectory) };
+    } catch (error) {
+      console.error('[bridge] Snapshot fehlgeschlagen:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Vergleicht zwei Snapshots desselben Verzeichnisses.
+   *
+   * @param includePatch - Vollständigen Patch anhängen (nur git)
+   */
+  async compare(
+    before: WorkingTreeSnapshot,
+    after: WorkingTreeSnapshot,
+    includePatch = false
+  ): Promise<ChangeReport | null> {
+    try {
+      if (before.mode === 'git' && after.mode === 'git') {
+        return await this.compareTrees(before.repoRoot, before.tree, after.tree, includePatch);
+      }
+      if (before.mode === 'manifest' && after.mode === 'manifest') {
+        return this.compareManifests(before.files, after.files);
+      }
+    } catch (error) {
+      console.error('[bridge] Änderungsvergleich fehlgeschlagen:', error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+
+  /**
+   * Schreibt den Working Tree über einen temporären Index als Tree-Objekt.
+   * Der echte Index des Users bleibt unberührt.
+   */
+  private async writeWorkingTree(repoRoot: string): Promise<string> {
+    const indexFile = path.join(os.tmpdir(), `bridge-index-${crypto.randomUUID()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+    try {
+      // Kopie des echten Index übernimmt den Stat-Cache - spart Re-Hashing
+      const realIndex = path.resolve(repoRoot, (await runGit(['rev-parse', '--git-path', 'index'], repoRoot)).trim());
+      if (fs.existsSync(realIndex)) fs.copyFileSync(realIndex, indexFile);
+
+      await runGit(['add', '-A', '--', '.'], repoRoot, { env });
+      return (await runGit(['write-tree'], repoRoot, { env })).trim();
+    } finally {
+      fs.rmSync(indexFile, { force: true });
+    }
+  }
+
+  private async compareTrees(
+    repoRoot: string,
+    beforeTree: string,
+    afterTree: string,
+    includePatch: boolean
+  ): Promise<ChangeReport> {
+    const report = ChangeTracker.emptyReport('git');
+    if (beforeTree === afterTree) return report;
+
+    const nameStatus = await runGit(['diff', '--name-status', '--no-renames', beforeTree, afterTree], repoRoot);
+    const numstat = await runGit(['diff', '--numstat', '--no-renames', beforeTree, afterTree], repoRoot);
+
+    const lineCounts = new Map<string, { additions?: number; deletions?: number }>();
+    for (const line of numstat.split('\n')) {
+      const [added, deleted, ...rest] = line.split('\t');
+      if (!rest.length) continue;
+      lineCounts.set(rest.join('\t'), {
+        additions: added === '-' ? undefined : Number(added),
+        deletions: deleted === '-' ? undefined : Number(deleted),
+      });
+    }
+
+    const typeByStatus: Record<string, FileChangeType> = { A: 'created', M: 'modified', D: 'deleted', T: 'modified' };
+    for (const line of nameStatus.split('\n')) {
+      const [status, ...rest] = line.split('\t');
+      if (!status || !rest.length) continue;
+      const filePath = rest.join('\t');
+      report.files.push({
+        path: filePath,
+        type: typeByStatus[status[0]] ?? 'modified',
+        ...lineCounts.get(filePath),
+      });
+    }
+
+    ChangeTracker.computeTotals(report);
+
+    if (includePatch && report.files.length > 0) {
+      const patch = await runGit(['diff', '--no-renames', beforeTree, afterTree], repoRoot);
+      report.patchTruncated = patch.length > this.maxPatchLength;
+      report.patch = report.patchTruncated
+        ? `${patch.slice(0, this.maxPatchLength)}\n[... Patch gekürzt ...]`
+        : patch;
+    }
+
+    return report;
+  }
+
+  private async buildManifest(root: string): Promise<Map<string, string>> {
+    const paths: string[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+        if (paths.length >= this.maxManifestFiles) return;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!MANIFEST_SKIP_DIRS.has(entry.name)) await walk(fullPath);
+        } else if (entry.isFile()) {
+          paths.push(fullPath);
+        }
+      }
+    };
+    await walk(root);
+
+    const files = new Map<string, string>();
+    let next = 0;
+    const hashNext = async (): Promise<void> => {
+      while (next < paths.length) {
+        const fullPath = paths[next++];
+        const hash = await hashFile(fullPath).catch(() => null);
+        // Zwischen Auflisten und Lesen gelöschte Dateien fehlen im Manifest
+        if (hash !== null) files.set(path.relative(root, fullPath).split(path.sep).join('/'), hash);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(MANIFEST_CONCURRENCY, paths.length) }, hashNext));
+    return files;
+  }
+
+  private compareManifests(before: Map<string, string>, after: Map<string, string>): ChangeReport {
+    const report = ChangeTracker.emptyReport('manifest');
+
+    for (const [filePath, hash] of after) {
+      const previous = before.get(filePath);
+      if (previous === undefined) {
+        report.files.push({ path: filePath, type: 'created' });
+      } else if (previous !== hash) {
+        report.files.push({ path: filePath, type: 'modified' });
+      }
+    }
+    for (const filePath of before.keys()) {
+      if (!after.has(filePath)) {
+        report.files.push({ path: filePath, type: 'deleted' });
+      }
+    }
+
+    report.files.sort((a, b) => a.path.localeCompare(b.path));
+    ChangeTracker.computeTotals(report);
+    return report;
+  }
+
+  private static emptyReport(mode: ChangeReport['mode']): ChangeReport {
+    return {
+      mode,
+      files: [],
+      totals: { created: 0, modified: 0, deleted: 0, additions: 0, deletions: 0 },
+    };
+  }
+
+  private static computeTotals(report: ChangeReport): void {
+    for (const file of report.files) {
+      report.totals[file.type] += 1;
+      report.totals.additions += file.additions ?? 0;
+      report.totals.deletions += file.deletions ?? 0;
+    }
+  }
+}
+
+/**
+ * SHA-1 einer Datei, gestreamt statt komplett in den Speicher gelesen.
+ */
+function hashFile(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha1');
+    fs.createReadStream(file)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Kompakte Text-Darstellung im Stil von git diff --stat.
+ */
+export function formatChangeReport(report: ChangeReport): string {
+  if (report.files.length === 0) return 'Keine Dateien geändert.';
+
+  const marker: Record<FileChangeType, string> = { created: 'A', modified: 'M', deleted: 'D' };
+  const lines = report.files.map((file) => {
+    const stat = file.additions !== undefined || file.deletions !== undefined
+      ? ` (+${file.additions ?? 0}/-${file.deletions ?? 0})`
+      : '';
+    return `${marker[file.type]} ${file.path}${stat}`;
+  });
+
+  const { totals } = report;
+  const summary = `${report.files.length} Datei(en): ${totals.created} neu, ${totals.modified} geändert, ${totals.deleted} gelöscht`
+    + (report.mode === 'git' ? `, +${totals.additions}/-${totals.deletions} Zeilen` : '');
+
+  return `${lines.join('\n')}\n${summary}`;
+}
+
+export const changeTracker = new ChangeTracker();
@@ -0,0 +1,254 @@
+/**
+ * ClaudeStreamParser - Parst die stream-json Ausgabe der Claude Code CLI
+ *
+ * `claude -p --output-format stream-json --verbose` schreibt ein JSON-Objekt
+ * pro Zeile (system/init, assistant, user, result). Der Parser wird
+ * inkrementell mit stdout-Chunks gefüttert und sammelt daraus Turns,
+ * Tool-Aufrufe, berührte Dateien, Kosten, Token-Verbrauch und die
+ * tatsächliche Session-ID der CLI.
+ */
+
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+}
+
+export interface ClaudeToolUseEvent {
+  /** Tool-Use-ID aus der CLI (verknüpft Aufruf und Ergebnis) */
+  id: string;
+  /** Name des Tools, z.B. Edit, Bash, Read */
+  name: string;
+  /** Unveränderter Tool-Input */
+  input: Record<string, unknown>;
+  /** Datei, die das Tool betrifft (falls erkennbar) */
+  filePath?: string;
+  /** Hat das Tool einen Fehler zurückgegeben? (erst nach tool_result gesetzt) */
+  isError?: boolean;
+}
+
+/** Subtypes des result-Events, z.B. error_max_turns */
+export type ClaudeResultSubtype =
+  | 'success'
+  | 'error_max_turns'
+  | 'error_during_execution'
+  | (string & {});
+
+export interface ClaudeStreamSummary {
+  /** Session-ID, wie von der CLI gemeldet */
+  sessionId?: string;
+  /** Verwendetes Modell laut init-Event */
+  model?: string;
+  /** Finale Antwort (result-Event, sonst letzter Assistant-Text) */
+  finalMessage?: string;
+  /** Alle Tool-Aufrufe in Reihenfolge */
+  toolUses: ClaudeToolUseEvent[];
+  /** Von schreibenden Tools berührte Dateien (dedupliziert) */
+  filesTouched: string[];
+  numTurns?: number;
+  usage?: ClaudeUsage;
+  costUsd?: number;
+  /** Von der CLI gemessene Dauer in ms */
+  cliDurationMs?: number;
+  /** Subtype des result-Events */
+  resultSubtype?: ClaudeResultSubtype;
+  /** is_error aus dem result-Event */
+  isError?: boolean;
+  /** Wurde ein result-Event empfangen? */
+  hasResult: boolean;
+  /** Zeilen, die kein gültiges JSON waren */
+  unparsedLines: string[];
+}
+
+/** Tools, deren Aufruf eine Datei verändert */
+const FILE_WRITING_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+/**
+ * Prüft, ob ein Tool Dateien verändert.
+ */
+export function isFileWritingTool(name: string): boolean {
+  return FILE_WRITING_TOOLS.has(name);
+}
+
+/**
+ * Kurzbeschreibung eines Tool-Aufrufs, z.B. "Bash: npm test" oder "Edit: src/a.ts".
+ */
+export function describeToolUse(toolUse: ClaudeToolUseEvent): string {
+  const { input } = toolUse;
+  const detail = toolUse.filePath
+    ?? (typeof input.command === 'string' ? input.command : undefined)
+    ?? (typeof input.pattern === 'string' ? input.pattern : undefined)
+    ?? (typeof input.url === 'string' ? input.url : undefined)
+    ?? (typeof input.description === 'string' ? input.description : undefined);
+  return detail ? `${toolUse.name}: ${detail}` : toolUse.name;
+}
+
+/** Listener für einzelne Events (z.B. für Progress-Meldungen) */
+export interface ClaudeStreamListener {
+  onToolUse?: (event: ClaudeToolUseEvent) => void;
+  onText?: (text: string) => void;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function parseUsage(value: unknown): ClaudeUsage | undefined {
+  if (!isObject(value)) return undefined;
+  return {
+    inputTokens: asNumber(value.input_tokens) ?? 0,
+    outputTokens: asNumber(value.output_tokens) ?? 0,
+    cacheCreationInputTokens: asNumber(value.cache_creation_input_tokens) ?? 0,
+    cacheReadInputTokens: asNumber(value.cache_read_input_tokens) ?? 0,
+  };
+}
+
+function extractFilePath(input: JsonObject): string | undefined {
+  const candidate = input.file_path ?? input.notebook_path ?? input.path;
+  return typeof candidate === 'string' ? candidate : undefined;
+}
+
+export class ClaudeStreamParser {
+  private buffer = '';
+  private lastAssistantText?: string;
+  private readonly toolUsesById = new Map<string, ClaudeToolUseEvent>();
+  private readonly summary: ClaudeStreamSummary = {
+    toolUses: [],
+    filesTouched: [],
+    hasResult: false,
+    unparsedLines: [],
+  };
+
+  constructor(private readonly listener: ClaudeStreamListener = {}) {}
+
+  /**
+   * Verarbeitet einen stdout-Chunk. Unvollständige Zeilen werden gepuffert.
+   */
+  push(chunk: string): void {
+    this.buffer += chunk;
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newlineIndex);
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      this.handleLine(line);
+    }
+  }
+
+  /**
+   * Verarbeitet den Rest-Puffer und liefert die Zusammenfassung.
+   */
+  finish(): ClaudeStreamSummary {
+    if (this.buffer.length > 0) {
+      this.handleLine(this.buffer);
+      this.buffer = '';
+    }
+    if (this.summary.finalMessage === undefined && this.lastAssistantText !== undefined) {
+      this.summary.finalMessage = this.lastAssistantText;
+    }
+    return this.summary;
+  }
+
+  private handleLine(rawLine: string): void {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      this.summary.unparsedLines.push(line);
+      return;
+    }
+    if (!isObject(event)) return;
+
+    if (typeof event.session_id === 'string') {
+      this.summary.sessionId = event.session_id;
+    }
+
+    switch (event.type) {
+      case 'system':
+        if (event.subtype === 'init' && typeof event.model === 'string') {
+          this.summary.model = event.model;
+        }
+        break;
+      case 'assistant':
+        this.handleAssistant(event);
+        break;
+      case 'user':
+        this.handleUser(event);
+        break;
+      case 'result':
+        this.handleResult(event);
+        break;
+    }
+  }
+
+  private handleAssistant(event: JsonObject): void {
+    const message = event.message;
+    if (!isObject(message) || !Array.isArray(message.content)) return;
+
+    const texts: string[] = [];
+    for (const block of message.content) {
+      if (!isObject(block)) continue;
+
+      if (block.type === 'text' && typeof block.text === 'string') {
+        texts.push(block.text);
+      } else if (block.type === 'tool_use' && typeof block.name === 'string') {
+        const input = isObject(block.input) ? block.input : {};
+        const toolUse: ClaudeToolUseEvent = {
+          id: typeof block.id === 'string' ? block.id : '',
+          name: block.name,
+          input,
+          filePath: extractFilePath(input),
+        };
+        this.summary.toolUses.push(toolUse);
+        if (toolUse.id) this.toolUsesById.set(toolUse.id, toolUse);
+
+        if (FILE_WRITING_TOOLS.has(toolUse.name) && toolUse.filePath
+          && !this.summary.filesTouched.includes(toolUse.filePath)) {
+          this.summary.filesTouched.push(toolUse.filePath);
+        }
+        this.listener.onToolUse?.(toolUse);
+      }
+    }
+
+    if (texts.length > 0) {
+      const text = texts.join('\n');
+      this.lastAssistantText = text;
+      this.listener.onText?.(text);
+    }
+  }
+
+  private handleUser(event: JsonObject): void {
+    const message = event.message;
+    if (!isObject(message) || !Array.isArray(message.content)) return;
+
+    for (const block of message.content) {
+      if (!isObject(block) || block.type !== 'tool_result') continue;
+      const toolUse = typeof block.tool_use_id === 'string'
+        ? this.toolUsesById.get(block.tool_use_id)
+        : undefined;
+      if (toolUse) {
+        toolUse.isError = block.is_error === true;
+      }
+    }
+  }
+
+  private handleResult(event: JsonObject): void {
+    this.summary.hasResult = true;
+    if (typeof event.subtype === 'string') this.summary.resultSubtype = event.subtype;
+    if (typeof event.result === 'string') this.summary.finalMessage = event.result;
+    this.summary.isError = event.is_error === true;
+    this.summary.numTurns = asNumber(event.num_turns);
+    this.summary.costUsd = asNumber(event.total_cost_usd) ?? asNumber(event.cost_usd);
+    this.summary.cliDurationMs = asNumber(event.duration_ms);
+    this.summary.usage = parseUsage(event.usage);
+  }
+}
@@ -7,109 +7,102 @@
  * SESSION-PERSISTENZ:
  * - Sessions werden pro Working Directory gespeichert
  * - Ermöglicht Kontext-Erhaltung über mehrere Aufrufe
+ *
+ * PROMPT: geht über stdin, nicht als Argument - Aufträge mit Diffs und
+ * Reviews sprengen sonst die Kommandozeile (Windows: ca. 8000 Zeichen).
+ * Unter Windows läuft die CLI über cmd.exe; dort kommt auch der System-Prompt
+ * in stdin statt in --append-system-prompt.
  */
 
 import { spawn, type ChildProcess } from "child_process";
-import * as fs from 'fs';
-import * as path from 'path';
 import * as crypto from 'crypto';
-
-export interface ClaudeExecutionResult {
-  success: boolean;
-  output: string;
-  exitCode: number | null;
-  duration: number;
-  sessionId?: string;
+import {
+  ClaudeStreamParser,
+  describeToolUse,
+  isFileWritingTool,
+  type ClaudeResultSubtype,
+  type ClaudeToolUseEvent,
+} from './ClaudeStreamParser.js';
+import type { AgentExecuteOptions, AgentExecutionResult, WorkerCapabilities } from './AgentWorker.js';
+import { CliWorker, terminateProcess, withPreamble } from './CliWorker.js';
+import { DEFAULT_SESSION_NAME } from './SessionStore.js';
+import { detectUsageLimit } from './UsageLimits.js';
+import { classifyFailure, createFailure } from './WorkerErrors.js';
+import { PERMISSION_PROFILES, claudePermissionArgs, type PermissionProfileName } from './PermissionProfiles.js';
+import { bridgeConfig, type WorkerSettings } from './BridgeConfig.js';
+
+/** Schonfrist zwischen SIGTERM und SIGKILL */
+const KILL_GRACE_MS = 5000;
+
+export interface ClaudeExecutionResult extends AgentExecutionResult {
+  /** Finale Antwort von Claude (aus dem result-Event) */
+  finalMessage?: string;
+  /** Alle Tool-Aufrufe, die Claude während des Tasks gemacht hat */
+  toolUses?: ClaudeToolUseEvent[];
+  /** Von Claude geschriebene/bearbeitete Dateien */
+  filesTouched?: string[];
+  /** Subtype des result-Events bei Fehlern, z.B. error_max_turns */
+  errorSubtype?: ClaudeResultSubtype;
 }
 
-export interface ClaudeWrapperOptions {
-  /** Arbeitsverzeichnis für Claude (default: process.cwd()) */
-  workingDirectory?: string;
-  /** Timeout in Millisekunden (default: 600000 = 10 Min) */
-  timeout?: number;
+export interface ClaudeWrapperOptions extends AgentExecuteOptions {
   /** Zusätzliche Environment-Variablen */
   additionalEnv?: Record<string, string>;
-  /** Session-ID für Kontext-Erhaltung (optional) */
-  sessionId?: string;
-  /** Automatisch letzte Session fortsetzen (default: true) */
-  continueSession?: boolean;
 }
 
-interface SessionData {
-  sessionId: string;
-  workingDirectory: string;
-  lastUsed: string;
-  taskCount: number;
+export interface ClaudeInvocationOptions {
+  model?: string;
+  systemPrompt?: string;
+  extraArgs?: string[];
+  permissionProfile?: PermissionProfileName;
+  /** Start über eine Shell (Windows) - dann keine freien Texte in den Argumenten */
+  shell?: boolean;
 }
 
-export class ClaudeWrapper {
-  private readonly defaultTimeout = 600000; // 10 Minuten
-  private readonly sessionDir: string;
-
-  constructor() {
-    const homeDir = process.env.USERPROFILE || process.env.HOME || '.';
-    this.sessionDir = path.join(homeDir, '.claude', 'bridge-sessions');
-    this.ensureSessionDir();
-  }
-
-  /**
-   * Stellt sicher, dass das Session-Verzeichnis existiert.
-   */
-  private ensureSessionDir(): void {
-    try {
-      if (!fs.existsSync(this.sessionDir)) {
-        fs.mkdirSync(this.sessionDir, { recursive: true });
-      }
-    } catch {
-      // Ignorieren - Sessions funktionieren dann nicht
-    }
-  }
-
-  /**
-   * Generiert einen Hash für ein Working Directory (für Dateinamen).
-   */
-  private getDirectoryHash(dir: string): string {
-    return crypto.createHash('md5').update(dir.toLowerCase()).digest('hex').slice(0, 12);
-  }
+export interface ClaudeInvocation {
+  args: string[];
+  /** Prompt für stdin */
+  stdin: string;
+}
 
-  /**
-   * Lädt Session-Daten für ein Working Directory.
-   */
-  private loadSession(workingDirectory: string): SessionData | null {
-    try {
-      const hash = this.getDirectoryHash(workingDirectory);
-      const sessionFile = path.join(this.sessionDir, `session-${hash}.json`);
-
-      if (fs.existsSync(sessionFile)) {
-        const data = JSON.parse(fs.readFileSync(sessionFile, 'utf-8'));
-        return data as SessionData;
-      }
-    } catch {
-      // Session nicht ladbar
-    }
-    return null;
-  }
+/**
+ * Baut den Aufruf der Claude CLI ohne Session-Argumente: Flags als Argumente,
+ * der Prompt über stdin (-p liest ihn dort, wenn kein Prompt-Argument folgt).
+ */
+export function claudeInvocation(prompt: string, options: ClaudeInvocationOptions = {}): ClaudeInvocation {
+  const systemPromptViaArgs = options.systemPrompt !== undefined && !options.shell;
+  // -p: Print mode - non-interactive, Ausgabe direkt auf stdout
+  // --output-format stream-json: Ein JSON-Event pro Zeile (benötigt --verbose)
+  // Rechte laut Profil (full = --dangerously-skip-permissions)
+  const args = [
+    "-p",
+    "--output-format", "stream-json",
+    "--verbose",
+    ...(options.model ? ["--model", options.model] : []),
+    ...(systemPromptViaArgs ? ["--append-system-prompt", options.systemPrompt as string] : []),
+    ...(options.extraArgs ?? []),
+    ...claudePermissionArgs(options.permissionProfile ?? "full"),
+  ];
+  return { args, stdin: systemPromptViaArgs ? prompt : withPreamble(prompt, options.systemPrompt) };
+}
 
-  /**
-   * Speichert Session-Daten für ein Working Directory.
-   */
-  private saveSession(workingDirectory: string, sessionId: string, taskCount: number): void {
-    try {
-      const hash = this.getDirectoryHash(workingDirectory);
-      const sessionFile = path.join(this.sessionDir, `session-${hash}.json`);
-
-      const data: SessionData = {
-        sessionId,
-        workingDirectory,
-        lastUsed: new Date().toISOString(),
-        taskCount,
-      };
+export class ClaudeWrapper extends CliWorker<ClaudeWrapperOptions, ClaudeExecutionResult> {
+  readonly name = 'claude';
+  readonly description = 'Claude Code CLI - Coding-Agent mit Dateizugriff, Sessions und Tool-Events';
+  readonly capabilities: WorkerCapabilities = {
+    sessions: true,
+    namedSessions: true,
+    toolEvents: true,
+    usageReporting: true,
+    permissionProfiles: [...PERMISSION_PROFILES],
+    modelSelection: true,
+  };
+  /** Aliase der Claude CLI (sonnet, opus, haiku) werden direkt durchgereicht */
+  readonly modelAliases = { fast: 'haiku', smart: 'opus' };
 
-      fs.writeFileSync(sessionFile, JSON.stringify(data, null, 2));
-    } catch {
-      // Speichern fehlgeschlagen - nicht kritisch
-    }
-  }
+  private readonly defaultTimeout = 600000; // 10 Minuten
+  /** Auf Windows: claude.cmd verwenden */
+  private readonly defaultCommand = process.platform === "win32" ? "claude.cmd" : "claude";
 
   /**
    * Generiert eine neue UUID für Sessions.
@@ -118,95 +111,73 @@ export class ClaudeWrapper {
     return crypto.randomUUID();
   }
 
-  /**
-   * Löscht eine Session für ein Working Directory.
-   */
-  clearSession(workingDirectory: string): boolean {
-    try {
-      const hash = this.getDirectoryHash(workingDirectory);
-      const sessionFile = path.join(this.sessionDir, `session-${hash}.json`);
-
-      if (fs.existsSync(sessionFile)) {
-        fs.unlinkSync(sessionFile);
-        return true;
-      }
-    } catch {
-      // Löschen fehlgeschlagen
-    }
-    return false;
-  }
-
-  /**
-   * Listet alle aktiven Sessions.
-   */
-  listSessions(): SessionData[] {
-    try {
-      const files = fs.readdirSync(this.sessionDir).filter(f => f.startsWith('session-'));
-      return files.map(f => {
-        const data = JSON.parse(fs.readFileSync(path.join(this.sessionDir, f), 'utf-8'));
-        return data as SessionData;
-      });
-    } catch {
-      return [];
-    }
-  }
-
-  /**
-   * Führt eine Aufgabe mit Claude Code CLI aus.
-   *
-   * @param instruction - Die Aufgabenbeschreibung für Claude
-   * @param options - Optionale Konfiguration
-   * @returns Ergebnis der Ausführung
-   */
-  async execute(
+  protected async runOnce(
     instruction: string,
-    options: ClaudeWrapperOptions = {}
+    options: ClaudeWrapperOptions,
+    cwd: string,
+    settings: WorkerSettings
   ): Promise<ClaudeExecutionResult> {
-    const cwd = options.workingDirectory ?? process.cwd();
     const continueSession = options.continueSession ?? true;
+    const sessionName = options.sessionName ?? DEFAULT_SESSION_NAME;
 
     // Session-Management
     let sessionId = options.sessionId;
-    let existingSession = this.loadSession(cwd);
-    let taskCount = 1;
+    const existingSession = await this.loadSession(cwd, sessionName);
+
+    // Fork: Quell-Session mit --fork-session fortsetzen, die CLI vergibt eine neue ID
+    const forkSource = options.forkFrom ? await this.loadSession(cwd, options.forkFrom) : null;
+    if (options.forkFrom) {
+      const problem = !options.sessionName || options.sessionName === options.forkFrom
+        ? 'Fork braucht einen eigenen Ziel-Namen (sessionName)'
+        : !forkSource?.sessionId
+          ? `Quell-Session "${options.forkFrom}" nicht gefunden`
+          : existingSession && !options.overwriteSession
+            ? `Ziel-Session "${sessionName}" existiert bereits (overwriteSession: true zum Ersetzen)`
+            : null;
+      if (problem) {
+        return {
+          success: false,
+          output: `[SESSION ERROR] ${problem}`,
+          exitCode: null,
+          duration: 0,
+          sessionName,
+          failure: createFailure('invalid_session', problem),
+        };
+      }
+    }
 
-    if (!sessionId && continueSession && existingSession) {
+    if (forkSource?.sessionId) {
+      sessionId = forkSource.sessionId;
+    } else if (!sessionId && continueSession && existingSession?.sessionId) {
       // Existierende Session fortsetzen
       sessionId = existingSession.sessionId;
-      taskCount = existingSession.taskCount + 1;
     } else if (!sessionId) {
       // Neue Session erstellen
       sessionId = this.generateSessionId();
-      taskCount = 1;
-    }
-
-    // LOGGING: Schreibt jeden Auftrag in eine feste Datei
-    const logDir = process.env.USERPROFILE || process.env.HOME || '.';
-    const logFile = path.join(logDir, '.claude', 'orchestrator.log');
-    const timestamp = new Date().toISOString();
-    const sessionInfo = existingSession ? `[CONTINUE #${taskCount}]` : '[NEW SESSION]';
-    try {
-      fs.appendFileSync(logFile, `[${timestamp}] ${sessionInfo} GEMINI -> CLAUDE: ${instruction}\nSession: ${sessionId}\n\n`);
-    } catch {
-      // Logging-Fehler nicht propagieren - non-critical
     }
 
     const startTime = Date.now();
-    const timeout = options.timeout ?? this.defaultTimeout;
-
-    return new Promise((resolve) => {
-      // Claude CLI Argumente
-      // -p: Print mode - non-interactive, Ausgabe direkt auf stdout
-      // --dangerously-skip-permissions: Keine Permission-Prompts
-      const args = [
-        "-p", instruction,
-        "--dangerously-skip-permissions",
-      ];
+    const timeout = options.timeout ?? settings.timeout ?? this.defaultTimeout;
+
+    const resumed = !forkSource && existingSession?.sessionId !== undefined && continueSession;
+
+    const result = await new Promise<ClaudeExecutionResult>((resolve) => {
+      const shell = process.platform === "win32";
+      const { args, stdin } = claudeInvocation(instruction, {
+        model: options.model,
+        systemPrompt: options.systemPrompt,
+        extraArgs: settings.extraArgs,
+        permissionProfile: options.permissionProfile,
+        shell,
+      });
 
       // Session-Handling:
       // - Neue Session: --session-id <uuid>
       // - Fortsetzung: --resume <uuid> (OHNE --session-id)
-      if (existingSession && continueSession) {
+      // - Fork: --resume <uuid der Quelle> --fork-session
+      if (forkSource) {
+        args.push("--resume", sessionId, "--fork-session");
+      } else if (resumed) {
         // Existierende Session fortsetzen
         args.push("--resume", sessionId);
       } else {
@@ -214,12 +185,12 @@ export class ClaudeWrapper {
         args.push("--session-id", sessionId);
       }
 
-      // Auf Windows: claude.cmd verwenden
-      const command = process.platform === "win32" ? "claude.cmd" : "claude";
+      const command = settings.command ?? this.defaultCommand;
 
       // Environment: Host-Env weitergeben (wichtig für Auth-Tokens in HOME/.claude)
       const env: NodeJS.ProcessEnv = {
         ...process.env,
+        ...settings.env,
         ...options.additionalEnv,
         // Sicherstellen, dass HOME/USERPROFILE gesetzt sind
         HOME: process.env.HOME ?? process.env.USERPROFILE,
@@ -232,7 +203,7 @@ export class ClaudeWrapper {
         child = spawn(command, args, {
           cwd,
           env,
-          shell: process.platform === "win32",
+          shell,
           stdio: ["pipe", "pipe", "pipe"],
           // Windows-spezifisch: Verberge Konsolenfenster
           windowsHide: true,
@@ -245,84 +216,185 @@ export class ClaudeWrapper {
           output: `[SPAWN ERROR] Claude CLI konnte nicht gestartet werden: ${errorMsg}\n\nPrüfe:\n1. Ist Claude CLI installiert? → npm install -g @anthropic-ai/claude-code\n2. Bist du eingeloggt? → claude login`,
           exitCode: null,
           duration: Date.now() - startTime,
+          failure: classifyFailure({
+            exitCode: null,
+            output: errorMsg,
+            spawnErrorCode: (spawnError as NodeJS.ErrnoException).code ?? 'SPAWN_FAILED',
+          }),
         });
         return;
       }
 
-      let stdout = "";
-      let stderr = "";
+      // Beendet sich Claude vor dem Lesen, meldet stdin EPIPE - das Ergebnis kommt über close/error
+      child.stdin?.on("error", () => { /* ignore */ });
+      child.stdin?.end(stdin);
 
-      child.stdout?.on("data", (chunk: Buffer) => {
-        stdout += chunk.toString();
+      let stderr = "";
+      const onProgress = options.onProgress;
+      const parser = new ClaudeStreamParser(onProgress ? {
+        onToolUse: (toolUse) => {
+          const isEdit = isFileWritingTool(toolUse.name) && toolUse.filePath !== undefined;
+          onProgress({
+            kind: isEdit ? 'file_edit' : 'tool_use',
+            message: describeToolUse(toolUse),
+            filePath: isEdit ? toolUse.filePath : undefined,
+          });
+        },
+        onText: (text) => onProgress({ kind: 'text', message: text }),
+      } : {});
+
+      // Als UTF-8-Strom dekodieren: Umlaute können über Chunk-Grenzen geteilt sein
+      child.stdout?.setEncoding("utf8");
+      child.stderr?.setEncoding("utf8");
+      child.stdout?.on("data", (chunk: string) => {
+        parser.push(chunk);
       });
 
-      child.stderr?.on("data", (chunk: Buffer) => {
-        stderr += chunk.toString();
+      child.stderr?.on("data", (chunk: string) => {
+        stderr += chunk;
       });
 
       // Timeout-Handler
+      let timedOut = false;
       const timeoutId = setTimeout(() => {
-        child.kill("SIGTERM");
-        // Grace period, dann SIGKILL
-        setTimeout(() => {
-          if (!child.killed) {
-            child.kill("SIGKILL");
-          }
-        }, 5000);
+        timedOut = true;
+        terminateProcess(child, KILL_GRACE_MS);
       }, timeout);
 
-      child.on("close", (code) => {
+      // Abbruch von außen (z.B. cancel_task)
+      let cancelled = false;
+      const onAbort = () => {
+        cancelled = true;
+        // Ohne SIGKILL hielte eine hängende CLI ihren Platz in der Queue für immer
+        terminateProcess(child, KILL_GRACE_MS);
+      };
+      if (options.signal?.aborted) {
+        onAbort();
+      } else {
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+      }
+
+      child.on("close", (code, signal) => {
         clearTimeout(timeoutId);
+        options.signal?.removeEventListener("abort", onAbort);
         const duration = Date.now() - startTime;
+        const summary = parser.finish();
 
-        // Erfolg wenn Exit-Code 0 ODER wenn stdout Output hat
-        const hasOutput = stdout.trim().length > 0;
-        const isSuccess = code === 0 || hasOutput;
+        if (cancelled) {
+          resolve({
+            success: false,
+            output: "[CANCELLED] Task wurde abgebrochen",
+            exitCode: code,
+            duration,
+            sessionId: summary.sessionId ?? sessionId,
+            toolUses: summary.toolUses,
+            filesTouched: summary.filesTouched,
+            failure: createFailure('cancelled'),
+          });
+          return;
+        }
 
-        if (isSuccess) {
-          // Session speichern bei Erfolg
-          this.saveSession(cwd, sessionId!, taskCount);
+        // Text-Ausgabe: finale Antwort aus dem Stream, sonst Rohausgabe
+        // (z.B. wenn die CLI vor dem ersten Event abbricht)
+        const textOutput = summary.finalMessage?.trim()
+          || summary.unparsedLines.join("\n").trim();
+        const reportedSessionId = summary.sessionId ?? sessionId;
+
+        // Erfolg nur mit Exit-Code 0 und (falls vorhanden) fehlerfreiem result-Event.
+        // Ausgabe allein reicht nicht - auch Fehlermeldungen landen auf stdout.
+        // Limit-Meldungen kommen teils mit Exit-Code 0 als normale Antwort.
+        const limitReached = detectUsageLimit(textOutput, { strict: true }) !== null;
+        const isSuccess = !timedOut && code === 0 && !(summary.hasResult && summary.isError) && !limitReached;
+
+        const details = {
+          exitCode: code,
+          duration,
+          sessionId: reportedSessionId,
+          finalMessage: summary.finalMessage,
+          toolUses: summary.toolUses,
+          filesTouched: summary.filesTouched,
+          numTurns: summary.numTurns,
+          usage: summary.usage,
+          costUsd: summary.costUsd,
+          model: summary.model,
+        };
 
+        if (isSuccess) {
           resolve({
             success: true,
-            output: stdout.trim() || "[Claude lieferte keine Ausgabe]",
-            exitCode: code,
-            duration,
-            sessionId,
+            output: textOutput || "[Claude lieferte keine Ausgabe]",
+            ...details,
           });
         } else {
-          // Fehler: Kombiniere stderr und stdout für Diagnose
+          // Fehler: Kombiniere stderr und Ausgabe für Diagnose
           const errorOutput =
-            stderr.trim() || stdout.trim() || `Exit-Code: ${code}`;
+            stderr.trim() || textOutput || `Exit-Code: ${code}`;
+          const failure = classifyFailure({
+            exitCode: code,
+            output: `${stderr}\n${textOutput}`,
+            signal: timedOut ? null : signal,
+            timedOut,
+            resultSubtype: summary.resultSubtype,
+          });
+          const prefix = timedOut
+            ? `[TIMEOUT] Claude antwortete nicht innerhalb von ${timeout / 1000}s`
+            : "[CLAUDE CLI ERROR]";
           resolve({
             success: false,
-            output: `[CLAUDE CLI ERROR]\n${errorOutput}`,
-            exitCode: code,
-            duration,
-            sessionId,
+            output: `${prefix} (${failure.kind})\n${errorOutput}`,
+            ...details,
+            errorSubtype: summary.resultSubtype,
+            failure,
           });
         }
       });
 
       child.on("error", (error) => {
         clearTimeout(timeoutId);
+        options.signal?.removeEventListener("abort", onAbort);
         resolve({
           success: false,
           output: `[PROCESS ERROR] ${error.message}`,
           exitCode: null,
           duration: Date.now() - startTime,
           sessionId,
+          failure: classifyFailure({
+            exitCode: null,
+            output: error.message,
+            spawnErrorCode: (error as NodeJS.ErrnoException).code ?? 'PROCESS_ERROR',
+          }),
         });
       });
     });
+
+    // Session speichern bei Erfolg (mit der von der CLI gemeldeten ID)
+    if (result.success && options.recordSession !== false) {
+      await this.saveSession(cwd, sessionName, {
+        sessionId: result.sessionId,
+        continued: resumed,
+        tags: options.sessionTags,
+        forkedFrom: options.forkFrom,
+        model: result.model ?? options.model,
+      }, options.taskId);
+    }
+    return { ...result, sessionName };
   }
 
   /**
    * Prüft, ob Claude CLI verfügbar ist.
    */
   async isAvailable(): Promise<boolean> {
-    const result = await this.execute("echo test", { timeout: 10000 });
-    return result.success;
+    // Nur prüfen, ob die CLI startet - ohne Queue, Budget, Audit und Session
+    return new Promise((resolve) => {
+      const command = bridgeConfig.workerSettings(this.name).command ?? this.defaultCommand;
+      const child = spawn(command, ["--version"], {
+        shell: true,
+        stdio: ["ignore", "pipe", "pipe"],
+        timeout: 10000,
+      });
+      child.on("close", (code) => resolve(code === 0));
+      child.on("error", () => resolve(false));
+    });
   }
 }
 
@@ -0,0 +1,370 @@
+/**
+ * CliWorker - Gemeinsame Ausführungs-Pipeline für CLI-Agenten
+ *
+ * Jeder Task durchläuft unabhängig vom Worker dieselben Schritte:
+ * Limit-Sperre (WorkerAvailability) → Budget → Verzeichnis-Warteschlange →
+ * Audit-Log → Änderungs-Snapshot → Ausführung mit Retries → Transcript,
+ * Verbrauch und Audit-Abschluss → Redaction des Ergebnisses.
+ *
+ * Unterklassen implementieren nur runOnce, also einen einzelnen CLI-Aufruf.
+ */
+
+import type { ChildProcess } from 'child_process';
+import * as crypto from 'crypto';
+import type {
+  AgentExecuteOptions,
+  AgentExecutionResult,
+  AgentWorker,
+  WorkerCapabilities,
+} from './AgentWorker.js';
+import { executionQueue, QueueAbortedError } from './ExecutionQueue.js';
+import { budgetGuard, BudgetExceededError, type BudgetReservation } from './BudgetGuard.js';
+import { workerAvailability } from './WorkerAvailability.js';
+import {
+  DEFAULT_SESSION_NAME,
+  sessionStore,
+  type RecordTaskInput,
+  type SessionListFilter,
+  type SessionRecord,
+} from './SessionStore.js';
+import { transcriptStatus, transcriptStore } from './TranscriptStore.js';
+import { auditLogger, completionEvent } from './AuditLogger.js';
+import { usageTracker } from './UsageTracker.js';
+import { redactor } from './Redactor.js';
+import { changeTracker } from './ChangeTracker.js';
+import { capPermissionProfile, permissionPolicy } from './PermissionProfiles.js';
+import { bridgeConfig, BridgeConfigError, type WorkerSettings } from './BridgeConfig.js';
+import { roleProfiles, RoleProfileError } from './RoleProfiles.js';
+import {
+  DEFAULT_RETRY_POLICY,
+  createFailure,
+  retryDelay,
+  shouldRetry,
+  sleep,
+  type RetryPolicy,
+} from './WorkerErrors.js';
+
+/**
+ * Stellt den System-Prompt der Instruction voran - für CLIs ohne eigenen
+ * Schalter für System-Prompts.
+ */
+export function withPreamble(instruction: string, systemPrompt: string | undefined): string {
+  return systemPrompt ? `${systemPrompt}\n\n---\n\nAUFGABE:\n${instruction}` : instruction;
+}
+
+/**
+ * Beendet einen CLI-Prozess: SIGTERM, nach der Schonfrist SIGKILL, falls er
+ * noch läuft. (child.killed taugt dafür nicht - es ist schon nach dem
+ * Senden von SIGTERM true.)
+ */
+export function terminateProcess(child: ChildProcess, graceMs: number): void {
+  child.kill('SIGTERM');
+  setTimeout(() => {
+    if (child.exitCode === null && child.signalCode !== 'SIGKILL') {
+      child.kill('SIGKILL');
+    }
+  }, graceMs).unref();
+}
+
+export abstract class CliWorker<
+  O extends AgentExecuteOptions = AgentExecuteOptions,
+  R extends AgentExecutionResult = AgentExecutionResult,
+> implements AgentWorker {
+  abstract readonly name: string;
+  abstract readonly description: string;
+  abstract readonly capabilities: WorkerCapabilities;
+  readonly modelAliases: Readonly<Record<string, string>> = {};
+
+  /** Name in Meldungen, z.B. "Claude" */
+  protected get displayName(): string {
+    return this.name.charAt(0).toUpperCase() + this.name.slice(1);
+  }
+
+  /**
+   * Führt genau einen CLI-Aufruf aus, sobald die Queue das Verzeichnis freigegeben hat.
+   *
+   * @param settings - Einstellungen aus der BridgeConfig für dieses Verzeichnis
+   */
+  protected abstract runOnce(instruction: string, options: O, cwd: string, settings: WorkerSettings): Promise<R>;
+
+  abstract isAvailable(): Promise<boolean>;
+
+  /**
+   * Führt eine Aufgabe aus.
+   *
+   * Tasks im selben Arbeitsverzeichnis laufen nacheinander (siehe ExecutionQueue).
+   * Ist der Worker wegen Nutzungslimit gesperrt, entscheidet onUsageLimit (siehe WorkerAvailability).
+   *
+   * @throws BudgetExceededError wenn ein Budget-Limit erreicht ist
+   * @throws BridgeConfigError wenn die Projektkonfiguration ungültig ist
+   * @throws RoleProfileError wenn die Rolle unbekannt ist
+   */
+  async execute(instruction: string, options: O = {} as O): Promise<R> {
+    const taskId = options.taskId ?? crypto.randomUUID();
+    const requestedAt = Date.now();
+
+    return workerAvailability.run(this.name, options, () => this.executeQueued(instruction, { ...options, taskId }, taskId), (failure) => {
+      auditLogger.log({
+        taskId,
+        correlationId: options.correlationId,
+        worker: this.name,
+        workingDirectory: options.workingDirectory ?? process.cwd(),
+        sessionName: this.sessionNameFor(options),
+        ...completionEvent(false, failure.kind),
+        failureKind: failure.kind,
+        message: failure.message,
+      });
+      return {
+        success: false,
+        output: failure.kind === 'cancelled'
+          ? '[CANCELLED] Task wurde abgebrochen, bevor er gestartet wurde'
+          : `[USAGE LIMIT] ${this.displayName} ist bis ${failure.resetAt} nicht verfügbar - Task nicht gestartet`,
+        exitCode: null,
+        duration: Date.now() - requestedAt,
+        failure,
+        taskId,
+      } as R;
+    });
+  }
+
+  /**
+   * Löscht eine benannte Session für ein Working Directory.
+   */
+  async clearSession(workingDirectory: string, name: string = DEFAULT_SESSION_NAME): Promise<boolean> {
+    const cleared = await sessionStore.clear(this.name, workingDirectory, name);
+    if (cleared) {
+      auditLogger.log({ event: 'session_cleared', worker: this.name, workingDirectory, sessionName: name });
+    }
+    return cleared;
+  }
+
+  /**
+   * Listet alle aktiven (nicht abgelaufenen) Sessions, optional gefiltert.
+   */
+  listSessions(filter: Omit<SessionListFilter, 'worker'> = {}): Promise<SessionRecord[]> {
+    return sessionStore.list({ ...filter, worker: this.name });
+  }
+
+  /**
+   * Session-Name für einen Task - Worker ohne benannte Sessions nutzen immer "default".
+   */
+  protected sessionNameFor(options: O): string {
+    return this.capabilities.namedSessions ? options.sessionName ?? DEFAULT_SESSION_NAME : DEFAULT_SESSION_NAME;
+  }
+
+  /**
+   * Löst Modell bzw. Alias auf: Task-Option, sonst Default aus der BridgeConfig.
+   * Aliase aus der Konfiguration gehen den eingebauten vor; unbekannte Namen
+   * werden unverändert an die CLI übergeben.
+   */
+  protected resolveModel(requested: string | undefined, settings: WorkerSettings): string | undefined {
+    const model = requested ?? settings.model;
+    if (!model) return undefined;
+    return settings.modelAliases?.[model] ?? this.modelAliases[model] ?? model;
+  }
+
+  /**
+   * Lädt die Session für ein Working Directory (null = neue Session).
+   */
+  protected async loadSession(workingDirectory: string, name: string = DEFAULT_SESSION_NAME): Promise<SessionRecord | null> {
+    try {
+      return await sessionStore.load(this.name, workingDirectory, name);
+    } catch (error) {
+      console.error(`[bridge] ${this.displayName}-Session konnte nicht geladen werden:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Speichert die Session nach einem erfolgreichen Task.
+   * Fehler werden gemeldet, lassen den Task aber nicht scheitern.
+   */
+  protected async saveSession(workingDirectory: string, name: string, input: RecordTaskInput, taskId?: string): Promise<void> {
+    try {
+      const record = await sessionStore.recordTask(this.name, workingDirectory, name, input);
+      if (record.taskCount === 1) {
+        auditLogger.log({
+          event: 'session_created',
+          taskId,
+          worker: this.name,
+          workingDirectory,
+          sessionName: name,
+          sessionId: record.sessionId,
+          message: input.forkedFrom ? `Fork von "${input.forkedFrom}"` : undefined,
+        });
+      }
+    } catch (error) {
+      console.error(`[bridge] ${this.displayName}-Session konnte nicht gespeichert werden:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Reiht den Task in die Verzeichnis-Warteschlange ein und führt ihn aus.
+   */
+  private async executeQueued(instruction: string, options: O, taskId: string): Promise<R> {
+    const cwd = options.workingDirectory ?? process.cwd();
+    const enqueuedAt = Date.now();
+    const requestedProfile = options.permissionProfile ?? permissionPolicy.resolve(undefined, cwd);
+    const sessionName = this.sessionNameFor(options);
+    const auditContext = {
+      taskId,
+      correlationId: options.correlationId,
+      worker: this.name,
+      workingDirectory: cwd,
+      sessionName,
+    };
+
+    let reservation: BudgetReservation | undefined;
+    try {
+      // Früh ablehnen, statt erst nach der Wartezeit in der Queue
+      const settings = bridgeConfig.workerSettings(this.name, cwd);
+      const model = this.resolveModel(options.model, settings);
+      const { role, systemPrompt, maxPermissionProfile } = roleProfiles.compose(options.role, cwd, options.systemPrompt);
+      const permissionProfile = capPermissionProfile(requestedProfile, maxPermissionProfile);
+      reservation = budgetGuard.reserve(auditContext);
+      const { recheck } = reservation;
+      return await executionQueue.run(cwd, async (ticket) => {
+        // Erneut prüfen: während der Wartezeit können andere Tasks das Budget verbraucht haben
+        recheck();
+        auditLogger.log({ ...auditContext, event: 'task_started', instruction, permissionProfile, model, role });
+
+        const before = options.trackChanges === false ? null : await changeTracker.snapshot(cwd);
+        const rawResult = await this.executeWithRetry(instruction, {
+          ...options,
+          model,
+          role,
+          systemPrompt,
+          permissionProfile,
+          taskId,
+          onProgress: redactor.redactProgress(options.onProgress),
+        }, cwd, settings);
+        const result = { ...rawResult, model: rawResult.model ?? model, role };
+        const after = before ? await changeTracker.snapshot(cwd) : null;
+        const changes = before && after
+          ? await changeTracker.compare(before, after, options.includePatch)
+          : null;
+
+        transcriptStore.append({
+          worker: this.name,
+          workingDirectory: cwd,
+          sessionName,
+          sessionId: result.sessionId,
+          instruction,
+          status: transcriptStatus(result.success, result.failure?.kind),
+          failureKind: result.failure?.kind,
+          durationMs: result.duration,
+          output: result.output,
+          filesChanged: changes?.files.map((file) => file.path),
+        });
+
+        usageTracker.record({
+          taskId,
+          worker: this.name,
+          workingDirectory: cwd,
+          sessionName,
+          sessionId: result.sessionId,
+          model: result.model,
+          success: result.success,
+          durationMs: result.duration,
+          numTurns: result.numTurns,
+          inputTokens: result.usage?.inputTokens ?? 0,
+          outputTokens: result.usage?.outputTokens ?? 0,
+          cacheReadTokens: result.usage?.cacheReadInputTokens ?? 0,
+          cacheCreationTokens: result.usage?.cacheCreationInputTokens ?? 0,
+          costUsd: result.costUsd,
+        });
+
+        auditLogger.log({
+          ...auditContext,
+          ...completionEvent(result.success, result.failure?.kind),
+          sessionId: result.sessionId,
+          model: result.model,
+          exitCode: result.exitCode,
+          durationMs: result.duration,
+          attempts: result.attempts,
+          failureKind: result.failure?.kind,
+          message: result.failure?.message,
+        });
+
+        // Secrets erst nach Transcript und Audit-Log entfernen - dort gelten eigene Einstellungen
+        return redactor.redactResult({
+          ...result,
+          changes: changes ?? undefined,
+          permissionProfile,
+          queuePosition: ticket.position,
+          queueWaitMs: ticket.waitMs,
+          taskId,
+        });
+      }, {
+        signal: options.signal,
+        // Lesende Tasks teilen sich das Verzeichnis, nur nicht dieselbe Session
+        shareKey: permissionProfile === 'read-only' ? `${this.name}:${sessionName}` : undefined,
+        onQueued: (position, sameDirectoryAhead) => options.onProgress?.({
+          kind: 'queued',
+          message: `Warteschlange Position ${position} (${sameDirectoryAhead} Task(s) im selben Verzeichnis vorher)`,
+        }),
+      });
+    } catch (error) {
+      if (error instanceof BudgetExceededError || error instanceof BridgeConfigError || error instanceof RoleProfileError) {
+        auditLogger.log({ ...auditContext, event: 'task_rejected', instruction, message: error.message });
+        throw error;
+      }
+      if (!(error instanceof QueueAbortedError)) throw error;
+
+      // Abgebrochen, bevor der Task starten konnte
+      auditLogger.log({ ...auditContext, ...completionEvent(false, 'cancelled'), message: 'Abgebrochen in der Warteschlange' });
+      return {
+        success: false,
+        output: '[CANCELLED] Task wurde abgebrochen, bevor er gestartet wurde',
+        exitCode: null,
+        duration: Date.now() - enqueuedAt,
+        failure: createFailure('cancelled'),
+        taskId,
+      } as R;
+    } finally {
+      // Nach dem Verbuchen zählt der Task über den UsageTracker
+      reservation?.release();
+    }
+  }
+
+  /**
+   * Wiederholt transiente Fehlschläge laut Retry-Policy mit exponentiellem Backoff.
+   * Bei ungültiger Session wird einmalig mit einer frischen Session neu gestartet
+   * (nicht bei einem Fork - dort wäre der Kontext der Quell-Session verloren).
+   */
+  private async executeWithRetry(instruction: string, options: O, cwd: string, settings: WorkerSettings): Promise<R> {
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+    let currentOptions = options;
+    let freshSessionTried = false;
+    let attempts = 0;
+    let attempt = 1;
+
+    for (;;) {
+      attempts++;
+      const result = await this.runOnce(instruction, currentOptions, cwd, settings);
+      if (result.success || !result.failure || options.signal?.aborted) {
+        return { ...result, attempts };
+      }
+
+      if (result.failure.kind === 'invalid_session' && !freshSessionTried && !options.forkFrom) {
+        freshSessionTried = true;
+        await this.clearSession(cwd, this.sessionNameFor(options));
+        currentOptions = { ...currentOptions, sessionId: undefined, continueSession: false };
+        options.onProgress?.({ kind: 'retry', message: 'Session ungültig - starte mit frischer Session neu' });
+        continue;
+      }
+
+      if (!shouldRetry(policy, result.failure, attempt)) {
+        return { ...result, attempts };
+      }
+
+      const delay = retryDelay(policy, attempt);
+      options.onProgress?.({
+        kind: 'retry',
+        message: `${result.failure.message} - Versuch ${attempt + 1}/${policy.maxAttempts} in ${Math.round(delay / 1000)}s`,
+      });
+      await sleep(delay, options.signal);
+      attempt++;
+    }
+  }
+}
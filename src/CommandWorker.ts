@@ -0,0 +1,281 @@
+/**
+ * CommandWorker - Bindet weitere lokale CLI-Agenten per Konfiguration ein
+ *
+ * Statt eines eigenen Wrappers beschreibt eine Definition (commandWorkers in
+ * der BridgeConfig), wie der Agent aufgerufen und seine Ausgabe gelesen wird, z.B.:
+ *
+ *   {
+ *     "name": "codex",
+ *     "command": "codex",
+ *     "args": ["exec", "{instruction}"],
+ *     "modelArgs": ["--model", "{model}"],
+ *     "systemPromptArgs": ["--system", "{systemPrompt}"],
+ *     "permissionArgs": { "read-only": ["--sandbox", "read-only"], "full": ["--full-auto"] }
+ *   }
+ *
+ * PLATZHALTER in args/resumeArgs/modelArgs/systemPromptArgs:
+ *   {instruction}, {workingDirectory}, {sessionId}, {model}, {systemPrompt}
+ *
+ * MODELL: modelArgs werden nur angehängt, wenn ein Modell gewählt ist. Ohne
+ * modelArgs wird ein Task mit Modellwahl abgelehnt.
+ *
+ * SYSTEM-PROMPT (Rolle + Projekt-Preamble): über systemPromptArgs, sonst der
+ * Instruction vorangestellt.
+ *
+ * AUSGABE (output.format):
+ * - text:  stdout ohne ANSI-Codes
+ * - json:  stdout ist ein JSON-Objekt, Antwort in output.field
+ * - jsonl: ein JSON-Objekt pro Zeile, Antwort aus der letzten Zeile mit output.field
+ *
+ * RECHTE: Der Worker läuft mit dem strengsten konfigurierten Profil, das
+ * höchstens so viel erlaubt wie angefragt. Gibt es keins, wird abgelehnt.
+ */
+
+import { spawn } from 'child_process';
+import type { AgentExecutionResult, AgentExecuteOptions, WorkerCapabilities } from './AgentWorker.js';
+import { bridgeConfig, type CommandWorkerDefinition, type WorkerSettings } from './BridgeConfig.js';
+import { CliWorker, terminateProcess, withPreamble } from './CliWorker.js';
+import { DEFAULT_SESSION_NAME } from './SessionStore.js';
+import { detectUsageLimit } from './UsageLimits.js';
+import { classifyFailure, createFailure, type WorkerFailure } from './WorkerErrors.js';
+import { PERMISSION_PROFILES, type PermissionProfileName } from './PermissionProfiles.js';
+
+interface ParsedOutput {
+  text: string;
+  sessionId?: string;
+}
+
+export class CommandWorker extends CliWorker {
+  readonly name: string;
+  readonly description: string;
+  readonly capabilities: WorkerCapabilities;
+
+  private readonly defaultTimeout = 600000;
+
+  constructor(private readonly definition: CommandWorkerDefinition) {
+    super();
+    this.name = definition.name;
+    this.description = definition.description || `${definition.command} (konfigurierter CLI-Agent)`;
+    this.capabilities = {
+      sessions: definition.resumeArgs !== undefined,
+      namedSessions: false,
+      toolEvents: false,
+      usageReporting: false,
+      permissionProfiles: Object.keys(definition.permissionArgs ?? { full: [] }) as PermissionProfileName[],
+      modelSelection: definition.modelArgs !== undefined,
+    };
+  }
+
+  protected async runOnce(
+    instruction: string,
+    options: AgentExecuteOptions,
+    cwd: string,
+    settings: WorkerSettings
+  ): Promise<AgentExecutionResult> {
+    const requested = options.permissionProfile ?? 'full';
+    const profile = this.effectiveProfile(requested);
+    if (!profile) {
+      return {
+        success: false,
+        output: `[PERMISSION ERROR] ${this.name} unterstützt kein Rechte-Profil bis "${requested}" (konfiguriert: ${this.capabilities.permissionProfiles.join(', ')})`,
+        exitCode: null,
+        duration: 0,
+        failure: createFailure('execution_error', `Rechte-Profil "${requested}" nicht durchsetzbar`),
+      };
+    }
+
+    if (options.model && !this.capabilities.modelSelection) {
+      return {
+        success: false,
+        output: `[MODEL ERROR] ${this.name} unterstützt keine Modellwahl (modelArgs nicht konfiguriert)`,
+        exitCode: null,
+        duration: 0,
+        failure: createFailure('execution_error', `Modell "${options.model}" nicht wählbar`),
+      };
+    }
+
+    // Session nur fortsetzen, wenn resumeArgs konfiguriert sind (und eine nötige ID bekannt ist)
+    const existingSession = this.capabilities.sessions && options.continueSession !== false
+      ? await this.loadSession(cwd)
+      : null;
+    const needsSessionId = this.definition.resumeArgs?.some((arg) => arg.includes('{sessionId}')) ?? false;
+    const resumed = existingSession !== null && (!needsSessionId || existingSession.sessionId !== undefined);
+
+    const systemPromptViaArgs = options.systemPrompt !== undefined && this.definition.systemPromptArgs !== undefined;
+    const fullInstruction = systemPromptViaArgs ? instruction : withPreamble(instruction, options.systemPrompt);
+    const values: Record<string, string> = {
+      instruction: fullInstruction,
+      workingDirectory: cwd,
+      sessionId: existingSession?.sessionId ?? '',
+      model: options.model ?? '',
+      systemPrompt: options.systemPrompt ?? '',
+    };
+    const args = [
+      ...this.definition.args,
+      ...(resumed ? this.definition.resumeArgs ?? [] : []),
+      ...(options.model ? this.definition.modelArgs ?? [] : []),
+      ...(systemPromptViaArgs ? this.definition.systemPromptArgs ?? [] : []),
+      ...(settings.extraArgs ?? []),
+      ...(this.definition.permissionArgs?.[profile] ?? []),
+    ].map((arg) => arg.replace(/\{(instruction|workingDirectory|sessionId|model|systemPrompt)\}/g, (_, key: string) => values[key]));
+
+    const startTime = Date.now();
+    const timeout = options.timeout ?? settings.timeout ?? this.definition.timeout ?? this.defaultTimeout;
+
+    const result = await new Promise<AgentExecutionResult>((resolve) => {
+      const child = spawn(settings.command ?? this.definition.command, args, {
+        cwd,
+        env: { ...process.env, ...this.definition.env, ...settings.env },
+        shell: process.platform === 'win32',
+        stdio: ['pipe', 'pipe', 'pipe'],
+        windowsHide: true,
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let resolved = false;
+
+      const finish = (success: boolean, output: string, exitCode: number | null, failure?: WorkerFailure, sessionId?: string) => {
+        if (resolved) return;
+        resolved = true;
+        resolve({ success, output, exitCode, duration: Date.now() - startTime, failure, sessionId });
+      };
+
+      if (this.definition.instructionVia === 'stdin') {
+        child.stdin?.end(fullInstruction);
+      } else {
+        child.stdin?.end();
+      }
+
+      // Als UTF-8-Strom dekodieren: Umlaute können über Chunk-Grenzen geteilt sein
+      child.stdout?.setEncoding('utf8');
+      child.stderr?.setEncoding('utf8');
+      child.stdout?.on('data', (text: string) => {
+        stdout += text;
+        if (this.definition.output.format === 'text') {
+          const cleanText = stripAnsi(text).trim();
+          if (cleanText) options.onProgress?.({ kind: 'text', message: cleanText });
+        }
+      });
+
+      child.stderr?.on('data', (chunk: string) => {
+        stderr += chunk;
+      });
+
+      const timeoutId = setTimeout(() => {
+        terminateProcess(child, 3000);
+        finish(false, `[TIMEOUT] ${this.name} antwortete nicht innerhalb von ${timeout / 1000}s\n\nPartielle Ausgabe:\n${stdout || stderr || '(keine)'}`, null, createFailure('timeout'));
+      }, timeout);
+
+      // Abbruch von außen (z.B. cancel_task)
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        terminateProcess(child, 3000);
+        finish(false, `[CANCELLED] Task wurde abgebrochen\n\nPartielle Ausgabe:\n${stdout || stderr || '(keine)'}`, null, createFailure('cancelled'));
+      };
+      if (options.signal?.aborted) {
+        onAbort();
+      } else {
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
+
+        const parsed = this.parseOutput(stdout);
+        if (code === 0 && parsed.text && !detectUsageLimit(parsed.text, { strict: true })) {
+          finish(true, parsed.text, code, undefined, parsed.sessionId);
+        } else {
+          const failure = classifyFailure({ exitCode: code, output: `${stderr}\n${stdout}`, signal });
+          const errorOutput = stripAnsi(stderr).trim() || parsed.text || `Exit-Code: ${code}`;
+          finish(false, `[${this.name.toUpperCase()} ERROR] (${failure.kind})\n${errorOutput}`, code, failure);
+        }
+      });
+
+      child.on('error', (err) => {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
+        finish(false, `[SPAWN ERROR] ${err.message}`, null, classifyFailure({
+          exitCode: null,
+          output: err.message,
+          spawnErrorCode: (err as NodeJS.ErrnoException).code ?? 'SPAWN_FAILED',
+        }));
+      });
+    });
+
+    if (result.success && this.capabilities.sessions && options.recordSession !== false) {
+      await this.saveSession(cwd, DEFAULT_SESSION_NAME, {
+        sessionId: result.sessionId ?? existingSession?.sessionId,
+        continued: resumed,
+        model: options.model,
+      }, options.taskId);
+    }
+    return { ...result, sessionName: DEFAULT_SESSION_NAME };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const command = bridgeConfig.workerSettings(this.name).command ?? this.definition.command;
+      const child = spawn(command, ['--version'], {
+        shell: process.platform === 'win32',
+        stdio: ['ignore', 'ignore', 'ignore'],
+        windowsHide: true,
+      });
+      child.on('close', (code) => resolve(code === 0));
+      child.on('error', () => resolve(false));
+    });
+  }
+
+  /**
+   * Strengstes konfiguriertes Profil, das höchstens so viel erlaubt wie angefragt.
+   */
+  private effectiveProfile(requested: PermissionProfileName): PermissionProfileName | undefined {
+    const maxRank = PERMISSION_PROFILES.indexOf(requested);
+    return [...this.capabilities.permissionProfiles]
+      .filter((profile) => PERMISSION_PROFILES.indexOf(profile) <= maxRank)
+      .sort((a, b) => PERMISSION_PROFILES.indexOf(b) - PERMISSION_PROFILES.indexOf(a))[0];
+  }
+
+  private parseOutput(stdout: string): ParsedOutput {
+    const { format, field, sessionIdField } = this.definition.output;
+    const clean = stripAnsi(stdout).replace(/\r\n/g, '\n').trim();
+    if (format === 'text') return { text: clean };
+
+    const objects: unknown[] = [];
+    const candidates = format === 'json' ? [clean] : clean.split('\n');
+    for (const line of candidates) {
+      try {
+        objects.push(JSON.parse(line));
+      } catch {
+        // Keine JSON-Zeile (z.B. Log-Ausgabe) - überspringen
+      }
+    }
+    if (objects.length === 0) return { text: clean };
+
+    const last = <T>(pick: (value: unknown) => T | undefined): T | undefined =>
+      objects.map(pick).filter((value) => value !== undefined).pop();
+    const text = field
+      ? last((value) => stringAt(value, field))
+      : JSON.stringify(objects[objects.length - 1], null, 2);
+    const sessionId = sessionIdField ? last((value) => stringAt(value, sessionIdField)) : undefined;
+    return { text: text ?? clean, sessionId };
+  }
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+/**
+ * Liest einen String über einen Punkt-Pfad, z.B. "message.content".
+ */
+function stringAt(value: unknown, fieldPath: string): string | undefined {
+  let current = value;
+  for (const key of fieldPath.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  if (current === undefined || current === null) return undefined;
+  return typeof current === 'string' ? current : JSON.stringify(current);
+}
@@ -0,0 +1,211 @@
+/**
+ * ExecutionQueue - Serialisiert Worker-Tasks pro Arbeitsverzeichnis
+ *
+ * Zwei Worker im selben Verzeichnis würden dieselben Dateien bearbeiten und
+ * dieselbe Session-Datei überschreiben. Tasks mit gleichem Verzeichnis laufen
+ * daher nacheinander (FIFO), Tasks in verschiedenen Verzeichnissen parallel
+ * bis zu einem globalen Limit.
+ *
+ * Nur lesende Tasks (shareKey gesetzt) teilen sich ein Verzeichnis wie ein
+ * Read-Lock: Sie laufen parallel zu anderen lesenden Tasks mit anderem
+ * shareKey, aber nie zusammen mit einem schreibenden. Die Reihenfolge pro
+ * Verzeichnis bleibt FIFO - ein wartender schreibender Task wird nicht von
+ * später eingereihten lesenden überholt.
+ */
+
+import * as path from 'path';
+import { bridgeConfig } from './BridgeConfig.js';
+
+export interface QueueTicket {
+  /** Position in der Warteschlange beim Einreihen (0 = sofort gestartet) */
+  position: number;
+  /** Wartezeit bis zum Start in ms */
+  waitMs: number;
+}
+
+export interface QueueRunOptions {
+  /** Wird aufgerufen, wenn der Task warten muss */
+  onQueued?: (position: number, sameDirectoryAhead: number) => void;
+  /** Entfernt den Task aus der Warteschlange, solange er noch wartet */
+  signal?: AbortSignal;
+  /**
+   * Nur lesender Task: läuft parallel zu anderen lesenden Tasks im selben
+   * Verzeichnis, sofern deren shareKey abweicht (z.B. Worker und Session)
+   */
+  shareKey?: string;
+}
+
+export interface ExecutionQueueOptions {
+  /** Maximale Anzahl parallel laufender Tasks (default: 2) */
+  maxConcurrency?: number;
+}
+
+interface Waiter {
+  key: string;
+  shareKey?: string;
+  enqueuedAt: number;
+  position: number;
+  start: (ticket: QueueTicket) => void;
+}
+
+/** Belegung eines Verzeichnisses: ein schreibender Task oder lesende mit ihren shareKeys */
+type Holder = { exclusive: true } | { exclusive: false; shareKeys: Set<string> };
+
+/**
+ * Wird geworfen, wenn ein wartender Task abgebrochen wird.
+ */
+export class QueueAbortedError extends Error {
+  constructor() {
+    super('Task wurde abgebrochen, bevor er gestartet wurde');
+    this.name = 'QueueAbortedError';
+  }
+}
+
+export class ExecutionQueue {
+  private readonly maxConcurrency: number;
+  private readonly holders = new Map<string, Holder>();
+  private readonly waiting: Waiter[] = [];
+  private running = 0;
+
+  constructor(options: ExecutionQueueOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 2);
+  }
+
+  /**
+   * Normalisiert ein Verzeichnis zum Queue-Schlüssel.
+   * Auf Windows sind Pfade case-insensitive.
+   */
+  static keyFor(workingDirectory: string): string {
+    const resolved = path.resolve(workingDirectory);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+  }
+
+  /**
+   * Führt einen Task aus, sobald sein Verzeichnis frei ist und ein globaler
+   * Slot verfügbar ist.
+   *
+   * @throws QueueAbortedError wenn das Signal auslöst, während der Task wartet
+   */
+  async run<T>(
+    workingDirectory: string,
+    task: (ticket: QueueTicket) => Promise<T>,
+    options: QueueRunOptions = {}
+  ): Promise<T> {
+    const key = ExecutionQueue.keyFor(workingDirectory);
+    const ticket = await this.acquire(key, options);
+
+    try {
+      return await task(ticket);
+    } finally {
+      this.release(key, options.shareKey);
+      this.schedule();
+    }
+  }
+
+  /**
+   * Aktueller Zustand (für Diagnose).
+   */
+  stats(): { running: number; waiting: number } {
+    return { running: this.running, waiting: this.waiting.length };
+  }
+
+  private acquire(key: string, options: QueueRunOptions): Promise<QueueTicket> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new QueueAbortedError());
+    }
+
+    // Wartende Tasks im selben Verzeichnis haben Vorrang
+    if (!this.waiting.some((w) => w.key === key) && this.canStart(key, options.shareKey)) {
+      this.occupy(key, options.shareKey);
+      return Promise.resolve({ position: 0, waitMs: 0 });
+    }
+
+    return new Promise<QueueTicket>((resolve, reject) => {
+      const sameDirectoryAhead = this.waiting.filter((w) => w.key === key).length
+        + this.holderCount(key);
+
+      const onAbort = () => {
+        const index = this.waiting.indexOf(waiter);
+        if (index >= 0) {
+          this.waiting.splice(index, 1);
+          reject(new QueueAbortedError());
+          // Ein abgebrochener schreibender Task kann lesende dahinter blockiert haben
+          this.schedule();
+        }
+      };
+
+      const waiter: Waiter = {
+        key,
+        shareKey: options.shareKey,
+        enqueuedAt: Date.now(),
+        position: this.waiting.length + 1,
+        start: (ticket) => {
+          options.signal?.removeEventListener('abort', onAbort);
+          resolve(ticket);
+        },
+      };
+
+      this.waiting.push(waiter);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      options.onQueued?.(waiter.position, sameDirectoryAhead);
+    });
+  }
+
+  private canStart(key: string, shareKey: string | undefined): boolean {
+    if (this.running >= this.maxConcurrency) return false;
+    const holder = this.holders.get(key);
+    if (!holder) return true;
+    return shareKey !== undefined && !holder.exclusive && !holder.shareKeys.has(shareKey);
+  }
+
+  private occupy(key: string, shareKey: string | undefined): void {
+    this.running++;
+    const holder = this.holders.get(key);
+    if (shareKey === undefined) {
+      this.holders.set(key, { exclusive: true });
+    } else if (holder && !holder.exclusive) {
+      holder.shareKeys.add(shareKey);
+    } else {
+      this.holders.set(key, { exclusive: false, shareKeys: new Set([shareKey]) });
+    }
+  }
+
+  private release(key: string, shareKey: string | undefined): void {
+    this.running--;
+    const holder = this.holders.get(key);
+    if (holder && !holder.exclusive && shareKey !== undefined) {
+      holder.shareKeys.delete(shareKey);
+      if (holder.shareKeys.size > 0) return;
+    }
+    this.holders.delete(key);
+  }
+
+  private holderCount(key: string): number {
+    const holder = this.holders.get(key);
+    if (!holder) return 0;
+    return holder.exclusive ? 1 : holder.shareKeys.size;
+  }
+
+  /**
+   * Startet wartende Tasks in FIFO-Reihenfolge, solange Slots frei sind.
+   * Tasks, deren Verzeichnis belegt ist, werden übersprungen, behalten aber
+   * ihre Position; spätere Tasks im selben Verzeichnis warten dahinter.
+   */
+  private schedule(): void {
+    const blocked = new Set<string>();
+    for (let i = 0; i < this.waiting.length && this.running < this.maxConcurrency;) {
+      const waiter = this.waiting[i];
+      if (blocked.has(waiter.key) || !this.canStart(waiter.key, waiter.shareKey)) {
+        blocked.add(waiter.key);
+        i++;
+        continue;
+      }
+      this.waiting.splice(i, 1);
+      this.occupy(waiter.key, waiter.shareKey);
+      waiter.start({ position: waiter.position, waitMs: Date.now() - waiter.enqueuedAt });
+    }
+  }
+}
+
+// Gemeinsame Queue für alle Worker, Limit über maxConcurrency bzw. BRIDGE_MAX_CONCURRENCY
+export const executionQueue = new ExecutionQueue({ maxConcurrency: bridgeConfig.global.maxConcurrency });
@@ -2,152 +2,132 @@
  * GeminiWrapper - Kommuniziert mit Gemini CLI über Dateien
  *
  * Workaround für Gemini CLI Headless-Bug:
- * Startet Gemini CLI mit --yolo und piped Input/Output über Dateien
+ * Startet Gemini CLI (Approval-Mode laut Rechte-Profil) und piped Input/Output über Dateien
+ *
+ * Der Prompt geht über stdin, nie in die Argumente: Er enthält Rollen-Prompt,
+ * Projekt-Preamble, Diffs und Antworten anderer Worker. Als Argument würde eine
+ * Shell ihn an Zeilenumbrüchen zerlegen und Teile davon ausführen, und die
+ * Rechte-Flags kämen nicht mehr bei Gemini an.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as crypto from 'crypto';
 import { spawn } from 'child_process';
+import type { AgentExecuteOptions, AgentExecutionResult, WorkerCapabilities } from './AgentWorker.js';
+import { CliWorker, terminateProcess, withPreamble } from './CliWorker.js';
+import { DEFAULT_SESSION_NAME } from './SessionStore.js';
+import { countQuotaHits, detectUsageLimit, isDailyQuotaExhausted } from './UsageLimits.js';
+import { classifyFailure, createFailure, type WorkerFailure } from './WorkerErrors.js';
+import { PERMISSION_PROFILES, geminiPermissionArgs, type PermissionProfileName } from './PermissionProfiles.js';
+import { bridgeConfig, type WorkerSettings } from './BridgeConfig.js';
 
-export interface GeminiExecutionResult {
-  success: boolean;
-  output: string;
-  exitCode: number | null;
-  duration: number;
-}
+/** Kontingent-Meldungen in stderr, ab denen Gemini als erschöpft gilt */
+const QUOTA_KILL_HITS = 5;
+
+export type GeminiExecutionResult = AgentExecutionResult;
 
-export interface GeminiWrapperOptions {
-  workingDirectory?: string;
-  timeout?: number;
+export interface GeminiInvocationOptions {
   model?: string;
-  continueSession?: boolean;
+  extraArgs?: string[];
+  permissionProfile?: PermissionProfileName;
+  /** Letzte Session der CLI fortsetzen */
+  resume?: boolean;
 }
 
-interface GeminiSessionData {
-  workingDirectory: string;
-  lastUsed: string;
-  taskCount: number;
+export interface GeminiInvocation {
+  args: string[];
+  /** Prompt für stdin */
+  stdin: string;
+}
+
+/**
+ * Baut den Aufruf der Gemini CLI: Flags als Argumente, der Prompt über stdin.
+ * Gemini liest stdin als Prompt, wenn es keine Konsole ist.
+ */
+export function geminiInvocation(prompt: string, options: GeminiInvocationOptions = {}): GeminiInvocation {
+  // Verwende -o text für Text-Output (kein UI)
+  // Approval-Mode laut Rechte-Profil (full = --yolo)
+  const args = [
+    ...(options.model ? ['-m', options.model] : []),
+    ...(options.extraArgs ?? []),
+    ...geminiPermissionArgs(options.permissionProfile ?? 'full'),
+    '-o', 'text',
+  ];
+  if (options.resume) {
+    args.push('--resume', 'latest');
+  }
+  return { args, stdin: prompt };
 }
 
-export class GeminiWrapper {
+export type GeminiWrapperOptions = AgentExecuteOptions;
+
+export class GeminiWrapper extends CliWorker<GeminiWrapperOptions, GeminiExecutionResult> {
+  readonly name = 'gemini';
+  readonly description = 'Gemini CLI - zweite Meinung, Architektur und High-Level-Planung';
+  readonly capabilities: WorkerCapabilities = {
+    sessions: true,
+    namedSessions: false,
+    toolEvents: false,
+    usageReporting: false,
+    permissionProfiles: [...PERMISSION_PROFILES],
+    modelSelection: true,
+  };
+  readonly modelAliases = { fast: 'gemini-2.5-flash', smart: 'gemini-2.5-pro' };
+
   private readonly defaultTimeout = 120000;
-  private readonly sessionDir: string;
+  private readonly defaultCommand = process.platform === 'win32' ? 'gemini.cmd' : 'gemini';
   private readonly tempDir: string;
 
   constructor() {
-    const homeDir = process.env.USERPROFILE || process.env.HOME || '.';
-    this.sessionDir = path.join(homeDir, '.claude', 'bridge-sessions');
-    this.tempDir = path.join(homeDir, '.claude', 'gemini-temp');
+    super();
+    this.tempDir = path.join(bridgeConfig.dataDir(), 'gemini-temp');
     this.ensureDirs();
   }
 
   private ensureDirs(): void {
-    for (const dir of [this.sessionDir, this.tempDir]) {
-      try {
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true });
-        }
-      } catch { /* ignore */ }
-    }
-  }
-
-  private getDirectoryHash(dir: string): string {
-    return crypto.createHash('md5').update(dir.toLowerCase()).digest('hex').slice(0, 12);
-  }
-
-  private loadSession(workingDirectory: string): GeminiSessionData | null {
     try {
-      const hash = this.getDirectoryHash(workingDirectory);
-      const sessionFile = path.join(this.sessionDir, `gemini-session-${hash}.json`);
-      if (fs.existsSync(sessionFile)) {
-        return JSON.parse(fs.readFileSync(sessionFile, 'utf-8')) as GeminiSessionData;
+      if (!fs.existsSync(this.tempDir)) {
+        fs.mkdirSync(this.tempDir, { recursive: true });
       }
     } catch { /* ignore */ }
-    return null;
-  }
-
-  private saveSession(workingDirectory: string, taskCount: number): void {
-    try {
-      const hash = this.getDirectoryHash(workingDirectory);
-      const sessionFile = path.join(this.sessionDir, `gemini-session-${hash}.json`);
-      const data: GeminiSessionData = {
-        workingDirectory,
-        lastUsed: new Date().toISOString(),
-        taskCount,
-      };
-      fs.writeFileSync(sessionFile, JSON.stringify(data, null, 2));
-    } catch { /* ignore */ }
   }
 
-  clearSession(workingDirectory: string): boolean {
-    try {
-      const hash = this.getDirectoryHash(workingDirectory);
-      const sessionFile = path.join(this.sessionDir, `gemini-session-${hash}.json`);
-      if (fs.existsSync(sessionFile)) {
-        fs.unlinkSync(sessionFile);
-        return true;
-      }
-    } catch { /* ignore */ }
-    return false;
-  }
-
-  listSessions(): GeminiSessionData[] {
-    try {
-      const files = fs.readdirSync(this.sessionDir).filter(f => f.startsWith('gemini-session-'));
-      return files.map(f => JSON.parse(fs.readFileSync(path.join(this.sessionDir, f), 'utf-8')) as GeminiSessionData);
-    } catch {
-      return [];
-    }
-  }
-
-  /**
-   * Führt Gemini CLI aus und wartet auf Antwort
-   */
-  async execute(
+  protected async runOnce(
     instruction: string,
-    options: GeminiWrapperOptions = {}
+    options: GeminiWrapperOptions,
+    cwd: string,
+    settings: WorkerSettings
   ): Promise<GeminiExecutionResult> {
-    const cwd = options.workingDirectory ?? process.cwd();
 
     // Session-Management
-    const existingSession = this.loadSession(cwd);
-    const taskCount = existingSession ? existingSession.taskCount + 1 : 1;
-
-    // Logging
-    const logDir = process.env.USERPROFILE || process.env.HOME || '.';
-    const logFile = path.join(logDir, '.claude', 'orchestrator.log');
-    const timestamp = new Date().toISOString();
-    const sessionInfo = existingSession ? `[CONTINUE #${taskCount}]` : '[NEW SESSION]';
-    try {
-      fs.appendFileSync(logFile, `[${timestamp}] ${sessionInfo} CLAUDE -> GEMINI (CLI): ${instruction}\n\n`);
-    } catch { /* ignore */ }
+    const existingSession = await this.loadSession(cwd);
+    const resumed = existingSession !== null && options.continueSession !== false;
 
     const startTime = Date.now();
-    const timeout = options.timeout ?? this.defaultTimeout;
-
-    return new Promise((resolve) => {
-      // Gemini CLI mit Prompt starten
-      // Verwende -o text für Text-Output (kein UI)
-      const args = [
-        instruction,
-        '--yolo',
-        '-o', 'text',
-      ];
-
-      // Session-Fortsetzung
-      if (existingSession && options.continueSession !== false) {
-        args.push('--resume', 'latest');
-      }
+    const timeout = options.timeout ?? settings.timeout ?? this.defaultTimeout;
+
+    const result = await new Promise<GeminiExecutionResult>((resolve) => {
+      // Session-Fortsetzung. Gemini kennt nur "latest": Auch ein Einmal-Lauf
+      // (recordSession: false) wird zur letzten Session der CLI - der
+      // Session-Eintrag der Bridge bleibt aber unverändert.
+      const { args, stdin } = geminiInvocation(withPreamble(instruction, options.systemPrompt), {
+        model: options.model,
+        extraArgs: settings.extraArgs,
+        permissionProfile: options.permissionProfile,
+        resume: resumed,
+      });
 
-      const command = process.platform === 'win32' ? 'gemini.cmd' : 'gemini';
+      const command = settings.command ?? this.defaultCommand;
 
+      // Ohne Shell (nur gemini.cmd auf Windows braucht sie) - die Argumente
+      // enthalten nur Flags, der Prompt geht über stdin
       const child = spawn(command, args, {
         cwd,
-        shell: true,
+        shell: process.platform === 'win32',
         stdio: ['pipe', 'pipe', 'pipe'],
         env: {
           ...process.env,
+          ...settings.env,
           // Force non-interactive
           CI: 'true',
           TERM: 'dumb',
@@ -156,45 +136,71 @@ export class GeminiWrapper {
         windowsHide: true,
       });
 
+      // Beendet sich Gemini vor dem Lesen, meldet stdin EPIPE - das Ergebnis kommt über close/error
+      child.stdin?.on('error', () => { /* ignore */ });
+      child.stdin?.end(stdin);
+
       let stdout = '';
       let stderr = '';
       let resolved = false;
 
-      const finish = (success: boolean, output: string, exitCode: number | null) => {
+      const finish = (success: boolean, output: string, exitCode: number | null, failure?: WorkerFailure) => {
         if (resolved) return;
         resolved = true;
 
-        if (success) {
-          this.saveSession(cwd, taskCount);
-        }
-
         resolve({
           success,
           output,
           exitCode,
           duration: Date.now() - startTime,
+          failure,
         });
       };
 
-      child.stdout?.on('data', (chunk: Buffer) => {
-        stdout += chunk.toString();
+      // Als UTF-8-Strom dekodieren: Umlaute können über Chunk-Grenzen geteilt sein
+      child.stdout?.setEncoding('utf8');
+      child.stderr?.setEncoding('utf8');
+      child.stdout?.on('data', (text: string) => {
+        stdout += text;
+        const cleanText = text.replace(/\x1b\[[0-9;]*m/g, '').trim();
+        if (cleanText) {
+          options.onProgress?.({ kind: 'text', message: cleanText });
+        }
       });
 
-      child.stderr?.on('data', (chunk: Buffer) => {
-        stderr += chunk.toString();
+      child.stderr?.on('data', (chunk: string) => {
+        stderr += chunk;
+        // Bei aufgebrauchtem Tageskontingent wiederholt Gemini selbst endlos - beenden.
+        // Einzelne Meldungen pro Minute überbrückt Gemini mit eigenen Retries.
+        if (!resolved && (isDailyQuotaExhausted(stderr) || countQuotaHits(stderr) >= QUOTA_KILL_HITS)) {
+          clearTimeout(timeoutId);
+          terminateProcess(child, 3000);
+          const failure = classifyFailure({ exitCode: null, output: stderr });
+          finish(false, `[USAGE LIMIT] ${detectUsageLimit(stderr)?.message ?? failure.message}`, null, failure);
+        }
       });
 
       // Timeout
       const timeoutId = setTimeout(() => {
-        child.kill('SIGTERM');
-        setTimeout(() => {
-          if (!child.killed) child.kill('SIGKILL');
-        }, 3000);
-        finish(false, `[TIMEOUT] Gemini antwortete nicht innerhalb von ${timeout/1000}s\n\nPartielle Ausgabe:\n${stdout || stderr || '(keine)'}`, null);
+        terminateProcess(child, 3000);
+        finish(false, `[TIMEOUT] Gemini antwortete nicht innerhalb von ${timeout/1000}s\n\nPartielle Ausgabe:\n${stdout || stderr || '(keine)'}`, null, createFailure('timeout'));
       }, timeout);
 
-      child.on('close', (code) => {
+      // Abbruch von außen (z.B. cancel_task)
+      const onAbort = () => {
         clearTimeout(timeoutId);
+        terminateProcess(child, 3000);
+        finish(false, `[CANCELLED] Task wurde abgebrochen\n\nPartielle Ausgabe:\n${stdout || stderr || '(keine)'}`, null, createFailure('cancelled'));
+      };
+      if (options.signal?.aborted) {
+        onAbort();
+      } else {
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', onAbort);
 
         // Bereinige ANSI-Codes
         const cleanOutput = (stdout || stderr)
@@ -202,24 +208,36 @@ export class GeminiWrapper {
           .replace(/\r\n/g, '\n')
           .trim();
 
-        if (code === 0 && cleanOutput) {
+        if (code === 0 && cleanOutput && !detectUsageLimit(cleanOutput, { strict: true })) {
           finish(true, cleanOutput, code);
         } else {
-          finish(false, cleanOutput || `[ERROR] Exit code: ${code}`, code);
+          const failure = classifyFailure({ exitCode: code, output: `${stderr}\n${stdout}`, signal });
+          finish(false, cleanOutput || `[ERROR] Exit code: ${code} (${failure.kind})`, code, failure);
         }
       });
 
       child.on('error', (err) => {
         clearTimeout(timeoutId);
-        finish(false, `[SPAWN ERROR] ${err.message}`, null);
+        options.signal?.removeEventListener('abort', onAbort);
+        finish(false, `[SPAWN ERROR] ${err.message}`, null, classifyFailure({
+          exitCode: null,
+          output: err.message,
+          spawnErrorCode: (err as NodeJS.ErrnoException).code ?? 'SPAWN_FAILED',
+        }));
       });
     });
+
+    if (result.success && options.recordSession !== false) {
+      await this.saveSession(cwd, DEFAULT_SESSION_NAME, { continued: resumed, model: options.model }, options.taskId);
+    }
+    return result;
   }
 
   async isAvailable(): Promise<boolean> {
     // Prüfe ob gemini CLI existiert
     return new Promise((resolve) => {
-      const child = spawn(process.platform === 'win32' ? 'gemini.cmd' : 'gemini', ['--version'], {
+      const command = bridgeConfig.workerSettings(this.name).command ?? this.defaultCommand;
+      const child = spawn(command, ['--version'], {
         shell: true,
         stdio: ['pipe', 'pipe', 'pipe'],
       });
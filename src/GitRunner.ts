@@ -0,0 +1,88 @@
+/**
+ * GitRunner - Führt git-Befehle als Subprozess aus
+ *
+ * Dünne Promise-Hülle um `git`, die stdout liefert und bei Exit-Code != 0
+ * einen GitError mit stderr wirft.
+ */
+
+import { spawn } from 'child_process';
+
+export interface GitRunOptions {
+  /** Zusätzliche Environment-Variablen (z.B. GIT_INDEX_FILE) */
+  env?: Record<string, string>;
+  /** Maximale stdout-Größe in Bytes (default: 64 MB) */
+  maxOutputBytes?: number;
+  /** Daten für stdin (z.B. ein Patch für git apply) */
+  input?: string;
+}
+
+export class GitError extends Error {
+  constructor(
+    message: string,
+    readonly args: string[],
+    readonly exitCode: number | null,
+    readonly stderr: string
+  ) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Führt `git <args>` im angegebenen Verzeichnis aus.
+ *
+ * @returns stdout des Befehls
+ * @throws GitError wenn git nicht startet oder mit Exit-Code != 0 endet
+ */
+export function runGit(args: string[], cwd: string, options: GitRunOptions = {}): Promise<string> {
+  const maxOutputBytes = options.maxOutputBytes ?? 64 * 1024 * 1024;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd,
+      env: { ...process.env, ...options.env },
+      stdio: [options.input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+      windowsHide: true,
+    });
+
+    child.stdin?.end(options.input);
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let stderr = '';
+
+    child.stdout?.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxOutputBytes) chunks.push(chunk);
+    });
+
+    child.stderr?.setEncoding('utf8');
+    child.stderr?.on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+
+    child.on('error', (error) => {
+      reject(new GitError(`git konnte nicht gestartet werden: ${error.message}`, args, null, ''));
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(chunks).toString('utf-8'));
+      } else {
+        const detail = stderr.trim() || `Exit-Code: ${code}`;
+        reject(new GitError(`git ${args[0]} fehlgeschlagen: ${detail}`, args, code, stderr));
+      }
+    });
+  });
+}
+
+/**
+ * Liefert das Root-Verzeichnis des Repos oder null, wenn kein git-Repo.
+ */
+export async function findRepoRoot(cwd: string): Promise<string | null> {
+  try {
+    return (await runGit(['rev-parse', '--show-toplevel'], cwd)).trim();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * JobRegistry - In-Process Registry für asynchrone Worker-Tasks
+ *
+ * Statt den ganzen Kindprozess im Request-Handler abzuwarten, kann der
+ * Orchestrator einen Task starten, sofort eine Job-ID bekommen und den Status
+ * später abfragen, abwarten oder den Task abbrechen.
+ *
+ * Abgeschlossene Jobs bleiben für eine konfigurierbare Zeit erhalten, damit
+ * Ergebnisse einen abgebrochenen Client-Call überleben.
+ */
+
+import * as crypto from 'crypto';
+import { bridgeConfig } from './BridgeConfig.js';
+import type { ClaudeExecutionResult } from './ClaudeWrapper.js';
+import type { AgentExecutionResult } from './AgentWorker.js';
+import type { ProgressCallback, WorkerProgressEvent } from './ProgressReporter.js';
+
+/** Name eines registrierten Workers (siehe WorkerRegistry) */
+export type JobWorker = string;
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobResult = ClaudeExecutionResult | AgentExecutionResult;
+
+export interface Job {
+  id: string;
+  worker: JobWorker;
+  instruction: string;
+  workingDirectory?: string;
+  status: JobStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  /** Gesammelte Teil-Ausgaben (auf maxPartialOutput gekürzt) */
+  partialOutput: string;
+  /** Letztes Progress-Event des Workers */
+  lastActivity?: WorkerProgressEvent;
+  /** Finales Ergebnis, sobald der Worker fertig ist */
+  result?: JobResult;
+  /** Fehlermeldung, falls die Ausführung selbst geworfen hat */
+  error?: string;
+}
+
+/** Kontext, den ein Job-Runner vom Registry bekommt */
+export interface JobRunContext {
+  /** ID des Jobs (z.B. als Correlation-ID im Audit-Log) */
+  jobId: string;
+  signal: AbortSignal;
+  onProgress: ProgressCallback;
+}
+
+export interface JobRegistryOptions {
+  /** Aufbewahrungszeit abgeschlossener Jobs in ms (default: 3600000 = 1h) */
+  retentionMs?: number;
+  /** Maximale Länge der gesammelten Teil-Ausgabe (default: 20000 Zeichen) */
+  maxPartialOutput?: number;
+}
+
+interface JobEntry {
+  job: Job;
+  controller: AbortController;
+  done: Promise<Job>;
+}
+
+export class JobRegistry {
+  private readonly jobs = new Map<string, JobEntry>();
+  private readonly retentionMs: number;
+  private readonly maxPartialOutput: number;
+
+  constructor(options: JobRegistryOptions = {}) {
+    this.retentionMs = options.retentionMs ?? 3600000;
+    this.maxPartialOutput = options.maxPartialOutput ?? 20000;
+  }
+
+  /**
+   * Startet einen Job im Hintergrund und kehrt sofort zurück.
+   *
+   * @param worker - Ziel-Worker (nur für Anzeige/Filter)
+   * @param instruction - Aufgabenbeschreibung
+   * @param run - Führt den Task aus; bekommt AbortSignal und Progress-Callback
+   */
+  start(
+    worker: JobWorker,
+    instruction: string,
+    workingDirectory: string | undefined,
+    run: (context: JobRunContext) => Promise<JobResult>
+  ): Job {
+    const controller = new AbortController();
+    const job: Job = {
+      id: crypto.randomUUID(),
+      worker,
+      instruction,
+      workingDirectory,
+      status: 'running',
+      startedAt: new Date(),
+      partialOutput: '',
+    };
+
+    const onProgress: ProgressCallback = (event) => {
+      job.lastActivity = event;
+      if (event.kind === 'text') {
+        job.partialOutput = `${job.partialOutput}${event.message}\n`.slice(-this.maxPartialOutput);
+      }
+    };
+
+    const done = run({ jobId: job.id, signal: controller.signal, onProgress })
+      .then((result) => {
+        job.result = result;
+        if (controller.signal.aborted) {
+          job.status = 'cancelled';
+        } else {
+          job.status = result.success ? 'completed' : 'failed';
+        }
+      })
+      .catch((error: unknown) => {
+        job.error = error instanceof Error ? error.message : String(error);
+        job.status = controller.signal.aborted ? 'cancelled' : 'failed';
+      })
+      .then(() => {
+        job.finishedAt = new Date();
+        this.scheduleCleanup(job.id);
+        return job;
+      });
+
+    this.jobs.set(job.id, { job, controller, done });
+    return job;
+  }
+
+  /**
+   * Liefert einen Job oder undefined (unbekannt oder bereits aufgeräumt).
+   */
+  get(jobId: string): Job | undefined {
+    return this.jobs.get(jobId)?.job;
+  }
+
+  /**
+   * Listet alle bekannten Jobs, neueste zuerst.
+   */
+  list(): Job[] {
+    return [...this.jobs.values()]
+      .map((entry) => entry.job)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  /**
+   * Bricht einen laufenden Job ab (beendet den Kindprozess).
+   *
+   * @returns true wenn der Job lief und abgebrochen wurde
+   */
+  cancel(jobId: string): boolean {
+    const entry = this.jobs.get(jobId);
+    if (!entry || entry.job.status !== 'running') return false;
+    entry.controller.abort();
+    return true;
+  }
+
+  /**
+   * Wartet, bis der Job fertig ist oder das Timeout abläuft.
+   *
+   * @returns Der Job im aktuellen Zustand (auch wenn er noch läuft)
+   */
+  async wait(jobId: string, timeoutMs: number): Promise<Job | undefined> {
+    const entry = this.jobs.get(jobId);
+    if (!entry) return undefined;
+    if (entry.job.status !== 'running') return entry.job;
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<Job>((resolve) => {
+      timeoutId = setTimeout(() => resolve(entry.job), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([entry.done, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Dauer eines Jobs in ms (bis jetzt, falls er noch läuft).
+   */
+  static durationOf(job: Job): number {
+    return (job.finishedAt ?? new Date()).getTime() - job.startedAt.getTime();
+  }
+
+  private scheduleCleanup(jobId: string): void {
+    const timer = setTimeout(() => this.jobs.delete(jobId), this.retentionMs);
+    // Cleanup-Timer darf den Prozess nicht am Leben halten
+    timer.unref();
+  }
+}
+
+// Singleton-Export, Aufbewahrungszeit über jobRetentionMs bzw. BRIDGE_JOB_RETENTION_MS
+export const jobRegistry = new JobRegistry({ retentionMs: bridgeConfig.global.jobRetentionMs });
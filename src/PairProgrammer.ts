@@ -0,0 +1,269 @@
+/**
+ * PairProgrammer - Implementieren und Reviewen im Wechsel
+ *
+ * Ablauf pro Runde:
+ * 1. Implementer setzt um (Runde 1: die Aufgabe, danach: die Befunde des Reviews)
+ * 2. Reviewer prüft Bericht und Diff der Runde read-only und schließt mit
+ *    "URTEIL: APPROVE" oder "URTEIL: CHANGES_REQUESTED" (Format der Rolle reviewer)
+ * Bei APPROVE endet die Schleife, sonst nach maxRounds Runden.
+ *
+ * SESSIONS: Bei Workern mit benannten Sessions arbeiten Implementer und
+ * Reviewer in eigenen Sessions, die über die Runden fortgesetzt werden;
+ * Runde 1 beginnt jeweils neu. Worker ohne benannte Sessions laufen als
+ * Einmal-Läufe (recordSession: false), damit die Schleife ihre Default-Session
+ * nicht überschreibt - jeder Auftrag enthält dafür Aufgabe und letztes Review.
+ *
+ * Der Gesamt-Diff wird per Snapshot vor der ersten und nach der letzten
+ * Runde ermittelt, unabhängig von den Diffs der einzelnen Runden. Beide
+ * Snapshots laufen in der ExecutionQueue, also nie während eines anderen
+ * schreibenden Tasks im Verzeichnis. Der Patch wird wie Worker-Ergebnisse
+ * für die toolResult-Senke redigiert.
+ */
+
+import type { AgentExecuteOptions, AgentExecutionResult, AgentWorker } from './AgentWorker.js';
+import { changeTracker, formatChangeReport, type ChangeReport, type WorkingTreeSnapshot } from './ChangeTracker.js';
+import { executionQueue } from './ExecutionQueue.js';
+import type { PermissionProfileName } from './PermissionProfiles.js';
+import type { ProgressCallback, WorkerProgressEvent } from './ProgressReporter.js';
+import { redactor } from './Redactor.js';
+
+export const PAIR_IMPLEMENTER_SESSION = 'pair-implementer';
+export const PAIR_REVIEWER_SESSION = 'pair-reviewer';
+
+export const DEFAULT_PAIR_ROUNDS = 3;
+export const MAX_PAIR_ROUNDS = 10;
+
+/** shareKey der Snapshots: lesend, parallel zu anderen lesenden Tasks */
+const SNAPSHOT_SHARE_KEY = 'pair-snapshot';
+
+/** Obergrenzen für Bericht und Diff im Review-Auftrag */
+const MAX_REPORT_LENGTH = 20000;
+const MAX_PATCH_LENGTH = 60000;
+
+export type PairVerdict = 'approve' | 'changes_requested';
+
+export type PairStatus =
+  /** Reviewer hat zugestimmt */
+  | 'approved'
+  /** maxRounds erreicht, ohne Zustimmung */
+  | 'max_rounds'
+  | 'implementer_failed'
+  | 'reviewer_failed'
+  /** Ein Schritt wurde vor dem Start abgelehnt (z.B. Budget) */
+  | 'aborted';
+
+export interface PairStep {
+  round: number;
+  step: 'implement' | 'review';
+  worker: string;
+  result: AgentExecutionResult;
+  /** Nur bei review; undefined = kein Urteil erkannt (zählt als CHANGES_REQUESTED) */
+  verdict?: PairVerdict;
+}
+
+export interface PairProgramOptions {
+  instruction: string;
+  workingDirectory: string;
+  implementer: AgentWorker;
+  reviewer: AgentWorker;
+  maxRounds?: number;
+  /** Timeout pro Schritt in ms */
+  timeout?: number;
+  /** Rechte des Implementers (der Reviewer arbeitet immer read-only) */
+  permissionProfile?: PermissionProfileName;
+  implementerModel?: string;
+  reviewerModel?: string;
+  /** Verbindet alle Schritte im Audit-Log */
+  correlationId?: string;
+  onProgress?: ProgressCallback;
+}
+
+export interface PairProgramResult {
+  status: PairStatus;
+  /** Begonnene Runden */
+  rounds: number;
+  steps: PairStep[];
+  /** Änderungen über alle Runden (mit redigiertem Patch, null wenn kein Snapshot möglich) */
+  changes: ChangeReport | null;
+  /** Gesamtdauer in ms */
+  duration: number;
+  /** Grund bei status "aborted" */
+  error?: string;
+}
+
+export class PairProgrammer {
+  async run(options: PairProgramOptions): Promise<PairProgramResult> {
+    const { implementer, reviewer } = options;
+    const maxRounds = options.maxRounds ?? DEFAULT_PAIR_ROUNDS;
+    const startTime = Date.now();
+    const before = await snapshot(options.workingDirectory);
+    const steps: PairStep[] = [];
+    let status: PairStatus = 'max_rounds';
+    let error: string | undefined;
+    let round = 0;
+
+    const progress = (worker: string, event: WorkerProgressEvent): void =>
+      options.onProgress?.({ ...event, message: `Runde ${round}/${maxRounds} - ${worker}: ${event.message}` });
+
+    try {
+      for (round = 1; round <= maxRounds; round++) {
+        const lastReview = steps[steps.length - 1];
+        progress(implementer.name, { kind: 'text', message: round === 1 ? 'implementiert' : 'arbeitet Review-Befunde ab' });
+        const implementation = await implementer.execute(
+          lastReview ? feedbackInstruction(options.instruction, reviewer.name, lastReview.result.output, round) : options.instruction,
+          {
+            workingDirectory: options.workingDirectory,
+            timeout: options.timeout,
+            ...pairSession(implementer, PAIR_IMPLEMENTER_SESSION, round),
+            permissionProfile: options.permissionProfile,
+            includePatch: true,
+            model: options.implementerModel,
+            role: 'implementer',
+            correlationId: options.correlationId,
+            onProgress: (event) => progress(implementer.name, event),
+          }
+        );
+        steps.push({ round, step: 'implement', worker: implementer.name, result: implementation });
+        if (!implementation.success) {
+          status = 'implementer_failed';
+          break;
+        }
+
+        progress(reviewer.name, { kind: 'text', message: 'reviewt' });
+        const review = await reviewer.execute(
+          reviewInstruction(
+            options.instruction,
+            implementer.name,
+            implementation,
+            round,
+            maxRounds,
+            // Ohne fortgesetzte Session kennt der Reviewer seine Befunde nur aus dem Auftrag
+            reviewer.capabilities.namedSessions ? undefined : lastReview?.result.output
+          ),
+          {
+            workingDirectory: options.workingDirectory,
+            timeout: options.timeout,
+            ...pairSession(reviewer, PAIR_REVIEWER_SESSION, round),
+            permissionProfile: 'read-only',
+            trackChanges: false,
+            model: options.reviewerModel,
+            role: 'reviewer',
+            correlationId: options.correlationId,
+            onProgress: (event) => progress(reviewer.name, event),
+          }
+        );
+        const verdict = review.success ? parseVerdict(review.output) : undefined;
+        steps.push({ round, step: 'review', worker: reviewer.name, result: review, verdict });
+        if (!review.success) {
+          status = 'reviewer_failed';
+          break;
+        }
+        if (verdict === 'approve') {
+          status = 'approved';
+          break;
+        }
+      }
+    } catch (rejection) {
+      // Vor dem ersten Schritt abgelehnt: nichts passiert, Fehler an den Aufrufer
+      if (steps.length === 0) throw rejection;
+      status = 'aborted';
+      error = rejection instanceof Error ? rejection.message : String(rejection);
+    }
+
+    const after = before ? await snapshot(options.workingDirectory) : null;
+    const compared = before && after ? await changeTracker.compare(before, after, true) : null;
+    const changes = compared ? redactor.redactChanges(compared) : null;
+
+    return {
+      status,
+      rounds: Math.min(round, maxRounds),
+      steps,
+      changes,
+      duration: Date.now() - startTime,
+      error,
+    };
+  }
+}
+
+/**
+ * Session-Optionen eines Schritts: eigene, fortgesetzte Session bei benannten
+ * Sessions, sonst ein Einmal-Lauf ohne Session-Eintrag.
+ */
+function pairSession(
+  worker: AgentWorker,
+  sessionName: string,
+  round: number
+): Pick<AgentExecuteOptions, 'continueSession' | 'sessionName' | 'recordSession'> {
+  if (worker.capabilities.namedSessions) {
+    return { continueSession: round > 1, sessionName };
+  }
+  return { continueSession: false, recordSession: false };
+}
+
+/**
+ * Snapshot in der ExecutionQueue des Verzeichnisses, damit kein schreibender
+ * Task gleichzeitig Dateien ändert.
+ */
+function snapshot(workingDirectory: string): Promise<WorkingTreeSnapshot | null> {
+  return executionQueue.run(workingDirectory, () => changeTracker.snapshot(workingDirectory), { shareKey: SNAPSHOT_SHARE_KEY });
+}
+
+/**
+ * Liest das Urteil aus einer Review-Antwort (letzte "URTEIL:"-Zeile, auch "VERDICT:").
+ */
+export function parseVerdict(output: string): PairVerdict | undefined {
+  const matches = [...output.matchAll(/(?:URTEIL|VERDICT)\W{0,5}(APPROVE|CHANGES[_ ]REQUESTED)/gi)];
+  const last = matches[matches.length - 1];
+  if (!last) return undefined;
+  return last[1].toUpperCase() === 'APPROVE' ? 'approve' : 'changes_requested';
+}
+
+function reviewInstruction(
+  task: string,
+  implementer: string,
+  implementation: AgentExecutionResult,
+  round: number,
+  maxRounds: number,
+  previousReview?: string
+): string {
+  const changes = implementation.changes;
+  const report = changes ? formatChangeReport(changes) : 'Änderungen nicht ermittelbar - prüfe das Arbeitsverzeichnis.';
+  const patch = changes?.patch ? `\n\n${truncate(changes.patch, MAX_PATCH_LENGTH)}` : '';
+  const previous = previousReview ? `\n\nDEIN REVIEW DER LETZTEN RUNDE:\n${truncate(previousReview, MAX_REPORT_LENGTH)}` : '';
+
+  return `Prüfe die Umsetzung der folgenden Aufgabe (Runde ${round} von ${maxRounds}).
+
+AUFGABE:
+${task}
+
+BERICHT DES IMPLEMENTERS (@${implementer}):
+${truncate(implementation.output, MAX_REPORT_LENGTH)}
+
+ÄNDERUNGEN DIESER RUNDE:
+${report}${patch}${previous}
+
+Der aktuelle Stand liegt im Arbeitsverzeichnis; lies bei Bedarf weitere Dateien, ändere aber nichts.
+${round > 1 ? 'Prüfe auch, ob deine Befunde aus der letzten Runde behoben sind.\n' : ''}APPROVE nur, wenn keine blocker- oder major-Befunde offen sind.
+Die letzte Zeile deines Urteils muss lauten: "URTEIL: APPROVE" oder "URTEIL: CHANGES_REQUESTED".`;
+}
+
+/**
+ * Nächster Auftrag an den Implementer. Enthält die Aufgabe erneut, da nicht
+ * jeder Worker Sessions fortsetzen kann.
+ */
+function feedbackInstruction(task: string, reviewer: string, review: string, round: number): string {
+  return `Der Reviewer (@${reviewer}) hat Änderungen angefordert (Review vor Runde ${round}).
+Arbeite die Befunde ab. Setzt du einen Befund bewusst nicht um, begründe das kurz.
+
+AUFGABE:
+${task}
+
+REVIEW:
+${truncate(review, MAX_REPORT_LENGTH)}`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n... (gekürzt, ${text.length - maxLength} Zeichen)` : text;
+}
+
+export const pairProgrammer = new PairProgrammer();
@@ -0,0 +1,206 @@
+/**
+ * PermissionProfiles - Benannte Rechte-Profile für die Worker-CLIs
+ *
+ * Statt immer `--dangerously-skip-permissions` (Claude) bzw. `--yolo` (Gemini)
+ * zu setzen, wird jedes Profil auf die Allowed/Disallowed-Tool-Listen und
+ * Approval-Modes der jeweiligen CLI abgebildet. So lassen sich Review- oder
+ * Read-Only-Tasks sicher delegieren.
+ *
+ * Profile sind geordnet (read-only < edit-no-shell < full). Pro Verzeichnis
+ * kann eine Obergrenze gesetzt werden, die auch für Unterverzeichnisse gilt.
+ *
+ * Die Flags wirken nur, wenn sie als eigene Argumente bei der CLI ankommen.
+ * Prompts gehen deshalb über stdin (siehe claudeInvocation, geminiInvocation),
+ * sonst könnte ihr Inhalt die Flags abschneiden.
+ */
+
+import * as path from 'path';
+import { bridgeConfig, PERMISSION_PROFILES, type PermissionProfileName } from './BridgeConfig.js';
+
+export { PERMISSION_PROFILES, type PermissionProfileName };
+
+export interface PermissionProfile {
+  name: PermissionProfileName;
+  description: string;
+  claude: {
+    /** Wert für --permission-mode */
+    permissionMode?: 'default' | 'acceptEdits';
+    allowedTools?: string[];
+    disallowedTools?: string[];
+    /** --dangerously-skip-permissions setzen */
+    skipPermissions?: boolean;
+  };
+  gemini: {
+    /** Wert für --approval-mode */
+    approvalMode: 'default' | 'auto_edit' | 'yolo';
+    allowedTools?: string[];
+  };
+}
+
+const PROFILES: Record<PermissionProfileName, PermissionProfile> = {
+  'read-only': {
+    name: 'read-only',
+    description: 'Nur lesen und suchen, keine Änderungen, keine Shell',
+    claude: {
+      permissionMode: 'default',
+      allowedTools: ['Read', 'Glob', 'Grep', 'LS', 'WebFetch', 'WebSearch', 'TodoWrite'],
+      disallowedTools: ['Edit', 'MultiEdit', 'Write', 'NotebookEdit', 'Bash'],
+    },
+    gemini: {
+      // Im Non-Interactive-Modus werden genehmigungspflichtige Tools nicht ausgeführt
+      approvalMode: 'default',
+    },
+  },
+  'edit-no-shell': {
+    name: 'edit-no-shell',
+    description: 'Dateien lesen und bearbeiten, aber keine Shell-Befehle',
+    claude: {
+      permissionMode: 'acceptEdits',
+      disallowedTools: ['Bash'],
+    },
+    gemini: {
+      approvalMode: 'auto_edit',
+    },
+  },
+  full: {
+    name: 'full',
+    description: 'Voller Zugriff inklusive Shell (bisheriges Verhalten)',
+    claude: {
+      skipPermissions: true,
+    },
+    gemini: {
+      approvalMode: 'yolo',
+    },
+  },
+};
+
+/**
+ * Wird geworfen, wenn ein angefordertes Profil die Obergrenze überschreitet.
+ */
+export class PermissionProfileError extends Error {
+  constructor(
+    message: string,
+    readonly requested: PermissionProfileName,
+    readonly limit: PermissionProfileName
+  ) {
+    super(message);
+    this.name = 'PermissionProfileError';
+  }
+}
+
+export function isPermissionProfileName(value: unknown): value is PermissionProfileName {
+  return typeof value === 'string' && (PERMISSION_PROFILES as readonly string[]).includes(value);
+}
+
+export function getPermissionProfile(name: PermissionProfileName): PermissionProfile {
+  return PROFILES[name];
+}
+
+function rank(name: PermissionProfileName): number {
+  return PERMISSION_PROFILES.indexOf(name);
+}
+
+/**
+ * Kappt ein Profil auf eine Obergrenze (ohne Obergrenze unverändert).
+ */
+export function capPermissionProfile(
+  profile: PermissionProfileName,
+  limit: PermissionProfileName | undefined
+): PermissionProfileName {
+  return limit && rank(profile) > rank(limit) ? limit : profile;
+}
+
+/**
+ * CLI-Argumente für Claude Code zu einem Profil.
+ */
+export function claudePermissionArgs(name: PermissionProfileName): string[] {
+  const { claude } = PROFILES[name];
+  if (claude.skipPermissions) {
+    return ['--dangerously-skip-permissions'];
+  }
+
+  const args: string[] = [];
+  if (claude.permissionMode) args.push('--permission-mode', claude.permissionMode);
+  if (claude.allowedTools?.length) args.push('--allowedTools', claude.allowedTools.join(','));
+  if (claude.disallowedTools?.length) args.push('--disallowedTools', claude.disallowedTools.join(','));
+  return args;
+}
+
+/**
+ * CLI-Argumente für Gemini CLI zu einem Profil.
+ */
+export function geminiPermissionArgs(name: PermissionProfileName): string[] {
+  const { gemini } = PROFILES[name];
+  const args = gemini.approvalMode === 'yolo'
+    ? ['--yolo']
+    : ['--approval-mode', gemini.approvalMode];
+  if (gemini.allowedTools?.length) args.push('--allowed-tools', gemini.allowedTools.join(','));
+  return args;
+}
+
+export interface PermissionPolicyOptions {
+  /** Profil, wenn der Aufruf keins angibt (default: full) */
+  defaultProfile?: PermissionProfileName;
+  /** Obergrenze pro Verzeichnis (gilt auch für Unterverzeichnisse) */
+  directoryLimits?: Record<string, PermissionProfileName>;
+}
+
+export class PermissionPolicy {
+  private readonly defaultProfile: PermissionProfileName;
+  private readonly directoryLimits: Array<{ dir: string; limit: PermissionProfileName }>;
+
+  constructor(options: PermissionPolicyOptions = {}) {
+    this.defaultProfile = options.defaultProfile ?? 'full';
+    this.directoryLimits = Object.entries(options.directoryLimits ?? {})
+      .map(([dir, limit]) => ({ dir: PermissionPolicy.normalize(dir), limit }))
+      // Spezifischstes Verzeichnis zuerst
+      .sort((a, b) => b.dir.length - a.dir.length);
+  }
+
+  private static normalize(dir: string): string {
+    const resolved = path.resolve(dir);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+  }
+
+  /**
+   * Obergrenze für ein Verzeichnis (spezifischster Eintrag gewinnt).
+   */
+  limitFor(workingDirectory: string): PermissionProfileName | undefined {
+    const dir = PermissionPolicy.normalize(workingDirectory);
+    return this.directoryLimits.find(
+      (entry) => dir === entry.dir || dir.startsWith(entry.dir + path.sep)
+    )?.limit;
+  }
+
+  /**
+   * Bestimmt das effektive Profil für einen Aufruf.
+   *
+   * Ohne Angabe gilt das Default-Profil, gekappt auf die Verzeichnis-Obergrenze.
+   * Ein explizit angefordertes Profil über der Obergrenze wird abgelehnt.
+   *
+   * @throws PermissionProfileError
+   */
+  resolve(requested: PermissionProfileName | undefined, workingDirectory: string): PermissionProfileName {
+    const limit = this.limitFor(workingDirectory);
+
+    if (requested) {
+      if (limit && rank(requested) > rank(limit)) {
+        throw new PermissionProfileError(
+          `Rechte-Profil "${requested}" ist für ${workingDirectory} nicht erlaubt (Obergrenze: "${limit}")`,
+          requested,
+          limit
+        );
+      }
+      return requested;
+    }
+
+    if (limit && rank(this.defaultProfile) > rank(limit)) {
+      return limit;
+    }
+    return this.defaultProfile;
+  }
+}
+
+// Default-Profil und Obergrenzen aus der Konfiguration (permissions bzw.
+// BRIDGE_PERMISSION_PROFILE und BRIDGE_PERMISSION_LIMITS)
+export const permissionPolicy = new PermissionPolicy(bridgeConfig.global.permissions);
@@ -0,0 +1,129 @@
+/**
+ * ProgressReporter - Leitet Worker-Aktivität als MCP Progress-Notifications weiter
+ *
+ * Lange Claude/Gemini-Läufe sehen für den Orchestrator sonst wie ein Hänger aus.
+ * Wenn der Client im Request ein `_meta.progressToken` mitschickt, sendet der
+ * Reporter `notifications/progress` für Tool-Aufrufe, Datei-Bearbeitungen,
+ * Teil-Ausgaben und in regelmäßigen Abständen einen Heartbeat mit der
+ * verstrichenen Zeit.
+ */
+
+import type {
+  ProgressToken,
+  ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+
+export type WorkerProgressKind = 'queued' | 'retry' | 'tool_use' | 'file_edit' | 'text' | 'heartbeat';
+
+export interface WorkerProgressEvent {
+  kind: WorkerProgressKind;
+  /** Menschenlesbare Beschreibung der Aktivität */
+  message: string;
+  /** Betroffene Datei (bei file_edit) */
+  filePath?: string;
+}
+
+/** Callback, den die Wrapper während der Ausführung aufrufen */
+export type ProgressCallback = (event: WorkerProgressEvent) => void;
+
+export interface ProgressReporterOptions {
+  /** Bezeichnung des Workers im Nachrichtentext, z.B. "claude" */
+  label: string;
+  /** Abstand der Heartbeats in ms (default: 15000) */
+  heartbeatInterval?: number;
+  /** Maximale Länge von Teil-Ausgaben in einer Notification (default: 200) */
+  maxMessageLength?: number;
+}
+
+/** Minimaler Ausschnitt aus RequestHandlerExtra, den der Reporter braucht */
+interface NotificationSender {
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}
+
+export class ProgressReporter {
+  private progress = 0;
+  private readonly startTime = Date.now();
+  private heartbeatId?: ReturnType<typeof setInterval>;
+  private readonly heartbeatInterval: number;
+  private readonly maxMessageLength: number;
+
+  constructor(
+    private readonly sender: NotificationSender,
+    private readonly progressToken: ProgressToken,
+    private readonly options: ProgressReporterOptions
+  ) {
+    this.heartbeatInterval = options.heartbeatInterval ?? 15000;
+    this.maxMessageLength = options.maxMessageLength ?? 200;
+  }
+
+  /**
+   * Startet den Heartbeat.
+   */
+  start(): void {
+    this.heartbeatId = setInterval(() => {
+      this.report({ kind: 'heartbeat', message: 'läuft noch' });
+    }, this.heartbeatInterval);
+  }
+
+  /**
+   * Stoppt den Heartbeat. Danach werden keine Notifications mehr gesendet.
+   */
+  stop(): void {
+    if (this.heartbeatId) {
+      clearInterval(this.heartbeatId);
+      this.heartbeatId = undefined;
+    }
+    this.progress = -1;
+  }
+
+  /**
+   * Sendet eine Notification für ein Worker-Event.
+   * Fehler beim Senden werden ignoriert - Progress ist best effort.
+   */
+  report(event: WorkerProgressEvent): void {
+    if (this.progress < 0) return;
+    this.progress += 1;
+
+    const elapsedSec = Math.round((Date.now() - this.startTime) / 1000);
+    const text = event.message.replace(/\s+/g, ' ').trim();
+    const message = text.length > this.maxMessageLength
+      ? `${text.slice(0, this.maxMessageLength)}…`
+      : text;
+
+    this.sender
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken: this.progressToken,
+          progress: this.progress,
+          message: `[${this.options.label} ${elapsedSec}s] ${event.kind}: ${message}`,
+        },
+      })
+      .catch(() => {
+        // Client hat die Verbindung evtl. schon geschlossen - ignorieren
+      });
+  }
+
+  /**
+   * Callback für die Wrapper-Optionen.
+   */
+  get callback(): ProgressCallback {
+    return (event) => this.report(event);
+  }
+}
+
+/**
+ * Erstellt einen Reporter, falls der Request ein progressToken enthält.
+ *
+ * @returns Gestarteter Reporter oder undefined ohne progressToken
+ */
+export function createProgressReporter(
+  sender: NotificationSender,
+  progressToken: ProgressToken | undefined,
+  options: ProgressReporterOptions
+): ProgressReporter | undefined {
+  if (progressToken === undefined) return undefined;
+  const reporter = new ProgressReporter(sender, progressToken, options);
+  reporter.start();
+  return reporter;
+}
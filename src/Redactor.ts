@@ -0,0 +1,232 @@
+/**
+ * Redactor - Entfernt Secrets aus Instructions, Ausgaben und Logs
+ *
+ * Worker geben gelegentlich API-Keys, Tokens oder .env-Inhalte aus. Bevor
+ * Text eine Senke erreicht, ersetzt der Redactor Treffer durch
+ * [REDACTED:<detektor>]. Senken:
+ * - log:        Audit-Log
+ * - toolResult: Ergebnis an den orchestrierenden Client (inkl. Progress)
+ * - transcript: Session-Verlauf
+ *
+ * Neben den eingebauten Detektoren können eigene Muster konfiguriert werden.
+ */
+
+import { bridgeConfig } from './BridgeConfig.js';
+import type { ChangeReport } from './ChangeTracker.js';
+import type { ProgressCallback } from './ProgressReporter.js';
+import type { WorkerFailure } from './WorkerErrors.js';
+
+export const REDACTION_SINKS = ['log', 'toolResult', 'transcript'] as const;
+
+export type RedactionSink = typeof REDACTION_SINKS[number];
+
+/** Anzahl Ersetzungen pro Detektor */
+export type RedactionCounts = Record<string, number>;
+
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+  total: number;
+}
+
+export interface RedactionPattern {
+  name: string;
+  /** Regulärer Ausdruck als String */
+  pattern: string;
+  /** Regex-Flags (g wird immer ergänzt) */
+  flags?: string;
+}
+
+export interface RedactorOptions {
+  /** Senken, in denen redigiert wird (default: alle) */
+  sinks?: Partial<Record<RedactionSink, boolean>>;
+  /** Zusätzliche Muster */
+  patterns?: RedactionPattern[];
+  /** Eingebaute Detektoren, die abgeschaltet werden, z.B. ["high_entropy"] */
+  disabledDetectors?: string[];
+}
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  /** Nummer der Gruppe, die ersetzt wird (default: ganzer Treffer) */
+  valueGroup?: number;
+  /** Zusätzliche Prüfung des Treffers */
+  accept?: (value: string) => boolean;
+}
+
+/** Reihenfolge ist wichtig: spezifische Formate vor generischen */
+const BUILT_IN_DETECTORS: Detector[] = [
+  {
+    name: 'private_key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: 'aws_access_key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'anthropic_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai_key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'google_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'slack_token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    // KEY=wert in .env-Dateien und Shell-Ausgaben - nur der Wert wird ersetzt.
+    // Nur Großbuchstaben-Keys, damit Code wie `apiToken = getToken()` unberührt bleibt.
+    name: 'secret_assignment',
+    pattern: /\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|PRIVATE_KEY|ACCESS_KEY)[A-Z0-9_]*\s*[=:]\s*["']?([^\s"']{6,})/g,
+    valueGroup: 1,
+  },
+  {
+    name: 'high_entropy',
+    pattern: /[A-Za-z0-9+=_-]{32,}/g,
+    accept: isHighEntropy,
+  },
+];
+
+/**
+ * Zufällige Tokens: hohe Shannon-Entropie und gemischte Zeichenklassen.
+ * Hex-Strings (z.B. Commit-Hashes) liegen unter der Schwelle.
+ */
+function isHighEntropy(value: string): boolean {
+  if (!/[0-9]/.test(value) || !/[a-z]/.test(value) || !/[A-Z]/.test(value)) return false;
+
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy >= 4.2;
+}
+
+export class Redactor {
+  private readonly detectors: Detector[];
+  private readonly sinks: Record<RedactionSink, boolean>;
+
+  constructor(options: RedactorOptions = {}) {
+    const disabled = new Set(options.disabledDetectors ?? []);
+    const custom = (options.patterns ?? []).map((p): Detector => ({
+      name: p.name,
+      pattern: new RegExp(p.pattern, p.flags?.includes('g') ? p.flags : `${p.flags ?? ''}g`),
+    }));
+
+    // Eigene Muster zuerst, damit sie nicht von generischen Detektoren überdeckt werden
+    this.detectors = [...custom, ...BUILT_IN_DETECTORS.filter((d) => !disabled.has(d.name))];
+    this.sinks = { log: true, toolResult: true, transcript: true, ...options.sinks };
+  }
+
+  isEnabled(sink: RedactionSink): boolean {
+    return this.sinks[sink];
+  }
+
+  /**
+   * Redigiert Text für eine Senke. Ist die Senke deaktiviert, bleibt er unverändert.
+   */
+  redact(text: string, sink: RedactionSink): RedactionResult {
+    const counts: RedactionCounts = {};
+    if (!this.sinks[sink] || !text) return { text, counts, total: 0 };
+
+    let result = text;
+    for (const detector of this.detectors) {
+      detector.pattern.lastIndex = 0;
+      result = result.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+        const value = detector.valueGroup ? String(groups[detector.valueGroup - 1] ?? '') : match;
+        // Bereits ersetzte Stellen nicht erneut zählen
+        if (!value || value.includes('[REDACTED:')) return match;
+        if (detector.accept && !detector.accept(value)) return match;
+
+        counts[detector.name] = (counts[detector.name] ?? 0) + 1;
+        const replacement = `[REDACTED:${detector.name}]`;
+        return detector.valueGroup ? match.replace(value, replacement) : replacement;
+      });
+    }
+
+    const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    return { text: result, counts, total };
+  }
+
+  /**
+   * Redigiert ein Worker-Ergebnis für die toolResult-Senke: Ausgabe,
+   * finale Antwort, Fehlermeldung, geänderte Dateipfade und Patch. Die
+   * Zählung landet in result.redactions.
+   */
+  redactResult<T extends {
+    output: string;
+    finalMessage?: string;
+    failure?: WorkerFailure;
+    filesTouched?: string[];
+    changes?: ChangeReport;
+    redactions?: RedactionCounts;
+  }>(result: T): T {
+    if (!this.sinks.toolResult) return result;
+
+    const counts: RedactionCounts = { ...result.redactions };
+    const apply = (text: string): string => {
+      const redacted = this.redact(text, 'toolResult');
+      mergeCounts(counts, redacted.counts);
+      return redacted.text;
+    };
+
+    const redacted: T = { ...result, output: apply(result.output) };
+    if (result.finalMessage !== undefined) {
+      redacted.finalMessage = apply(result.finalMessage);
+    }
+    if (result.failure) {
+      // Die Meldung stammt teils aus stderr und kann Tokens enthalten
+      redacted.failure = { ...result.failure, message: apply(result.failure.message) };
+    }
+    if (result.filesTouched) {
+      redacted.filesTouched = result.filesTouched.map(apply);
+    }
+    if (result.changes) {
+      redacted.changes = this.redactChanges(result.changes, counts);
+    }
+    if (Object.keys(counts).length) {
+      redacted.redactions = counts;
+    }
+    return redacted;
+  }
+
+  /**
+   * Redigiert einen Änderungsbericht für die toolResult-Senke: Dateipfade und Patch.
+   *
+   * @param counts - Zählung, in die die Ersetzungen addiert werden
+   */
+  redactChanges(changes: ChangeReport, counts: RedactionCounts = {}): ChangeReport {
+    if (!this.sinks.toolResult) return changes;
+
+    const apply = (text: string): string => {
+      const redacted = this.redact(text, 'toolResult');
+      mergeCounts(counts, redacted.counts);
+      return redacted.text;
+    };
+    return {
+      ...changes,
+      files: changes.files.map((file) => ({ ...file, path: apply(file.path) })),
+      ...(changes.patch !== undefined ? { patch: apply(changes.patch) } : {}),
+    };
+  }
+
+  /**
+   * Hüllt einen Progress-Callback ein, sodass Meldungen redigiert ankommen.
+   */
+  redactProgress(callback: ProgressCallback | undefined): ProgressCallback | undefined {
+    if (!callback || !this.sinks.toolResult) return callback;
+    return (event) => callback({ ...event, message: this.redact(event.message, 'toolResult').text });
+  }
+}
+
+/**
+ * Addiert Zählungen aus source in target.
+ */
+export function mergeCounts(target: RedactionCounts, source: RedactionCounts): RedactionCounts {
+  for (const [name, count] of Object.entries(source)) {
+    target[name] = (target[name] ?? 0) + count;
+  }
+  return target;
+}
+
+// Muster und Senken aus der Konfiguration (redaction bzw. BRIDGE_REDACTION)
+export const redactor = new Redactor(bridgeConfig.global.redaction);
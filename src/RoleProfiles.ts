@@ -0,0 +1,153 @@
+/**
+ * RoleProfiles - Benannte Rollen mit System-Prompt und Ergebnisformat
+ *
+ * Eine Rolle gibt dem Worker ständige Anweisungen mit: wofür er zuständig
+ * ist, woran er sich hält und wie er das Ergebnis zurückmeldet. Zusammen mit
+ * der Projekt-Preamble (.bridge.json) entsteht daraus der System-Prompt:
+ * - Claude:  --append-system-prompt (ergänzt den eingebauten System-Prompt)
+ * - Gemini:  als Preamble vor der Instruction (die CLI hat keinen Schalter dafür)
+ * - CommandWorker: systemPromptArgs, sonst als Preamble
+ *
+ * Eine Rolle kann außerdem das Rechte-Profil nach oben begrenzen: reviewer
+ * und planner laufen immer read-only, egal was Aufrufer oder Default verlangen.
+ *
+ * Eingebaut: implementer, reviewer, tester, planner. Die BridgeConfig kann
+ * eigene Rollen ergänzen oder eingebaute ersetzen (roles) und eine
+ * Default-Rolle setzen (defaultRole, global oder pro Projekt).
+ */
+
+import { bridgeConfig, BridgeConfigError, type PermissionProfileName, type RoleDefinition } from './BridgeConfig.js';
+
+export interface RoleProfile {
+  name: string;
+  description: string;
+  systemPrompt: string;
+  resultFormat?: string;
+  maxPermissionProfile?: PermissionProfileName;
+}
+
+export interface ComposedPrompt {
+  /** Verwendete Rolle (explizit oder Default) */
+  role?: string;
+  /** Rolle, Ergebnisformat, Projekt-Preamble und zusätzliche Anweisungen */
+  systemPrompt?: string;
+  /** Obergrenze der Rolle für das Rechte-Profil */
+  maxPermissionProfile?: PermissionProfileName;
+}
+
+const BUILTIN_ROLES: Record<string, RoleDefinition> = {
+  implementer: {
+    description: 'Setzt Aufgaben direkt im Code um',
+    systemPrompt: `Du bist IMPLEMENTER in einem Team aus Coding-Agenten.
+- Setze die Aufgabe vollständig um, ohne Rückfragen, solange sie eindeutig ist.
+- Halte dich an Stil, Struktur und Konventionen des bestehenden Codes.
+- Ändere nur, was die Aufgabe verlangt; keine ungefragten Refactorings.
+- Prüfe dein Ergebnis (Build, Typecheck, vorhandene Tests), bevor du abschließt.`,
+    resultFormat: `Beende deine Antwort mit:
+ZUSAMMENFASSUNG: <ein bis drei Sätze>
+GEÄNDERTE DATEIEN: <Liste>
+PRÜFUNG: <ausgeführte Befehle und Ergebnis>
+OFFENE PUNKTE: <Liste oder "keine">`,
+  },
+  reviewer: {
+    description: 'Prüft Code und Änderungen, ohne sie zu verändern',
+    systemPrompt: `Du bist REVIEWER in einem Team aus Coding-Agenten.
+- Prüfe Korrektheit, Randfälle, Fehlerbehandlung, Sicherheit und Lesbarkeit.
+- Ändere keine Dateien; beschreibe Probleme so konkret, dass sie behebbar sind.
+- Unterscheide echte Fehler von Geschmacksfragen.`,
+    resultFormat: `Beende deine Antwort mit:
+URTEIL: APPROVE oder CHANGES_REQUESTED
+BEFUNDE: <Liste "schwere | datei:zeile | problem | vorschlag">, schwere = blocker, major oder minor`,
+    maxPermissionProfile: 'read-only',
+  },
+  tester: {
+    description: 'Schreibt und führt Tests aus',
+    systemPrompt: `Du bist TESTER in einem Team aus Coding-Agenten.
+- Schreibe Tests im Stil und mit den Werkzeugen des Projekts.
+- Decke Normalfall, Randfälle und Fehlerfälle ab.
+- Führe die Tests aus; ändere Produktivcode nur, wenn die Aufgabe es verlangt.`,
+    resultFormat: `Beende deine Antwort mit:
+TESTS: <neue oder geänderte Tests>
+ERGEBNIS: <bestanden/fehlgeschlagen mit Anzahl>
+GEFUNDENE FEHLER: <Liste oder "keine">`,
+  },
+  planner: {
+    description: 'Zerlegt Aufgaben in umsetzbare Schritte',
+    systemPrompt: `Du bist PLANNER in einem Team aus Coding-Agenten.
+- Analysiere Aufgabe und Codebasis, bevor du planst.
+- Zerlege die Aufgabe in kleine, einzeln prüfbare Schritte.
+- Ändere keine Dateien.`,
+    resultFormat: `Beende deine Antwort mit:
+PLAN: <nummerierte Schritte mit betroffenen Dateien>
+RISIKEN: <Liste oder "keine">
+OFFENE FRAGEN: <Liste oder "keine">`,
+    maxPermissionProfile: 'read-only',
+  },
+};
+
+/**
+ * Wird geworfen, wenn eine unbekannte Rolle angefordert wird.
+ */
+export class RoleProfileError extends Error {
+  constructor(message: string, readonly role: string) {
+    super(message);
+    this.name = 'RoleProfileError';
+  }
+}
+
+export class RoleProfiles {
+  private readonly roles: Record<string, RoleDefinition>;
+
+  constructor(custom: Record<string, RoleDefinition> = {}) {
+    this.roles = { ...BUILTIN_ROLES, ...custom };
+  }
+
+  get(name: string): RoleProfile | undefined {
+    const role = this.roles[name];
+    return role ? { name, ...role } : undefined;
+  }
+
+  names(): string[] {
+    return Object.keys(this.roles);
+  }
+
+  list(): RoleProfile[] {
+    return this.names().map((name) => ({ name, ...this.roles[name] }));
+  }
+
+  /**
+   * Baut den System-Prompt für einen Task: Rolle (explizit oder Default des
+   * Verzeichnisses), deren Ergebnisformat, Projekt-Preamble und zusätzliche
+   * Anweisungen des Aufrufers.
+   *
+   * @throws RoleProfileError wenn die angeforderte Rolle unbekannt ist
+   * @throws BridgeConfigError wenn die Projektkonfiguration ungültig ist oder eine unbekannte Default-Rolle nennt
+   */
+  compose(requested: string | undefined, workingDirectory: string, additional?: string): ComposedPrompt {
+    const roleName = requested ?? bridgeConfig.defaultRole(workingDirectory);
+    const role = roleName ? this.get(roleName) : undefined;
+    if (roleName && !role) {
+      const message = `Unbekannte Rolle "${roleName}" (verfügbar: ${this.names().join(', ')})`;
+      if (requested) throw new RoleProfileError(message, roleName);
+      const file = bridgeConfig.findProjectFile(workingDirectory) ?? 'Bridge-Konfiguration';
+      throw new BridgeConfigError(file, [`defaultRole: ${message}`]);
+    }
+
+    const parts: string[] = [];
+    if (role) {
+      parts.push(role.systemPrompt);
+      if (role.resultFormat) parts.push(`ERGEBNISFORMAT:\n${role.resultFormat}`);
+    }
+    const preamble = bridgeConfig.projectPreamble(workingDirectory);
+    if (preamble) parts.push(`PROJEKT-KONVENTIONEN:\n${preamble}`);
+    if (additional) parts.push(additional);
+
+    return {
+      role: role?.name,
+      systemPrompt: parts.length > 0 ? parts.join('\n\n') : undefined,
+      maxPermissionProfile: role?.maxPermissionProfile,
+    };
+  }
+}
+
+export const roleProfiles = new RoleProfiles(bridgeConfig.roles);
@@ -0,0 +1,412 @@
+/**
+ * SessionStore - Gemeinsame, nebenläufigkeitssichere Session-Ablage
+ *
+ * Ersetzt die doppelten Session-Methoden in ClaudeWrapper und GeminiWrapper.
+ * Alle Sessions liegen weiterhin in ~/.claude/bridge-sessions, aber:
+ * - Schreiben ist atomar (temporäre Datei + rename)
+ * - Read-Modify-Write läuft unter einer Lock-Datei, damit mehrere
+ *   Bridge-Instanzen gleichzeitig arbeiten können
+ * - Datensätze tragen eine Schema-Version und werden beim Laden migriert
+ * - Sessions, die länger als die TTL unbenutzt sind, verfallen
+ * - Pfad-Schlüssel werden normalisiert, aber nur auf Windows kleingeschrieben,
+ *   damit /Repo und /repo auf case-sensitiven Dateisystemen nicht kollidieren
+ * - Pro Verzeichnis kann es mehrere benannte Sessions geben (z.B. "feature-a",
+ *   "bugfix"); ohne Namen wird die Session "default" verwendet
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { bridgeConfig } from './BridgeConfig.js';
+
+export const SESSION_SCHEMA_VERSION = 3;
+
+export const DEFAULT_SESSION_NAME = 'default';
+
+/** Erlaubte Session-Namen (werden Teil des Schlüssels) */
+export const SESSION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+/** Name eines registrierten Workers, z.B. "claude" (siehe WorkerRegistry) */
+export type SessionWorker = string;
+
+export interface SessionRecord {
+  schemaVersion: number;
+  worker: SessionWorker;
+  /** Normalisiertes Arbeitsverzeichnis */
+  workingDirectory: string;
+  /** Name der Session innerhalb des Verzeichnisses */
+  name: string;
+  /** Freie Schlagworte zum Wiederfinden */
+  tags: string[];
+  /** Name der Session, von der diese abgezweigt wurde */
+  forkedFrom?: string;
+  /** Session-ID der CLI (Gemini nutzt --resume latest und hat keine) */
+  sessionId?: string;
+  /** Zuletzt verwendetes Modell */
+  model?: string;
+  createdAt: string;
+  lastUsed: string;
+  taskCount: number;
+}
+
+export interface SessionStoreOptions {
+  /** Ablageverzeichnis (default: paths.sessions der BridgeConfig, sonst ~/.claude/bridge-sessions) */
+  directory?: string;
+  /** Sessions verfallen nach dieser Leerlaufzeit in ms (default: 7 Tage) */
+  ttlMs?: number;
+  /** Maximale Wartezeit auf eine Lock-Datei in ms (default: 5000) */
+  lockTimeoutMs?: number;
+  /** Ältere Lock-Dateien gelten als verwaist (default: 30000) */
+  staleLockMs?: number;
+}
+
+export interface RecordTaskInput {
+  /** Session-ID laut CLI */
+  sessionId?: string;
+  /** Wurde eine bestehende Session fortgesetzt? (sonst beginnt taskCount bei 1) */
+  continued: boolean;
+  /** Ersetzt die Tags (sonst bleiben die bisherigen erhalten) */
+  tags?: string[];
+  /** Name der Quell-Session bei einem Fork */
+  forkedFrom?: string;
+  /** Im Task verwendetes Modell */
+  model?: string;
+}
+
+export interface SessionListFilter {
+  worker?: SessionWorker;
+  workingDirectory?: string;
+  tag?: string;
+}
+
+export class SessionStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionStoreError';
+  }
+}
+
+/**
+ * Dateipräfix pro Worker. Claude behält das bisherige "session-",
+ * alle anderen heißen "<worker>-session-" (wie bisher schon Gemini).
+ */
+function filePrefix(worker: SessionWorker): string {
+  return worker === 'claude' ? 'session-' : `${worker}-session-`;
+}
+
+/**
+ * Worker einer Session-Datei anhand des Präfixes.
+ */
+function ownerOf(fileName: string): SessionWorker | null {
+  const match = /^(.+)-session-[0-9a-f]+\.json$/.exec(fileName);
+  if (match) return match[1];
+  return fileName.startsWith('session-') ? 'claude' : null;
+}
+
+export class SessionStore {
+  private readonly directory: string;
+  private readonly ttlMs: number;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.directory = options.directory ?? bridgeConfig.path('sessions');
+    this.ttlMs = options.ttlMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 30000;
+  }
+
+  /**
+   * Normalisiert ein Arbeitsverzeichnis zum Session-Schlüssel.
+   */
+  static normalizePath(workingDirectory: string): string {
+    const resolved = path.resolve(workingDirectory);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+  }
+
+  /**
+   * Lädt die Session eines Workers für ein Verzeichnis.
+   * Abgelaufene Sessions werden gelöscht; alte Dateinamen/Schemas migriert.
+   */
+  async load(
+    worker: SessionWorker,
+    workingDirectory: string,
+    name: string = DEFAULT_SESSION_NAME
+  ): Promise<SessionRecord | null> {
+    const file = this.fileFor(worker, workingDirectory, name);
+    const record = this.readRecord(file, worker)
+      ?? (name === DEFAULT_SESSION_NAME ? await this.migrateLegacyFile(worker, workingDirectory) : null);
+    if (!record) return null;
+
+    if (this.isExpired(record)) {
+      await this.withLock(file, async () => this.removeFile(file));
+      return null;
+    }
+    return record;
+  }
+
+  /**
+   * Verbucht einen erfolgreichen Task (Read-Modify-Write unter Lock).
+   *
+   * @returns Der gespeicherte Datensatz
+   */
+  async recordTask(
+    worker: SessionWorker,
+    workingDirectory: string,
+    name: string,
+    input: RecordTaskInput
+  ): Promise<SessionRecord> {
+    const file = this.fileFor(worker, workingDirectory, name);
+    this.ensureDirectory();
+
+    return this.withLock(file, async () => {
+      const current = this.readRecord(file, worker);
+      const active = current && !this.isExpired(current) ? current : null;
+      const now = new Date().toISOString();
+      const continued = input.continued && active !== null;
+
+      const record: SessionRecord = {
+        schemaVersion: SESSION_SCHEMA_VERSION,
+        worker,
+        workingDirectory: SessionStore.normalizePath(workingDirectory),
+        name,
+        tags: input.tags ?? active?.tags ?? [],
+        forkedFrom: input.forkedFrom ?? (continued ? active.forkedFrom : undefined),
+        sessionId: input.sessionId ?? (continued ? active.sessionId : undefined),
+        model: input.model ?? (continued ? active.model : undefined),
+        createdAt: continued ? active.createdAt : now,
+        lastUsed: now,
+        taskCount: continued ? active.taskCount + 1 : 1,
+      };
+      this.writeAtomic(file, record);
+      return record;
+    });
+  }
+
+  /**
+   * Löscht eine benannte Session eines Workers für ein Verzeichnis.
+   *
+   * @returns true wenn eine Session existierte
+   */
+  async clear(
+    worker: SessionWorker,
+    workingDirectory: string,
+    name: string = DEFAULT_SESSION_NAME
+  ): Promise<boolean> {
+    const file = this.fileFor(worker, workingDirectory, name);
+    return this.withLock(file, async () => {
+      const removed = this.removeFile(file);
+      if (name !== DEFAULT_SESSION_NAME) return removed;
+      return this.removeFile(this.legacyFileFor(worker, workingDirectory)) || removed;
+    });
+  }
+
+  /**
+   * Listet alle nicht abgelaufenen Sessions, optional gefiltert.
+   * Abgelaufene Sessions werden dabei entfernt.
+   */
+  async list(filter: SessionListFilter = {}): Promise<SessionRecord[]> {
+    const directory = filter.workingDirectory ? SessionStore.normalizePath(filter.workingDirectory) : undefined;
+    const records: SessionRecord[] = [];
+
+    for (const file of this.sessionFiles()) {
+      const owner = ownerOf(path.basename(file));
+      if (!owner || (filter.worker && owner !== filter.worker)) continue;
+
+      const record = this.readRecord(file, owner);
+      if (!record) continue;
+      if (this.isExpired(record)) {
+        await this.withLock(file, async () => this.removeFile(file));
+        continue;
+      }
+      if (directory && record.workingDirectory !== directory) continue;
+      if (filter.tag && !record.tags.includes(filter.tag)) continue;
+      records.push(record);
+    }
+
+    return records.sort((a, b) => b.lastUsed.localeCompare(a.lastUsed));
+  }
+
+  /**
+   * Die default-Session behält den Dateinamen aus Schema-Version 2.
+   */
+  private fileFor(worker: SessionWorker, workingDirectory: string, name: string): string {
+    if (!SESSION_NAME_PATTERN.test(name)) {
+      throw new SessionStoreError(`Ungültiger Session-Name: ${name}`);
+    }
+    const key = SessionStore.normalizePath(workingDirectory) + (name === DEFAULT_SESSION_NAME ? '' : `\0${name}`);
+    const hash = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+    return path.join(this.directory, `${filePrefix(worker)}${hash}.json`);
+  }
+
+  /**
+   * Dateiname vor Schema-Version 2 (MD5 über den kleingeschriebenen Pfad).
+   */
+  private legacyFileFor(worker: SessionWorker, workingDirectory: string): string {
+    const hash = crypto.createHash('md5').update(workingDirectory.toLowerCase()).digest('hex').slice(0, 12);
+    return path.join(this.directory, `${filePrefix(worker)}${hash}.json`);
+  }
+
+  /**
+   * Übernimmt eine Session aus einer Datei mit altem Namensschema.
+   */
+  private async migrateLegacyFile(worker: SessionWorker, workingDirectory: string): Promise<SessionRecord | null> {
+    const legacyFile = this.legacyFileFor(worker, workingDirectory);
+    const record = this.readRecord(legacyFile, worker);
+    if (!record) return null;
+
+    const file = this.fileFor(worker, workingDirectory, DEFAULT_SESSION_NAME);
+    await this.withLock(file, async () => {
+      this.writeAtomic(file, record);
+      this.removeFile(legacyFile);
+    });
+    return record;
+  }
+
+  /**
+   * Liest und migriert einen Datensatz. Kaputte Dateien werden gemeldet.
+   */
+  private readRecord(file: string, worker: SessionWorker): SessionRecord | null {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[bridge] Session-Datei ${file} nicht lesbar:`, (error as Error).message);
+      }
+      return null;
+    }
+
+    try {
+      return SessionStore.migrate(JSON.parse(raw) as Record<string, unknown>, worker);
+    } catch (error) {
+      console.error(`[bridge] Session-Datei ${file} ist beschädigt:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Hebt ältere Datensätze auf die aktuelle Schema-Version.
+   * v1: { sessionId?, workingDirectory, lastUsed, taskCount } ohne Version.
+   * v2: wie v3, aber ohne Namen und Tags (eine Session pro Verzeichnis).
+   */
+  private static migrate(data: Record<string, unknown>, worker: SessionWorker): SessionRecord {
+    const version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+    if (version > SESSION_SCHEMA_VERSION) {
+      throw new SessionStoreError(`Unbekannte Schema-Version ${version}`);
+    }
+    if (typeof data.workingDirectory !== 'string' || typeof data.lastUsed !== 'string') {
+      throw new SessionStoreError('Pflichtfelder fehlen');
+    }
+
+    if (version === 1) {
+      return {
+        schemaVersion: SESSION_SCHEMA_VERSION,
+        worker,
+        workingDirectory: SessionStore.normalizePath(data.workingDirectory),
+        sessionId: typeof data.sessionId === 'string' ? data.sessionId : undefined,
+        name: DEFAULT_SESSION_NAME,
+        tags: [],
+        createdAt: data.lastUsed,
+        lastUsed: data.lastUsed,
+        taskCount: typeof data.taskCount === 'number' ? data.taskCount : 0,
+      };
+    }
+    if (version === 2) {
+      return { ...(data as unknown as SessionRecord), schemaVersion: SESSION_SCHEMA_VERSION, name: DEFAULT_SESSION_NAME, tags: [] };
+    }
+    return data as unknown as SessionRecord;
+  }
+
+  private isExpired(record: SessionRecord): boolean {
+    return Date.now() - new Date(record.lastUsed).getTime() > this.ttlMs;
+  }
+
+  private sessionFiles(): string[] {
+    try {
+      return fs.readdirSync(this.directory)
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => path.join(this.directory, f));
+    } catch {
+      return [];
+    }
+  }
+
+  private ensureDirectory(): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Schreibt über eine temporäre Datei und rename - Leser sehen nie halbe Dateien.
+   */
+  private writeAtomic(file: string, record: SessionRecord): void {
+    const tempFile = `${file}.${process.pid}.${crypto.randomUUID().slice(0, 8)}.tmp`;
+    try {
+      fs.writeFileSync(tempFile, JSON.stringify(record, null, 2));
+      fs.renameSync(tempFile, file);
+    } catch (error) {
+      this.removeFile(tempFile);
+      throw new SessionStoreError(`Session-Datei ${file} konnte nicht geschrieben werden: ${(error as Error).message}`);
+    }
+  }
+
+  private removeFile(file: string): boolean {
+    try {
+      fs.unlinkSync(file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Führt fn unter einer Lock-Datei aus (prozessübergreifend).
+   * Verwaiste Locks (älter als staleLockMs) werden übernommen.
+   *
+   * @throws SessionStoreError wenn der Lock nicht rechtzeitig frei wird
+   */
+  private async withLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+    const lockFile = `${file}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    this.ensureDirectory();
+
+    for (;;) {
+      try {
+        const handle = await fs.promises.open(lockFile, 'wx');
+        await handle.writeFile(`${process.pid}\n${new Date().toISOString()}`);
+        await handle.close();
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new SessionStoreError(`Lock ${lockFile} konnte nicht angelegt werden: ${(error as Error).message}`);
+        }
+        if (this.isStaleLock(lockFile)) {
+          this.removeFile(lockFile);
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new SessionStoreError(`Zeitüberschreitung beim Warten auf ${lockFile}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      this.removeFile(lockFile);
+    }
+  }
+
+  private isStaleLock(lockFile: string): boolean {
+    try {
+      return Date.now() - fs.statSync(lockFile).mtimeMs > this.staleLockMs;
+    } catch {
+      // Lock ist inzwischen verschwunden - sofort neu versuchen
+      return true;
+    }
+  }
+}
+
+// Gemeinsame Instanz für alle Worker, TTL über sessionTtlMs bzw. BRIDGE_SESSION_TTL_MS
+export const sessionStore = new SessionStore({ ttlMs: bridgeConfig.global.sessionTtlMs });
@@ -0,0 +1,144 @@
+/**
+ * StructuredOutput - Antworten der Worker gegen ein JSON Schema prüfen
+ *
+ * Der Aufrufer gibt ein outputSchema (JSON Schema, draft-07) mit. Die Bridge
+ * hängt der Instruction die Anweisung an, das Ergebnis als JSON-Block in
+ * diesem Format zu liefern, zieht das JSON aus der Antwort und validiert es.
+ *
+ * JSON-EXTRAKTION (in dieser Reihenfolge):
+ * 1. letzter ```json-Block (oder ```-Block), der sich parsen lässt
+ * 2. die ganze Antwort
+ * 3. der Bereich vom ersten "{" bis zum letzten "}" bzw. vom ersten "[" bis
+ *    zur letzten "]" - der längere Bereich zuerst
+ *
+ * Schlägt die Prüfung fehl, fragt der Aufrufer mit repairInstruction in
+ * derselben Session nach (siehe executeWithOutputSchema in index.ts).
+ * "format"-Angaben im Schema werden nicht geprüft.
+ */
+
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+
+/** Nachfragen nach einer ungültigen Antwort (ohne den ersten Versuch) */
+export const DEFAULT_OUTPUT_RETRIES = 2;
+export const MAX_OUTPUT_RETRIES = 5;
+
+/** Gekürzte Vorschau der ungültigen Antwort für Worker ohne Sessions */
+const MAX_REPLY_PREVIEW = 20000;
+
+/**
+ * Wird geworfen, wenn das übergebene outputSchema selbst kein gültiges JSON Schema ist.
+ */
+export class OutputSchemaError extends Error {
+  constructor(message: string, readonly issues: string[]) {
+    super(message);
+    this.name = 'OutputSchemaError';
+  }
+}
+
+export interface OutputCheck {
+  valid: boolean;
+  /** Validiertes Objekt (nur bei valid) */
+  value?: unknown;
+  /** Gefundene Probleme, z.B. "/tests/0/name: must be string" */
+  errors: string[];
+}
+
+export interface OutputValidation extends OutputCheck {
+  /** Anzahl der geprüften Antworten inklusive Nachfragen */
+  attempts: number;
+}
+
+export class StructuredOutput {
+  private readonly validator: ValidateFunction;
+
+  /**
+   * @throws OutputSchemaError wenn das Schema nicht kompiliert werden kann
+   */
+  constructor(readonly schema: Record<string, unknown>) {
+    // Eigene Instanz pro Schema: Ajv cached kompilierte Schemas sonst unbegrenzt
+    const ajv = new Ajv({ allErrors: true, strict: false, validateFormats: false });
+    try {
+      this.validator = ajv.compile(schema);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new OutputSchemaError(`Ungültiges outputSchema: ${message}`, [message]);
+    }
+  }
+
+  /**
+   * Hängt der Instruction die Format-Anweisung an.
+   */
+  instruction(task: string): string {
+    return `${task}
+
+---
+
+ANTWORTFORMAT: Beende deine Antwort mit genau einem \`\`\`json-Block, der diesem JSON Schema entspricht:
+\`\`\`json
+${JSON.stringify(this.schema, null, 2)}
+\`\`\`
+Der Block muss gültiges JSON sein (keine Kommentare, keine Platzhalter).`;
+  }
+
+  /**
+   * Nachfrage nach einer ungültigen Antwort. Ohne Session (previousReply
+   * gesetzt) enthält sie die vorige Antwort, da der Worker sie nicht kennt.
+   */
+  repairInstruction(errors: string[], previousReply?: string): string {
+    const reply = previousReply === undefined
+      ? ''
+      : `\n\nDEINE ANTWORT:\n${previousReply.slice(-MAX_REPLY_PREVIEW)}\n`;
+    return `Deine letzte Antwort entspricht nicht dem geforderten JSON Schema.${reply}
+
+FEHLER:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Die Aufgabe selbst ist erledigt - ändere keine Dateien. Antworte nur mit dem korrigierten \`\`\`json-Block gemäß diesem Schema:
+\`\`\`json
+${JSON.stringify(this.schema, null, 2)}
+\`\`\``;
+  }
+
+  check(reply: string): OutputCheck {
+    const extracted = extractJson(reply);
+    if (!extracted.found) {
+      return { valid: false, errors: ['Kein JSON in der Antwort gefunden'] };
+    }
+    if (this.validator(extracted.value)) {
+      return { valid: true, value: extracted.value, errors: [] };
+    }
+    return { valid: false, errors: (this.validator.errors ?? []).map(formatError) };
+  }
+}
+
+/**
+ * Sucht das Antwort-JSON in freiem Text (siehe Reihenfolge im Modulkommentar).
+ */
+export function extractJson(text: string): { found: boolean; value?: unknown } {
+  const blocks = [...text.matchAll(/```(?:json)?[ \t]*\r?\n([\s\S]*?)```/gi)].map((match) => match[1]);
+  const candidates = [...blocks.reverse(), text];
+
+  // Beide Klammerarten: "Siehe [1]: {...}" soll das Objekt finden
+  const ranges = [['{', '}'], ['[', ']']]
+    .map(([open, close]) => ({ start: text.indexOf(open), end: text.lastIndexOf(close) }))
+    .filter(({ start, end }) => start !== -1 && end > start)
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start));
+  candidates.push(...ranges.map(({ start, end }) => text.slice(start, end + 1)));
+
+  for (const candidate of candidates) {
+    try {
+      return { found: true, value: JSON.parse(candidate.trim()) };
+    } catch {
+      // Nächsten Kandidaten versuchen
+    }
+  }
+  return { found: false };
+}
+
+function formatError(error: ErrorObject): string {
+  const location = error.instancePath || '(Wurzel)';
+  const detail = error.keyword === 'additionalProperties'
+    ? ` (${String((error.params as { additionalProperty?: unknown }).additionalProperty)})`
+    : '';
+  return `${location}: ${error.message ?? error.keyword}${detail}`;
+}
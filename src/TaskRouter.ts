@@ -0,0 +1,239 @@
+/**
+ * TaskRouter - Wählt den Worker für delegate-Aufrufe ohne @-Trigger
+ *
+ * Regeln prüfen Schlüsselwörter, reguläre Ausdrücke, in der Instruction
+ * genannte Dateipfade und die Länge der Instruction. Die erste zutreffende
+ * Regel gewinnt, in dieser Reihenfolge:
+ * 1. routing.rules aus der Projektdatei .bridge.json
+ * 2. routing.rules aus der globalen Konfiguration
+ * 3. eingebaute Regeln - nur ohne konfigurierten defaultWorker, sonst
+ *    mit routing.builtinRules: true (abschaltbar mit false)
+ * Trifft keine zu, geht der Task an den defaultWorker.
+ *
+ * EINGEBAUT: genannte Quelldateien → Claude; Planung, Architektur und
+ * Recherche → Gemini; Debugging, Tests und Implementierung → Claude; sehr
+ * lange Instructions (ab 4000 Zeichen) → Gemini.
+ *
+ * Beispiel (.bridge.json):
+ *
+ *   "routing": {
+ *     "rules": [
+ *       { "name": "docs", "worker": "gemini", "category": "research", "paths": ["docs/**", "*.md"] },
+ *       { "name": "migrations", "worker": "codex", "keywords": ["migration", "migrier*"] }
+ *     ]
+ *   }
+ *
+ * Schlüsselwörter treffen nur ganze Wörter ("plan" trifft nicht "Planet"),
+ * mit * am Ende den Wortanfang ("test*" trifft "Tests" und "testen").
+ * Reguläre Ausdrücke (pattern) gibt es nur in der globalen Konfiguration.
+ */
+
+import * as path from 'path';
+import { bridgeConfig, BridgeConfigError, type RoutingCategory, type RoutingRule } from './BridgeConfig.js';
+import { workerRegistry } from './WorkerRegistry.js';
+
+export interface RouteDecision {
+  worker: string;
+  /** Name der zutreffenden Regel (undefined = defaultWorker) */
+  rule?: string;
+  category?: RoutingCategory;
+  /** Herkunft der Regel: Pfad der Projektdatei, "global" oder "builtin" */
+  source?: string;
+  /** Begründung, z.B. 'Schlüsselwort "architektur"' */
+  reason: string;
+}
+
+/** Registrierte Worker (siehe WorkerRegistry) */
+export interface WorkerLookup {
+  has(name: string): boolean;
+}
+
+const SOURCE_EXTENSIONS = 'ts,tsx,js,jsx,mjs,cjs,py,go,rs,java,kt,cs,cpp,cc,c,h,hpp,rb,php,swift,scala,vue,svelte';
+
+/** Genannte Quelldateien zuerst: "erkläre src/auth.ts" ist Arbeit am Code */
+const BUILTIN_RULES: RoutingRule[] = [
+  {
+    name: 'source-files',
+    worker: 'claude',
+    category: 'implementation',
+    paths: [`*.{${SOURCE_EXTENSIONS}}`],
+  },
+  {
+    name: 'planning',
+    worker: 'gemini',
+    category: 'planning',
+    keywords: ['plan', 'plane', 'planung', 'roadmap', 'konzept*', 'concept', 'strategie', 'strategy', 'meilenstein*', 'milestone*'],
+  },
+  {
+    name: 'architecture',
+    worker: 'gemini',
+    category: 'architecture',
+    keywords: ['architektur', 'architecture', 'entwurf', 'entwirf'],
+  },
+  {
+    name: 'research',
+    worker: 'gemini',
+    category: 'research',
+    keywords: [
+      'recherche', 'recherchiere', 'research', 'vergleiche', 'compare', 'evaluiere', 'evaluate',
+      'untersuche', 'investigate', 'erkläre', 'explain', 'zusammenfassung', 'fasse', 'summarize', 'summary',
+    ],
+  },
+  {
+    name: 'debugging',
+    worker: 'claude',
+    category: 'debugging',
+    keywords: ['debug*', 'bug', 'bugs', 'bugfix', 'fehler', 'fix', 'behebe', 'crash*', 'stacktrace', 'exception', 'error'],
+  },
+  {
+    name: 'testing',
+    worker: 'claude',
+    category: 'testing',
+    keywords: ['test', 'tests', 'teste', 'testen', 'unittest*', 'coverage', 'spec', 'specs'],
+  },
+  {
+    name: 'implementation',
+    worker: 'claude',
+    category: 'implementation',
+    keywords: [
+      'implement*', 'schreibe', 'write', 'refactor*', 'füge', 'add', 'baue', 'build', 'erstelle', 'create',
+      'ändere', 'change', 'migriere', 'migrate',
+    ],
+  },
+  {
+    name: 'long-instruction',
+    worker: 'gemini',
+    category: 'research',
+    minLength: 4000,
+  },
+];
+
+export class TaskRouter {
+  constructor(private readonly workers: WorkerLookup) {}
+
+  /**
+   * Wählt den Worker für eine Instruction ohne Trigger.
+   *
+   * @throws BridgeConfigError wenn die Projektdatei ungültig ist oder eine Regel auf einen unbekannten Worker zeigt
+   */
+  route(instruction: string, workingDirectory?: string): RouteDecision {
+    const cwd = workingDirectory ?? process.cwd();
+    const settings = bridgeConfig.routing(cwd);
+    const fallback = bridgeConfig.defaultWorker(cwd);
+    if (!settings.enabled) {
+      return { worker: fallback, reason: 'Routing deaktiviert' };
+    }
+
+    const rules = [
+      ...settings.rules,
+      ...(settings.builtinRules ? BUILTIN_RULES.map((rule) => ({ ...rule, source: 'builtin' })) : []),
+    ];
+    const paths = extractPaths(instruction);
+
+    for (const rule of rules) {
+      const reason = matchRule(rule, instruction, paths);
+      if (!reason) continue;
+      if (!this.workers.has(rule.worker)) {
+        // Eingebaute Regeln zeigen nur auf claude/gemini, die immer registriert sind
+        throw new BridgeConfigError(rule.source, [`routing.rules "${rule.name}": Worker "${rule.worker}" ist nicht registriert`]);
+      }
+      return { worker: rule.worker, rule: rule.name, category: rule.category, source: rule.source, reason };
+    }
+    return { worker: fallback, reason: 'keine Regel trifft zu' };
+  }
+}
+
+/**
+ * Prüft alle Bedingungen einer Regel und liefert die Begründung (null = trifft nicht zu).
+ */
+function matchRule(rule: RoutingRule, instruction: string, paths: string[]): string | null {
+  const reasons: string[] = [];
+
+  if (rule.keywords) {
+    const keyword = rule.keywords.find((word) => keywordPattern(word).test(instruction));
+    if (!keyword) return null;
+    reasons.push(`Schlüsselwort "${keyword}"`);
+  }
+
+  if (rule.pattern) {
+    if (!new RegExp(rule.pattern, 'i').test(instruction)) return null;
+    reasons.push(`Muster /${rule.pattern}/`);
+  }
+
+  if (rule.paths) {
+    const hit = paths
+      .map((file) => ({ file, glob: rule.paths?.find((glob) => matchesGlob(file, glob)) }))
+      .find((candidate) => candidate.glob !== undefined);
+    if (!hit) return null;
+    reasons.push(`Pfad "${hit.file}" passt zu "${hit.glob}"`);
+  }
+
+  const length = instruction.length;
+  if (rule.minLength !== undefined || rule.maxLength !== undefined) {
+    if (rule.minLength !== undefined && length < rule.minLength) return null;
+    if (rule.maxLength !== undefined && length > rule.maxLength) return null;
+    reasons.push(`Länge ${length} Zeichen`);
+  }
+
+  return reasons.join(', ');
+}
+
+/**
+ * Ganzes Wort, bzw. Wortanfang bei "*" am Ende.
+ */
+function keywordPattern(keyword: string): RegExp {
+  const stem = keyword.endsWith('*');
+  const word = escapeRegExp(stem ? keyword.slice(0, -1) : keyword);
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${word}${stem ? '' : '(?![\\p{L}\\p{N}_])'}`, 'iu');
+}
+
+/**
+ * Dateipfade in der Instruction: Wörter mit "/" oder einer Dateiendung.
+ */
+function extractPaths(instruction: string): string[] {
+  return instruction
+    .split(/\s+/)
+    .map((word) => word.replace(/^[(\["'`<]+/, '').replace(/[)\]"'`>,;:!?.]+$/, '').replace(/\\/g, '/'))
+    .filter((word) => word && !word.includes('://'))
+    .filter((word) => word.includes('/') || /^[\w@.-]*[\w-]\.[A-Za-z][A-Za-z0-9]{0,9}$/.test(word))
+    .map((word) => word.replace(/^\.\//, ''));
+}
+
+/**
+ * Glob-Vergleich mit *, **, ? und {a,b}. Globs ohne "/" prüfen nur den Dateinamen.
+ */
+export function matchesGlob(file: string, glob: string): boolean {
+  const target = glob.includes('/') ? file : path.posix.basename(file);
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" steht auch für kein Verzeichnis
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'i').test(target);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const taskRouter = new TaskRouter(workerRegistry);
@@ -0,0 +1,207 @@
+/**
+ * TranscriptStore - Verlauf aller Tasks pro Session
+ *
+ * Jede Session (Worker + Arbeitsverzeichnis + Session-Name) bekommt eine
+ * JSONL-Datei in ~/.claude/bridge-transcripts mit einem Eintrag pro Task:
+ * Instruction, Worker, Status, Dauer und (gekürzte) Ausgabe. Orchestratoren
+ * können sich so nach einem eigenen Kontext-Reset neu orientieren.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { SessionStore, type SessionWorker } from './SessionStore.js';
+import type { WorkerFailureKind } from './WorkerErrors.js';
+import { mergeCounts, redactor, type RedactionCounts } from './Redactor.js';
+import { bridgeConfig } from './BridgeConfig.js';
+
+export type TranscriptStatus = 'success' | 'failed' | 'cancelled';
+
+export interface TranscriptEntry {
+  id: string;
+  timestamp: string;
+  worker: SessionWorker;
+  workingDirectory: string;
+  sessionName: string;
+  /** Session-ID der CLI (falls bekannt) */
+  sessionId?: string;
+  instruction: string;
+  status: TranscriptStatus;
+  /** Fehlerklasse bei status=failed */
+  failureKind?: WorkerFailureKind;
+  durationMs: number;
+  output: string;
+  /** Wurde die Ausgabe auf maxOutputLength gekürzt? */
+  outputTruncated: boolean;
+  /** Geänderte Dateien laut Änderungsbericht */
+  filesChanged?: string[];
+  /** Anzahl redigierter Secrets pro Detektor */
+  redactions?: RedactionCounts;
+}
+
+export type TranscriptEntryInput = Omit<TranscriptEntry, 'id' | 'timestamp' | 'outputTruncated' | 'redactions'>;
+
+export interface TranscriptQuery {
+  status?: TranscriptStatus;
+  /** Nur Einträge ab diesem Zeitpunkt */
+  since?: Date;
+  /** Nur Einträge bis zu diesem Zeitpunkt */
+  until?: Date;
+  /** Anzahl übersprungener Einträge (neueste zuerst) */
+  offset?: number;
+  /** Maximale Anzahl Einträge (default: 20) */
+  limit?: number;
+}
+
+export interface TranscriptPage {
+  entries: TranscriptEntry[];
+  /** Anzahl aller Einträge, die auf den Filter passen */
+  total: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export interface TranscriptStoreOptions {
+  /** Ablageverzeichnis (default: paths.transcripts der BridgeConfig, sonst ~/.claude/bridge-transcripts) */
+  directory?: string;
+  /** Maximale Länge von Instruction und Ausgabe pro Eintrag (default: 20000) */
+  maxOutputLength?: number;
+  /** Ab dieser Dateigröße werden alte Einträge verworfen (default: 5 MB) */
+  maxFileBytes?: number;
+}
+
+/**
+ * Leitet den Transcript-Status aus einem Worker-Ergebnis ab.
+ */
+export function transcriptStatus(success: boolean, failureKind?: WorkerFailureKind): TranscriptStatus {
+  if (success) return 'success';
+  return failureKind === 'cancelled' ? 'cancelled' : 'failed';
+}
+
+export class TranscriptStore {
+  private readonly directory: string;
+  private readonly maxOutputLength: number;
+  private readonly maxFileBytes: number;
+
+  constructor(options: TranscriptStoreOptions = {}) {
+    this.directory = options.directory ?? bridgeConfig.path('transcripts');
+    this.maxOutputLength = options.maxOutputLength ?? 20000;
+    this.maxFileBytes = options.maxFileBytes ?? 5 * 1024 * 1024;
+  }
+
+  /**
+   * Hängt einen Eintrag an das Transcript der Session an.
+   * Fehler werden gemeldet, aber nicht geworfen - der Task selbst ist fertig.
+   */
+  append(input: TranscriptEntryInput): TranscriptEntry | null {
+    const instruction = redactor.redact(input.instruction, 'transcript');
+    const output = redactor.redact(input.output, 'transcript');
+    const redactions = mergeCounts({ ...instruction.counts }, output.counts);
+
+    const entry: TranscriptEntry = {
+      ...input,
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      workingDirectory: SessionStore.normalizePath(input.workingDirectory),
+      instruction: this.truncate(instruction.text),
+      output: this.truncate(output.text),
+      outputTruncated: output.text.length > this.maxOutputLength,
+      redactions: Object.keys(redactions).length ? redactions : undefined,
+    };
+
+    const file = this.fileFor(entry.worker, entry.workingDirectory, entry.sessionName);
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      // Einzelne appends mit O_APPEND überschreiben sich nicht gegenseitig
+      fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+      this.compact(file);
+      return entry;
+    } catch (error) {
+      console.error(`[bridge] Transcript ${file} konnte nicht geschrieben werden:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Liefert eine Seite des Transcripts, neueste Einträge zuerst.
+   */
+  query(worker: SessionWorker, workingDirectory: string, sessionName: string, query: TranscriptQuery = {}): TranscriptPage {
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 20;
+
+    const matching = this.readEntries(this.fileFor(worker, workingDirectory, sessionName))
+      .filter((entry) => {
+        if (query.status && entry.status !== query.status) return false;
+        const time = new Date(entry.timestamp).getTime();
+        if (query.since && time < query.since.getTime()) return false;
+        if (query.until && time > query.until.getTime()) return false;
+        return true;
+      })
+      .reverse();
+
+    return {
+      entries: matching.slice(offset, offset + limit),
+      total: matching.length,
+      offset,
+      hasMore: offset + limit < matching.length,
+    };
+  }
+
+  private fileFor(worker: SessionWorker, workingDirectory: string, sessionName: string): string {
+    const key = `${SessionStore.normalizePath(workingDirectory)}\0${sessionName}`;
+    const hash = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+    return path.join(this.directory, `${worker}-${hash}.jsonl`);
+  }
+
+  private readEntries(file: string): TranscriptEntry[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(file, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[bridge] Transcript ${file} nicht lesbar:`, (error as Error).message);
+      }
+      return [];
+    }
+
+    const entries: TranscriptEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as TranscriptEntry);
+      } catch {
+        // Abgeschnittene Zeile (z.B. nach Absturz beim Schreiben) überspringen
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Verwirft die ältesten Einträge, sobald die Datei zu groß wird
+   * (behält etwa die Hälfte von maxFileBytes).
+   */
+  private compact(file: string): void {
+    if (fs.statSync(file).size <= this.maxFileBytes) return;
+
+    const kept: string[] = [];
+    let size = 0;
+    for (const entry of this.readEntries(file).reverse()) {
+      const line = `${JSON.stringify(entry)}\n`;
+      size += Buffer.byteLength(line);
+      if (size > this.maxFileBytes / 2) break;
+      kept.unshift(line);
+    }
+
+    const tempFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, kept.join(''));
+    fs.renameSync(tempFile, file);
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.maxOutputLength
+      ? `${text.slice(0, this.maxOutputLength)}\n[... gekürzt ...]`
+      : text;
+  }
+}
+
+export const transcriptStore = new TranscriptStore();
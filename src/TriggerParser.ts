@@ -1,16 +1,59 @@
 /**
- * TriggerParser - Erkennt @claude und @gemini Trigger in Nachrichten
+ * TriggerParser - Erkennt @<worker> Trigger in Nachrichten
  *
- * Ermöglicht bidirektionale Delegation zwischen Claude und Gemini
- * durch einfache @-Mentions in der Nachricht.
+ * Ermöglicht bidirektionale Delegation zwischen Claude, Gemini und weiteren
+ * registrierten Workern durch einfache @-Mentions in der Nachricht.
+ *
+ * GRAMMATIK (nur am Anfang der Nachricht):
+ *
+ *   trigger := "@" ziel ("+" ziel)* ("[" option ("," option)* "]")?
+ *   option  := schlüssel "=" wert
+ *
+ *   @claude bitte analysiere ...                → Claude
+ *   @claude+gemini prüfe ...                    → Fan-out an beide
+ *   @claude[model=opus,timeout=20m] behebe ...  → Claude mit Optionen
+ *
+ * Mentions weiter hinten gehören zur Aufgabe und bleiben stehen
+ * ("@gemini frag später @claude" geht an Gemini). Ein maskiertes \@claude
+ * wird nie als Trigger gelesen und erscheint als @claude im Text.
+ *
+ * Ohne registriertes Ziel ist "@wort" kein Trigger, auch mit Klammer
+ * ("@param[0] ist null" bleibt Text). Die Klammer gilt nur als Optionen,
+ * wenn alle Ziele registriert sind.
+ *
+ * OPTIONEN: model, role, session (Session-Name), permission (Rechte-Profil),
+ * timeout (Zahl in ms oder mit Einheit ms, s, m, h - z.B. 90s, 20m).
+ * Die Werte prüft der Aufrufer, der Parser nur die Syntax.
  */
 
-export type TriggerTarget = 'claude' | 'gemini' | null;
+/** Name eines registrierten Workers (z.B. 'claude', 'gemini', 'codex') */
+export type TriggerTarget = string | null;
+
+export const TRIGGER_OPTION_KEYS = ['model', 'role', 'timeout', 'session', 'permission'] as const;
+
+export type TriggerOptionKey = (typeof TRIGGER_OPTION_KEYS)[number];
+
+export interface TriggerOptions {
+  model?: string;
+  role?: string;
+  /** Timeout in ms */
+  timeout?: number;
+  /** Session-Name */
+  session?: string;
+  /** Rechte-Profil */
+  permission?: string;
+}
 
 export interface ParsedTrigger {
-  /** Erkanntes Ziel (@claude oder @gemini) */
+  /** Erstes erkanntes Ziel (z.B. @claude oder @gemini) */
   target: TriggerTarget;
-  /** Bereinigter Nachrichtentext ohne Trigger */
+  /** Alle Ziele in Reihenfolge der Nachricht (mehrere bei Fan-out) */
+  targets: string[];
+  /** Inline-Optionen aus [...] */
+  options: TriggerOptions;
+  /** Trigger wie geschrieben, z.B. "@claude+gemini[model=fast]" */
+  trigger?: string;
+  /** Bereinigter Nachrichtentext ohne Trigger, Maskierungen aufgelöst */
   cleanedMessage: string;
   /** Original-Nachricht */
   originalMessage: string;
@@ -19,92 +62,233 @@ export interface ParsedTrigger {
 }
 
 /**
- * Regex-Patterns für Trigger-Erkennung
- * Unterstützt: @claude, @Claude, @CLAUDE, @gemini, @Gemini, @GEMINI
- * Am Anfang oder Ende der Nachricht, oder als eigenständiges Wort
+ * Wird geworfen, wenn ein Trigger am Nachrichtenanfang fehlerhaft ist
+ * (unbekanntes Ziel bei Fan-out/Optionen, unbekannte Option, ...).
+ */
+export class TriggerSyntaxError extends Error {
+  constructor(message: string, readonly trigger: string) {
+    super(message);
+    this.name = 'TriggerSyntaxError';
+  }
+}
+
+/** Ziele, wenn der Aufrufer keine Liste übergibt */
+const DEFAULT_TARGETS = ['claude', 'gemini'];
+
+/** @ziel oder @ziel+ziel... am Anfang der Nachricht */
+const LEADING_TARGETS_PATTERN = /^@([A-Za-z][\w-]*(?:\+[A-Za-z][\w-]*)*)/;
+
+/** Zeichen, die direkt auf einen Trigger folgen dürfen */
+const TRIGGER_END_PATTERN = /^(?:$|\s|[.,!?:;])/;
+
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/i;
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+interface RawTrigger {
+  /** Trigger wie geschrieben */
+  text: string;
+  /** Ziele in Kleinschreibung */
+  names: string[];
+  /** Inhalt von [...] (undefined ohne Optionen) */
+  optionText?: string;
+  /** Nachricht nach dem Trigger */
+  rest: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Liest den Trigger am Anfang der (getrimmten) Nachricht. Eine Klammer direkt
+ * dahinter gilt nur als Optionen, wenn alle Ziele registriert sind - sonst
+ * ist die Nachricht kein Trigger (z.B. "@param[0]").
+ *
+ * @throws TriggerSyntaxError wenn die Optionsklammer nicht geschlossen wird
+ */
+function readLeadingTrigger(message: string, targets: readonly string[]): RawTrigger | null {
+  const head = LEADING_TARGETS_PATTERN.exec(message);
+  if (!head) return null;
+
+  const names = head[1].toLowerCase().split('+');
+  let rest = message.slice(head[0].length);
+  let optionText: string | undefined;
+  if (rest.startsWith('[') && names.every((name) => targets.includes(name))) {
+    const end = rest.indexOf(']');
+    if (end === -1) {
+      throw new TriggerSyntaxError(`Optionen von "${head[0]}[" werden nicht mit "]" geschlossen`, head[0]);
+    }
+    optionText = rest.slice(1, end);
+    rest = rest.slice(end + 1);
+  }
+  if (!TRIGGER_END_PATTERN.test(rest)) return null;
+
+  return {
+    text: message.slice(0, message.length - rest.length),
+    names,
+    optionText,
+    rest: rest.replace(/^[:,]/, '').trim(),
+  };
+}
+
+/**
+ * Parst "key=value,key=value" aus der Optionsklammer.
+ *
+ * @throws TriggerSyntaxError bei unbekannten, doppelten oder leeren Optionen
  */
-const CLAUDE_PATTERN = /(?:^|\s)@claude(?:\s|$|[.,!?:;])/i;
-const GEMINI_PATTERN = /(?:^|\s)@gemini(?:\s|$|[.,!?:;])/i;
+function parseOptions(optionText: string, trigger: string): TriggerOptions {
+  const options: TriggerOptions = {};
+  const seen = new Set<string>();
+
+  for (const entry of optionText.split(',')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf('=');
+    const key = (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase();
+    const value = separator === -1 ? '' : entry.slice(separator + 1).trim();
+
+    if (!(TRIGGER_OPTION_KEYS as readonly string[]).includes(key)) {
+      throw new TriggerSyntaxError(
+        `Unbekannte Trigger-Option "${key}" (erlaubt: ${TRIGGER_OPTION_KEYS.join(', ')})`,
+        trigger
+      );
+    }
+    if (!value) {
+      throw new TriggerSyntaxError(`Trigger-Option "${key}" braucht einen Wert (${key}=...)`, trigger);
+    }
+    if (seen.has(key)) {
+      throw new TriggerSyntaxError(`Trigger-Option "${key}" ist doppelt angegeben`, trigger);
+    }
+    seen.add(key);
+
+    if (key === 'timeout') {
+      options.timeout = parseDuration(value, trigger);
+    } else {
+      options[key as Exclude<TriggerOptionKey, 'timeout'>] = value;
+    }
+  }
+  return options;
+}
 
 /**
- * Pattern zum Entfernen des Triggers aus der Nachricht
+ * Dauer in ms: "600000" (ms), "90s", "20m", "1h".
  */
-const CLAUDE_REMOVE_PATTERN = /@claude\s*/gi;
-const GEMINI_REMOVE_PATTERN = /@gemini\s*/gi;
+function parseDuration(value: string, trigger: string): number {
+  const match = DURATION_PATTERN.exec(value);
+  if (!match) {
+    throw new TriggerSyntaxError(`Ungültiger timeout "${value}" (z.B. 90s, 20m, 1h)`, trigger);
+  }
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[(match[2] ?? 'ms').toLowerCase()]);
+}
 
 /**
- * Parst eine Nachricht und erkennt @claude oder @gemini Trigger.
+ * Löst \@name für registrierte Worker zu @name auf.
+ */
+function unescapeMentions(text: string, targets: readonly string[]): string {
+  if (targets.length === 0) return text;
+  const names = targets.map(escapeRegExp).join('|');
+  return text.replace(new RegExp(`\\\\@(${names})(?!\\w)`, 'gi'), '@$1');
+}
+
+/**
+ * Parst eine Nachricht und erkennt den @<worker> Trigger am Anfang.
+ *
+ * Ohne registriertes Ziel (z.B. "@param ..." oder "@param[0] ...") ist es
+ * kein Trigger, die Nachricht bleibt unverändert.
  *
  * @param message - Die zu parsende Nachricht
- * @returns ParsedTrigger mit Ziel und bereinigter Nachricht
+ * @param targets - Namen der registrierten Worker
+ * @returns ParsedTrigger mit Zielen, Optionen und bereinigter Nachricht
+ * @throws TriggerSyntaxError bei fehlerhaftem Trigger (unbekanntes oder doppeltes Ziel bei Fan-out, ungültige Option)
  *
  * @example
  * parseTrigger("@claude bitte analysiere diesen Code")
- * // → { target: 'claude', cleanedMessage: 'bitte analysiere diesen Code', hasTrigger: true }
+ * // → { target: 'claude', targets: ['claude'], options: {}, cleanedMessage: 'bitte analysiere diesen Code', hasTrigger: true }
  *
  * @example
- * parseTrigger("@gemini was denkst du darüber?")
- * // → { target: 'gemini', cleanedMessage: 'was denkst du darüber?', hasTrigger: true }
+ * parseTrigger("@claude+gemini[model=fast] prüfe \\@claude-Aufrufe")
+ * // → { targets: ['claude', 'gemini'], options: { model: 'fast' }, cleanedMessage: 'prüfe @claude-Aufrufe', ... }
  */
-export function parseTrigger(message: string): ParsedTrigger {
+export function parseTrigger(message: string, targets: readonly string[] = DEFAULT_TARGETS): ParsedTrigger {
   const trimmed = message.trim();
+  const raw = readLeadingTrigger(trimmed, targets);
 
-  // Prüfe auf @claude
-  if (CLAUDE_PATTERN.test(trimmed)) {
+  if (!raw || !raw.names.some((name) => targets.includes(name))) {
+    // Kein Trigger gefunden
     return {
-      target: 'claude',
-      cleanedMessage: trimmed.replace(CLAUDE_REMOVE_PATTERN, '').trim(),
+      target: null,
+      targets: [],
+      options: {},
+      cleanedMessage: unescapeMentions(trimmed, targets),
       originalMessage: message,
-      hasTrigger: true,
+      hasTrigger: false,
     };
   }
 
-  // Prüfe auf @gemini
-  if (GEMINI_PATTERN.test(trimmed)) {
-    return {
-      target: 'gemini',
-      cleanedMessage: trimmed.replace(GEMINI_REMOVE_PATTERN, '').trim(),
-      originalMessage: message,
-      hasTrigger: true,
-    };
+  const unknown = raw.names.filter((name) => !targets.includes(name));
+  if (unknown.length > 0) {
+    throw new TriggerSyntaxError(
+      `Unbekanntes Ziel ${unknown.map((name) => `@${name}`).join(', ')} in "${raw.text}" (verfügbar: ${targets.join(', ')})`,
+      raw.text
+    );
+  }
+  const duplicate = raw.names.find((name, index) => raw.names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new TriggerSyntaxError(`Ziel @${duplicate} ist in "${raw.text}" doppelt angegeben`, raw.text);
   }
 
-  // Kein Trigger gefunden
   return {
-    target: null,
-    cleanedMessage: trimmed,
+    target: raw.names[0],
+    targets: raw.names,
+    options: raw.optionText === undefined ? {} : parseOptions(raw.optionText, raw.text),
+    trigger: raw.text,
+    cleanedMessage: unescapeMentions(raw.rest, targets),
     originalMessage: message,
-    hasTrigger: false,
+    hasTrigger: true,
   };
 }
 
+/**
+ * Prüft, ob der Trigger am Anfang der Nachricht an <target> geht
+ * (auch als Teil eines Fan-outs). Fehlerhafte Trigger zählen nicht.
+ *
+ * @param targets - Namen der registrierten Worker (target zählt immer dazu)
+ */
+export function hasTrigger(message: string, target: string, targets: readonly string[] = DEFAULT_TARGETS): boolean {
+  const name = target.toLowerCase();
+  try {
+    return parseTrigger(message, targets.includes(name) ? targets : [...targets, name]).targets.includes(name);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Prüft, ob eine Nachricht einen @claude Trigger enthält.
  */
 export function hasClaudeTrigger(message: string): boolean {
-  return CLAUDE_PATTERN.test(message);
+  return hasTrigger(message, 'claude');
 }
 
 /**
  * Prüft, ob eine Nachricht einen @gemini Trigger enthält.
  */
 export function hasGeminiTrigger(message: string): boolean {
-  return GEMINI_PATTERN.test(message);
+  return hasTrigger(message, 'gemini');
 }
 
 /**
- * Entfernt alle Trigger aus einer Nachricht.
+ * Entfernt den Trigger am Anfang einer Nachricht; Mentions im Text bleiben.
+ *
+ * @throws TriggerSyntaxError bei fehlerhaftem Trigger
  */
-export function removeTriggers(message: string): string {
-  return message
-    .replace(CLAUDE_REMOVE_PATTERN, '')
-    .replace(GEMINI_REMOVE_PATTERN, '')
-    .trim();
+export function removeTriggers(message: string, targets: readonly string[] = DEFAULT_TARGETS): string {
+  return parseTrigger(message, targets).cleanedMessage;
 }
 
 /**
  * Fügt einen Trigger zu einer Nachricht hinzu (am Anfang).
  */
-export function addTrigger(message: string, target: 'claude' | 'gemini'): string {
+export function addTrigger(message: string, target: string): string {
   return `@${target} ${message}`;
 }
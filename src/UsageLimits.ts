@@ -0,0 +1,190 @@
+/**
+ * UsageLimits - Erkennt Abo-Limit-Meldungen der CLIs und liest den Reset-Zeitpunkt
+ *
+ * Ist das Kontingent aufgebraucht, melden die CLIs das nur als Text:
+ * - Claude: "Claude AI usage limit reached|1760000000" (Unix-Zeit des Resets)
+ *           oder "5-hour limit reached ∙ resets 3pm (Europe/Berlin)"
+ * - Gemini: "Quota exceeded for quota metric ..." bzw. RESOURCE_EXHAUSTED,
+ *           oft mit "Please retry in 23.5s" oder "retryDelay": "32s"
+ *
+ * Claude beendet sich dabei teils mit Exit-Code 0, die Meldung ist dann die
+ * "erfolgreiche" Ausgabe. Für solche Ausgaben gibt es den strikten Modus: Er
+ * erkennt nur die Banner der CLIs am Zeilenanfang, keine Antworten, die von
+ * Limits handeln ("gibt 429 zurück, wenn das daily limit exceeded ist").
+ */
+
+export interface UsageLimitMatch {
+  /** Gefundene Meldung (gekürzt) */
+  message: string;
+  /** Zeitpunkt, ab dem der Worker wieder verfügbar ist (falls angegeben) */
+  resetAt?: Date;
+}
+
+export interface DetectOptions {
+  /**
+   * Nur die Limit-Banner der CLIs am Zeilenanfang in kurzen Ausgaben erkennen.
+   * Für Ausgaben erfolgreicher Läufe - die Antwort könnte sonst von Rate-Limiting handeln.
+   */
+  strict?: boolean;
+  now?: Date;
+}
+
+/** Eindeutige Meldungen, dass das Kontingent aufgebraucht ist */
+const LIMIT_PATTERNS: RegExp[] = [
+  /Claude AI usage limit reached/i,
+  /\b(?:usage|5-hour|weekly|session|opus|daily) limit (?:reached|exceeded)/i,
+  /you(?:'ve| have) (?:hit|reached) your (?:usage |weekly |daily )?limit/i,
+  /quota exceeded|exhausted your (?:daily )?quota|RESOURCE_EXHAUSTED/i,
+];
+
+/** Banner der CLIs, wie sie als (scheinbar erfolgreiche) Antwort ausgegeben werden */
+const STRICT_PATTERNS: RegExp[] = [
+  /^Claude AI usage limit reached(?:\|\d{10,13})?\s*$/im,
+  /^(?:5-hour|weekly|session|opus) limit reached\s*[∙·•|-]\s*resets\b/im,
+  /^You(?:'ve| have) (?:hit|reached) your (?:usage |weekly |daily )?limit\s*[∙·•|-]\s*resets\b/im,
+  /^(?:Error:\s*)?Quota exceeded for quota metric\b/im,
+  /^(?:Error:\s*)?You have exhausted your daily quota\b/im,
+];
+
+/**
+ * Tages- bzw. Plan-Kontingent aufgebraucht. Minütliche RESOURCE_EXHAUSTED-
+ * Meldungen gehören nicht dazu - die wiederholt Gemini selbst erfolgreich.
+ */
+const DAILY_QUOTA_PATTERNS: RegExp[] = [
+  /exhausted your (?:daily )?quota/i,
+  /Quota exceeded for quota metric '[^']*(?:PerDay|per day)[^']*'/i,
+  /\b(?:daily|plan) (?:quota|limit) (?:reached|exceeded|exhausted)/i,
+];
+
+/** Einzelne Kontingent-Meldungen (auch transiente, z.B. pro Minute) */
+const QUOTA_HIT_PATTERN = /RESOURCE_EXHAUSTED|quota exceeded|\b429\b/gi;
+
+/** Allgemeine Rate-Limit-Hinweise - nur außerhalb des strikten Modus */
+const LOOSE_PATTERNS: RegExp[] = [
+  /usage limit|limit reached|rate limit|too many requests|\b429\b/i,
+];
+
+/** Kurze Ausgaben im strikten Modus - lange Antworten sind echte Ergebnisse */
+const STRICT_MAX_LENGTH = 500;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  sec: 1000,
+  second: 1000,
+  seconds: 1000,
+  m: 60 * 1000,
+  min: 60 * 1000,
+  minute: 60 * 1000,
+  minutes: 60 * 1000,
+  h: 60 * 60 * 1000,
+  hour: 60 * 60 * 1000,
+  hours: 60 * 60 * 1000,
+};
+
+/**
+ * Sucht eine Limit-Meldung in der CLI-Ausgabe.
+ *
+ * @returns null, wenn keine Limit-Meldung enthalten ist
+ */
+export function detectUsageLimit(text: string, options: DetectOptions = {}): UsageLimitMatch | null {
+  if (!text) return null;
+  if (options.strict && text.trim().length > STRICT_MAX_LENGTH) return null;
+
+  const patterns = options.strict ? STRICT_PATTERNS : [...LIMIT_PATTERNS, ...LOOSE_PATTERNS];
+  const match = patterns.map((pattern) => pattern.exec(text)).find((m) => m !== null);
+  if (!match) return null;
+
+  const line = text.slice(text.lastIndexOf('\n', match.index) + 1).split('\n')[0].trim();
+  return {
+    message: line.length > 200 ? `${line.slice(0, 200)}...` : line,
+    resetAt: parseResetTime(text, options.now ?? new Date()),
+  };
+}
+
+/**
+ * Ist laut Text das Tages- bzw. Plan-Kontingent aufgebraucht (z.B. in stderr)?
+ */
+export function isDailyQuotaExhausted(text: string): boolean {
+  return DAILY_QUOTA_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/**
+ * Anzahl der Kontingent-Meldungen im Text, z.B. wiederholte RESOURCE_EXHAUSTED-Retries.
+ */
+export function countQuotaHits(text: string): number {
+  return text.match(QUOTA_HIT_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Liest den Reset-Zeitpunkt aus einer Limit-Meldung: Unix-Zeit, ISO-Datum,
+ * Uhrzeit (optional mit Zeitzone) oder relative Dauer.
+ */
+export function parseResetTime(text: string, now = new Date()): Date | undefined {
+  // Claude: "usage limit reached|<unix-sekunden>"
+  const epoch = /limit reached\|(\d{10,13})\b/i.exec(text);
+  if (epoch) {
+    const value = Number(epoch[1]);
+    return new Date(epoch[1].length === 13 ? value : value * 1000);
+  }
+
+  const iso = /resets?\s+(?:at\s+|on\s+)?(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)/i.exec(text);
+  if (iso && !Number.isNaN(Date.parse(iso[1]))) {
+    return new Date(iso[1]);
+  }
+
+  // "resets 3pm (Europe/Berlin)", "resets at 15:30"
+  const clock = /resets?\s+(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?:\s*\(([A-Za-z_]+(?:\/[A-Za-z0-9_+-]+)*)\))?/i.exec(text);
+  if (clock && (clock[2] !== undefined || clock[3] !== undefined)) {
+    let hour = Number(clock[1]) % 12;
+    if (!clock[3]) hour = Number(clock[1]);
+    else if (clock[3].toLowerCase() === 'pm') hour += 12;
+    const minute = Number(clock[2] ?? 0);
+    if (hour < 24 && minute < 60) {
+      return nextWallClockTime(hour, minute, clock[4], now);
+    }
+  }
+
+  // Gemini: "retryDelay": "32s" (google.rpc.RetryInfo)
+  const retryDelay = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(text);
+  if (retryDelay) {
+    return new Date(now.getTime() + Math.ceil(Number(retryDelay[1]) * 1000));
+  }
+
+  // "Please retry in 23.5s", "resets in 2 hours", "try again after 1h30m"
+  const relative = /(?:retry|try again|resets?|available)\s+(?:in|after)\s+((?:\d+(?:\.\d+)?\s*(?:ms|seconds?|sec|s|minutes?|min|m|hours?|h)\b\s*(?:and\s+)?)+)/i.exec(text);
+  if (relative) {
+    let ms = 0;
+    for (const part of relative[1].matchAll(/(\d+(?:\.\d+)?)\s*(ms|seconds?|sec|s|minutes?|min|m|hours?|h)\b/gi)) {
+      ms += Number(part[1]) * DURATION_UNITS[part[2].toLowerCase()];
+    }
+    if (ms > 0) return new Date(now.getTime() + Math.ceil(ms));
+  }
+
+  return undefined;
+}
+
+/**
+ * Nächstes Auftreten einer Uhrzeit in einer Zeitzone (default: lokal).
+ * Unbekannte Zeitzonen fallen auf die lokale Zeit zurück.
+ */
+function nextWallClockTime(hour: number, minute: number, timeZone: string | undefined, now: Date): Date {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    return nextWallClockTime(hour, minute, undefined, now);
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  let deltaMinutes = hour * 60 + minute - (part('hour') * 60 + part('minute'));
+  if (deltaMinutes <= 0) deltaMinutes += 24 * 60;
+
+  return new Date(now.getTime() + deltaMinutes * 60 * 1000 - part('second') * 1000 - now.getMilliseconds());
+}
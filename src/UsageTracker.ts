@@ -0,0 +1,240 @@
+/**
+ * UsageTracker - Verbrauchs- und Kostenerfassung pro Task
+ *
+ * Jeder ausgeführte Task wird mit Tokens, Kosten (sofern die CLI sie meldet),
+ * Laufzeit und Turns in ~/.claude/bridge-usage/usage-YYYY-MM.jsonl
+ * festgehalten. Monatsdateien halten Abfragen über Zeitfenster günstig.
+ *
+ * Auswertungen summieren pro Session, Arbeitsverzeichnis, Worker und Tag.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionStore } from './SessionStore.js';
+import { bridgeConfig } from './BridgeConfig.js';
+
+export interface UsageRecord {
+  timestamp: string;
+  taskId?: string;
+  worker: string;
+  workingDirectory: string;
+  sessionName?: string;
+  sessionId?: string;
+  model?: string;
+  success: boolean;
+  durationMs: number;
+  numTurns?: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  /** Kosten in USD (nur wenn von der CLI gemeldet) */
+  costUsd?: number;
+}
+
+export type UsageRecordInput = Omit<UsageRecord, 'timestamp'>;
+
+export interface UsageTotals {
+  tasks: number;
+  successful: number;
+  durationMs: number;
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  /** Tasks, für die Kosten gemeldet wurden (Rest ist in costUsd nicht enthalten) */
+  tasksWithCost: number;
+}
+
+export interface UsageFilter {
+  since?: Date;
+  until?: Date;
+  workingDirectory?: string;
+  worker?: string;
+  sessionName?: string;
+}
+
+export interface UsageReport {
+  since?: string;
+  until?: string;
+  totals: UsageTotals;
+  byWorker: Record<string, UsageTotals>;
+  byDirectory: Record<string, UsageTotals>;
+  /** Schlüssel: <worker>:<verzeichnis>#<session-name> */
+  bySession: Record<string, UsageTotals>;
+  /** Schlüssel: YYYY-MM-DD (UTC) */
+  byDay: Record<string, UsageTotals>;
+}
+
+export interface UsageTrackerOptions {
+  /** Ablageverzeichnis (default: paths.usage der BridgeConfig, sonst ~/.claude/bridge-usage) */
+  directory?: string;
+}
+
+const MONTH_FILE_PATTERN = /^usage-(\d{4}-\d{2})\.jsonl$/;
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    tasks: 0,
+    successful: 0,
+    durationMs: 0,
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    costUsd: 0,
+    tasksWithCost: 0,
+  };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.tasks += 1;
+  totals.successful += record.success ? 1 : 0;
+  totals.durationMs += record.durationMs;
+  totals.turns += record.numTurns ?? 0;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheReadTokens += record.cacheReadTokens;
+  totals.cacheCreationTokens += record.cacheCreationTokens;
+  if (record.costUsd !== undefined) {
+    totals.costUsd += record.costUsd;
+    totals.tasksWithCost += 1;
+  }
+}
+
+export class UsageTracker {
+  private readonly directory: string;
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.directory = options.directory ?? bridgeConfig.path('usage');
+  }
+
+  /**
+   * Erfasst einen abgeschlossenen Task. Fehler werden gemeldet, nie geworfen.
+   */
+  record(input: UsageRecordInput): void {
+    const now = new Date();
+    const record: UsageRecord = {
+      timestamp: now.toISOString(),
+      ...input,
+      workingDirectory: SessionStore.normalizePath(input.workingDirectory),
+    };
+
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      fs.appendFileSync(this.monthFile(now.toISOString().slice(0, 7)), `${JSON.stringify(record)}\n`);
+    } catch (error) {
+      console.error('[bridge] Verbrauch konnte nicht gespeichert werden:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Summiert alle Datensätze, die auf den Filter passen.
+   */
+  totals(filter: UsageFilter = {}): UsageTotals {
+    const totals = emptyUsageTotals();
+    for (const record of this.list(filter)) {
+      addRecord(totals, record);
+    }
+    return totals;
+  }
+
+  /**
+   * Aggregiert den Verbrauch im Zeitfenster nach Worker, Verzeichnis, Session und Tag.
+   */
+  report(filter: UsageFilter = {}): UsageReport {
+    const report: UsageReport = {
+      since: filter.since?.toISOString(),
+      until: filter.until?.toISOString(),
+      totals: emptyUsageTotals(),
+      byWorker: {},
+      byDirectory: {},
+      bySession: {},
+      byDay: {},
+    };
+
+    const add = (group: Record<string, UsageTotals>, key: string, record: UsageRecord): void => {
+      group[key] ??= emptyUsageTotals();
+      addRecord(group[key], record);
+    };
+
+    for (const record of this.list(filter)) {
+      addRecord(report.totals, record);
+      add(report.byWorker, record.worker, record);
+      add(report.byDirectory, record.workingDirectory, record);
+      add(report.bySession, `${record.worker}:${record.workingDirectory}#${record.sessionName ?? 'default'}`, record);
+      add(report.byDay, record.timestamp.slice(0, 10), record);
+    }
+    return report;
+  }
+
+  /**
+   * Alle Datensätze, die auf den Filter passen (älteste zuerst).
+   */
+  list(filter: UsageFilter = {}): UsageRecord[] {
+    const directory = filter.workingDirectory ? SessionStore.normalizePath(filter.workingDirectory) : undefined;
+    const since = filter.since?.getTime();
+    const until = filter.until?.getTime();
+
+    return this.monthFiles(filter)
+      .flatMap((file) => this.readRecords(file))
+      .filter((record) => {
+        const time = new Date(record.timestamp).getTime();
+        if (since !== undefined && time < since) return false;
+        if (until !== undefined && time > until) return false;
+        if (directory && record.workingDirectory !== directory) return false;
+        if (filter.worker && record.worker !== filter.worker) return false;
+        if (filter.sessionName && (record.sessionName ?? 'default') !== filter.sessionName) return false;
+        return true;
+      });
+  }
+
+  /**
+   * Nur Monatsdateien, die das Zeitfenster überschneiden.
+   */
+  private monthFiles(filter: UsageFilter): string[] {
+    const firstMonth = filter.since?.toISOString().slice(0, 7);
+    const lastMonth = filter.until?.toISOString().slice(0, 7);
+    try {
+      return fs.readdirSync(this.directory)
+        .filter((f) => {
+          const month = MONTH_FILE_PATTERN.exec(f)?.[1];
+          if (!month) return false;
+          return (!firstMonth || month >= firstMonth) && (!lastMonth || month <= lastMonth);
+        })
+        .sort()
+        .map((f) => path.join(this.directory, f));
+    } catch {
+      return [];
+    }
+  }
+
+  private monthFile(month: string): string {
+    return path.join(this.directory, `usage-${month}.jsonl`);
+  }
+
+  private readRecords(file: string): UsageRecord[] {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(file, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        // Unvollständige Zeile überspringen
+      }
+    }
+    return records;
+  }
+}
+
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,186 @@
+/**
+ * WorkerAvailability - Merkt sich, welcher Worker wegen Nutzungslimit pausiert
+ *
+ * Erreicht ein Worker sein Abo-Limit, wird er bis zum gemeldeten Reset als
+ * nicht verfügbar markiert (ohne bekannten Reset für defaultCooldownMs).
+ * Der Zustand liegt in ~/.claude/bridge-availability.json, damit alle
+ * Bridge-Instanzen mit demselben Abo ihn teilen.
+ *
+ * Aufrufer wählen pro Task, was bei erreichtem Limit passiert:
+ * - fail:     sofort mit usage_limit (inkl. resetAt/retryAfter) scheitern
+ * - fallback: wie fail - der Aufrufer übergibt an den anderen Worker
+ * - defer:    bis zum Reset warten und den Task dann automatisch ausführen
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ProgressCallback } from './ProgressReporter.js';
+import { createFailure, sleep, usageLimitFailure, type WorkerFailure } from './WorkerErrors.js';
+import { bridgeConfig } from './BridgeConfig.js';
+
+export const USAGE_LIMIT_POLICIES = ['fail', 'fallback', 'defer'] as const;
+
+export type UsageLimitPolicy = typeof USAGE_LIMIT_POLICIES[number];
+
+export interface WorkerLimitEntry {
+  worker: string;
+  /** Ab diesem Zeitpunkt (ISO) ist der Worker wieder verfügbar */
+  unavailableUntil: string;
+  /** Stammt der Zeitpunkt aus der CLI-Meldung (sonst Schätzung) */
+  resetTimeKnown: boolean;
+  message: string;
+  detectedAt: string;
+}
+
+export interface WorkerStatus {
+  worker: string;
+  available: boolean;
+  unavailableUntil?: string;
+  resetTimeKnown?: boolean;
+  message?: string;
+}
+
+export interface UsageLimitRunOptions {
+  /** Verhalten bei erreichtem Limit (default: fail) */
+  onUsageLimit?: UsageLimitPolicy;
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+}
+
+export interface WorkerAvailabilityOptions {
+  /** Zustandsdatei (default: bridge-availability.json in paths.dataDir der BridgeConfig) */
+  file?: string;
+  /** Sperrdauer, wenn die CLI keinen Reset-Zeitpunkt nennt (default: 15 Min) */
+  defaultCooldownMs?: number;
+  /** Wie oft ein Task mit defer nach einem Limit erneut gestartet wird (default: 3) */
+  maxDeferrals?: number;
+}
+
+type LimitEntries = Record<string, WorkerLimitEntry>;
+
+export class WorkerAvailability {
+  private readonly file: string;
+  private readonly defaultCooldownMs: number;
+  private readonly maxDeferrals: number;
+
+  constructor(options: WorkerAvailabilityOptions = {}) {
+    this.file = options.file ?? path.join(bridgeConfig.dataDir(), 'bridge-availability.json');
+    this.defaultCooldownMs = options.defaultCooldownMs ?? 15 * 60 * 1000;
+    this.maxDeferrals = options.maxDeferrals ?? 3;
+  }
+
+  status(worker: string, now = new Date()): WorkerStatus {
+    const entry = this.readEntries()[worker];
+    if (!entry || new Date(entry.unavailableUntil).getTime() <= now.getTime()) {
+      return { worker, available: true };
+    }
+    return {
+      worker,
+      available: false,
+      unavailableUntil: entry.unavailableUntil,
+      resetTimeKnown: entry.resetTimeKnown,
+      message: entry.message,
+    };
+  }
+
+  /** Aktuell gesperrte Worker */
+  list(now = new Date()): WorkerStatus[] {
+    return Object.keys(this.readEntries())
+      .map((worker) => this.status(worker, now))
+      .filter((status) => !status.available);
+  }
+
+  /**
+   * Sperrt den Worker bis zum Reset und liefert den Fehlschlag mit
+   * resetAt/retryAfter (geschätzt, falls die CLI keinen Zeitpunkt nannte).
+   */
+  markLimited(worker: string, failure: WorkerFailure, now = new Date()): WorkerFailure {
+    const reported = failure.resetAt ? new Date(failure.resetAt) : undefined;
+    const resetTimeKnown = reported !== undefined && reported.getTime() > now.getTime();
+    const until = resetTimeKnown ? reported : new Date(now.getTime() + this.defaultCooldownMs);
+
+    const entries = this.readEntries();
+    entries[worker] = {
+      worker,
+      unavailableUntil: until.toISOString(),
+      resetTimeKnown,
+      message: failure.message,
+      detectedAt: now.toISOString(),
+    };
+    this.writeEntries(entries, now);
+    return usageLimitFailure(until, now);
+  }
+
+  /** Hebt die Sperre auf, z.B. nach einem Abo-Upgrade */
+  clear(worker: string): boolean {
+    const entries = this.readEntries();
+    if (!entries[worker]) return false;
+    delete entries[worker];
+    this.writeEntries(entries, new Date());
+    return true;
+  }
+
+  /**
+   * Führt einen Task unter Berücksichtigung der Sperre aus.
+   *
+   * @param execute - Führt den Task einmal aus
+   * @param notStarted - Baut das Ergebnis, wenn der Task nicht gestartet wird
+   */
+  async run<T extends { failure?: WorkerFailure }>(
+    worker: string,
+    options: UsageLimitRunOptions,
+    execute: () => Promise<T>,
+    notStarted: (failure: WorkerFailure) => T
+  ): Promise<T> {
+    const policy = options.onUsageLimit ?? 'fail';
+    let runs = 0;
+
+    for (;;) {
+      const status = this.status(worker);
+      if (!status.available && status.unavailableUntil) {
+        const resetAt = new Date(status.unavailableUntil);
+        if (policy !== 'defer') return notStarted(usageLimitFailure(resetAt));
+
+        options.onProgress?.({
+          kind: 'queued',
+          message: `${worker}: Nutzungslimit erreicht - Start nach Reset um ${status.unavailableUntil}`,
+        });
+        await sleep(resetAt.getTime() - Date.now(), options.signal);
+        if (options.signal?.aborted) return notStarted(createFailure('cancelled'));
+        continue;
+      }
+
+      runs++;
+      const result = await execute();
+      if (result.failure?.kind !== 'usage_limit') return result;
+
+      const failure = this.markLimited(worker, result.failure);
+      if (policy !== 'defer' || runs > this.maxDeferrals) return { ...result, failure };
+    }
+  }
+
+  private readEntries(): LimitEntries {
+    try {
+      return JSON.parse(fs.readFileSync(this.file, 'utf-8')) as LimitEntries;
+    } catch {
+      return {};
+    }
+  }
+
+  /** Schreibt atomar und verwirft abgelaufene Sperren */
+  private writeEntries(entries: LimitEntries, now: Date): void {
+    const active = Object.fromEntries(
+      Object.entries(entries).filter(([, entry]) => new Date(entry.unavailableUntil).getTime() > now.getTime())
+    );
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tempFile = `${this.file}.${process.pid}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(active, null, 2));
+      fs.renameSync(tempFile, this.file);
+    } catch (error) {
+      console.error('[bridge] Worker-Verfügbarkeit konnte nicht gespeichert werden:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+export const workerAvailability = new WorkerAvailability();
@@ -0,0 +1,204 @@
+/**
+ * WorkerErrors - Fehler-Taxonomie und Retry-Policy für Worker-Ausführungen
+ *
+ * Statt freier Strings wie "[CLAUDE CLI ERROR]" oder "[SPAWN ERROR]" bekommt
+ * jedes fehlgeschlagene Ergebnis eine typisierte Fehlerklasse. Transiente
+ * Klassen können mit exponentiellem Backoff wiederholt werden.
+ */
+
+import { parseResetTime } from './UsageLimits.js';
+
+export type WorkerFailureKind =
+  /** CLI nicht gefunden */
+  | 'not_installed'
+  /** Nicht eingeloggt / Token ungültig */
+  | 'not_authenticated'
+  /** Abo-Limit oder Rate-Limit erreicht */
+  | 'usage_limit'
+  /** Timeout der Bridge ausgelöst */
+  | 'timeout'
+  /** Prozess abgestürzt oder ohne verwertbare Ausgabe beendet */
+  | 'crashed'
+  /** Session-ID unbekannt oder nicht fortsetzbar */
+  | 'invalid_session'
+  /** Vom Aufrufer abgebrochen */
+  | 'cancelled'
+  /** Maximale Anzahl Turns erreicht */
+  | 'max_turns'
+  /** Worker hat den Task mit Fehler beendet */
+  | 'execution_error'
+  /** Antwort entspricht nach allen Nachfragen nicht dem outputSchema */
+  | 'invalid_output'
+  /** Vor dem Start abgelehnt, z.B. Budget-Limit oder ungültige Projektkonfiguration */
+  | 'rejected'
+  | 'unknown';
+
+export interface WorkerFailure {
+  kind: WorkerFailureKind;
+  /** Kurze, menschenlesbare Beschreibung */
+  message: string;
+  /** Darf laut Default-Policy wiederholt werden */
+  retryable: boolean;
+  /** Bei usage_limit: Zeitpunkt, ab dem der Worker wieder verfügbar ist (ISO) */
+  resetAt?: string;
+  /** Bei usage_limit: Sekunden bis resetAt */
+  retryAfter?: number;
+}
+
+export interface FailureContext {
+  exitCode: number | null;
+  /** Kombinierte stderr/stdout-Ausgabe zur Mustererkennung */
+  output: string;
+  /** Fehlercode beim Spawn, z.B. ENOENT */
+  spawnErrorCode?: string;
+  /** Signal, mit dem der Prozess beendet wurde */
+  signal?: NodeJS.Signals | null;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  /** Subtype des Claude result-Events */
+  resultSubtype?: string;
+}
+
+export interface RetryPolicy {
+  /** Maximale Anzahl Versuche inklusive des ersten (1 = kein Retry) */
+  maxAttempts: number;
+  /** Wartezeit vor dem ersten Retry in ms */
+  initialDelayMs: number;
+  /** Obergrenze der Wartezeit in ms */
+  maxDelayMs: number;
+  /** Multiplikator pro Versuch */
+  backoffFactor: number;
+  /** Fehlerklassen, die wiederholt werden */
+  retryOn: WorkerFailureKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 2,
+  initialDelayMs: 2000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  retryOn: ['crashed'],
+};
+
+const FAILURE_MESSAGES: Record<WorkerFailureKind, string> = {
+  not_installed: 'CLI ist nicht installiert oder nicht im PATH',
+  not_authenticated: 'CLI ist nicht eingeloggt oder das Token ist ungültig',
+  usage_limit: 'Nutzungslimit erreicht',
+  timeout: 'Zeitlimit überschritten',
+  crashed: 'Prozess unerwartet beendet',
+  invalid_session: 'Session nicht gefunden oder nicht fortsetzbar',
+  cancelled: 'Task wurde abgebrochen',
+  max_turns: 'Maximale Anzahl Turns erreicht',
+  execution_error: 'Worker hat den Task mit Fehler beendet',
+  invalid_output: 'Antwort entspricht nicht dem outputSchema',
+  rejected: 'Task wurde vor dem Start abgelehnt',
+  unknown: 'Unbekannter Fehler',
+};
+
+const TRANSIENT_KINDS = new Set<WorkerFailureKind>(['crashed', 'timeout']);
+
+/** Muster in der CLI-Ausgabe, in Prüfreihenfolge */
+const OUTPUT_PATTERNS: Array<{ kind: WorkerFailureKind; pattern: RegExp }> = [
+  {
+    kind: 'not_installed',
+    pattern: /command not found|is not recognized as an internal or external command/i,
+  },
+  {
+    kind: 'invalid_session',
+    pattern: /No conversation found with session ID|session.*(not found|already in use|does not exist)|invalid session|No previous sessions? found/i,
+  },
+  {
+    kind: 'usage_limit',
+    pattern: /usage limit|limit reached|rate limit|quota exceeded|exhausted your (daily )?quota|you(?:'ve| have) hit your (\w+ )?limit|RESOURCE_EXHAUSTED|\b429\b|too many requests/i,
+  },
+  {
+    kind: 'not_authenticated',
+    pattern: /not logged in|please (run )?[`'"]?(claude|gemini)? ?\/?login|invalid api key|authentication (failed|required|error)|unauthori[sz]ed|\b401\b|OAuth token (has )?expired/i,
+  },
+];
+
+export function createFailure(kind: WorkerFailureKind, detail?: string): WorkerFailure {
+  return {
+    kind,
+    message: detail ? `${FAILURE_MESSAGES[kind]}: ${detail}` : FAILURE_MESSAGES[kind],
+    retryable: TRANSIENT_KINDS.has(kind),
+  };
+}
+
+/**
+ * Fehlschlag wegen erreichtem Nutzungslimit, mit Reset-Zeitpunkt falls bekannt.
+ */
+export function usageLimitFailure(resetAt?: Date, now = new Date()): WorkerFailure {
+  if (!resetAt) return createFailure('usage_limit');
+  return {
+    ...createFailure('usage_limit', `wieder verfügbar ab ${resetAt.toISOString()}`),
+    resetAt: resetAt.toISOString(),
+    retryAfter: Math.max(0, Math.ceil((resetAt.getTime() - now.getTime()) / 1000)),
+  };
+}
+
+/**
+ * Ordnet einen fehlgeschlagenen Lauf einer Fehlerklasse zu.
+ */
+export function classifyFailure(context: FailureContext): WorkerFailure {
+  if (context.cancelled) return createFailure('cancelled');
+  if (context.timedOut) return createFailure('timeout');
+  if (context.spawnErrorCode === 'ENOENT') return createFailure('not_installed');
+
+  // Exit 127 (Unix) bzw. 9009 (Windows cmd): Befehl nicht gefunden
+  if (context.exitCode === 127 || context.exitCode === 9009) {
+    return createFailure('not_installed');
+  }
+
+  // Subtype aus dem result-Event ist eindeutiger als Textmuster
+  if (context.resultSubtype === 'error_max_turns') return createFailure('max_turns');
+
+  for (const { kind, pattern } of OUTPUT_PATTERNS) {
+    if (!pattern.test(context.output)) continue;
+    return kind === 'usage_limit' ? usageLimitFailure(parseResetTime(context.output)) : createFailure(kind);
+  }
+
+  if (context.resultSubtype === 'error_during_execution') return createFailure('execution_error');
+
+  if (context.signal || context.spawnErrorCode || !context.output.trim()) {
+    return createFailure('crashed', context.signal ? `Signal ${context.signal}` : context.spawnErrorCode);
+  }
+
+  return createFailure(context.exitCode !== null && context.exitCode !== 0 ? 'execution_error' : 'unknown');
+}
+
+/**
+ * Wartezeit vor dem nächsten Versuch (attempt = Nummer des fehlgeschlagenen Versuchs).
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Prüft, ob nach diesem Fehlschlag ein weiterer Versuch erlaubt ist.
+ */
+export function shouldRetry(policy: RetryPolicy, failure: WorkerFailure, attempt: number): boolean {
+  return attempt < policy.maxAttempts && policy.retryOn.includes(failure.kind);
+}
+
+/**
+ * Wartet ms Millisekunden; endet vorzeitig, wenn das Signal auslöst.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
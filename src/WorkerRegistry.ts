@@ -0,0 +1,84 @@
+/**
+ * WorkerRegistry - Verzeichnis aller verfügbaren Worker
+ *
+ * Claude und Gemini sind immer registriert. Weitere lokale CLI-Agenten
+ * kommen über commandWorkers in der BridgeConfig dazu (Namen dort bereits
+ * validiert und eindeutig).
+ *
+ * Jeder registrierte Name ist zugleich ein @name-Trigger für delegate.
+ */
+
+import type { AgentWorker } from './AgentWorker.js';
+import { claudeWrapper } from './ClaudeWrapper.js';
+import { geminiWrapper } from './GeminiWrapper.js';
+import { CommandWorker } from './CommandWorker.js';
+import { bridgeConfig } from './BridgeConfig.js';
+
+/**
+ * Wird geworfen, wenn ein Worker-Name unbekannt oder doppelt ist.
+ */
+export class WorkerRegistryError extends Error {
+  constructor(message: string, readonly worker: string) {
+    super(message);
+    this.name = 'WorkerRegistryError';
+  }
+}
+
+export class WorkerRegistry {
+  private readonly workers = new Map<string, AgentWorker>();
+
+  register(worker: AgentWorker): void {
+    if (this.workers.has(worker.name)) {
+      throw new WorkerRegistryError(`Worker "${worker.name}" ist bereits registriert`, worker.name);
+    }
+    this.workers.set(worker.name, worker);
+  }
+
+  get(name: string): AgentWorker | undefined {
+    return this.workers.get(name);
+  }
+
+  /**
+   * @throws WorkerRegistryError wenn kein Worker mit diesem Namen registriert ist
+   */
+  require(name: string): AgentWorker {
+    const worker = this.workers.get(name);
+    if (!worker) {
+      throw new WorkerRegistryError(`Unbekannter Worker "${name}" (verfügbar: ${this.names().join(', ')})`, name);
+    }
+    return worker;
+  }
+
+  has(name: string): boolean {
+    return this.workers.has(name);
+  }
+
+  /** Namen in Registrierungsreihenfolge (Ziele für @-Trigger) */
+  names(): string[] {
+    return [...this.workers.keys()];
+  }
+
+  list(): AgentWorker[] {
+    return [...this.workers.values()];
+  }
+
+  /**
+   * Worker, an den bei erreichtem Nutzungslimit übergeben wird:
+   * Claude an Gemini, alle anderen an Claude.
+   */
+  fallbackFor(name: string): string {
+    return name === 'claude' ? 'gemini' : 'claude';
+  }
+}
+
+function registryFromConfig(): WorkerRegistry {
+  const registry = new WorkerRegistry();
+  registry.register(claudeWrapper);
+  registry.register(geminiWrapper);
+  for (const definition of bridgeConfig.commandWorkers) {
+    registry.register(new CommandWorker(definition));
+  }
+  return registry;
+}
+
+export const workerRegistry = registryFromConfig();
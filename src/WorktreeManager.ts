@@ -0,0 +1,291 @@
+/**
+ * WorktreeManager - Isolierte Ausführung in temporären git-Worktrees
+ *
+ * Für riskante Tasks legt die Bridge aus dem Ziel-Repo einen Worktree auf
+ * einem eigenen Branch an, lässt den Worker dort arbeiten und liefert den
+ * Diff zurück, statt den Checkout des Users zu verändern. Danach kann der
+ * Worktree gemergt, verworfen oder (als Branch) behalten werden.
+ *
+ * UNCOMMITTETE ÄNDERUNGEN: Der Worker soll denselben Stand sehen wie der
+ * Aufrufer. Geänderte und neue (nicht ignorierte) Dateien des Checkouts
+ * werden deshalb in den Worktree übernommen und dort als eigener Commit
+ * festgehalten (carriedCommit). Diff und Merge beziehen sich dann nur auf die
+ * Änderungen des Workers: merge wendet sie als uncommittete Änderungen auf den
+ * Checkout an, statt einen Merge-Commit zu erzeugen.
+ *
+ * Metadaten liegen pro Worktree als JSON in ~/.claude/bridge-worktrees und
+ * überleben so einen Neustart des Servers.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { findRepoRoot, runGit } from './GitRunner.js';
+import { bridgeConfig } from './BridgeConfig.js';
+
+export type WorktreeStatus = 'active' | 'kept' | 'merged' | 'discarded';
+
+export interface WorktreeInfo {
+  id: string;
+  /** Root des Ursprungs-Repos */
+  repoRoot: string;
+  /** Branch des Worktrees, z.B. bridge/1a2b3c4d */
+  branch: string;
+  /** Commit, von dem der Worktree abzweigt */
+  baseCommit: string;
+  /** Commit mit den übernommenen uncommitteten Änderungen (undefined = Checkout war sauber) */
+  carriedCommit?: string;
+  /** Pfad des Worktrees */
+  worktreePath: string;
+  /** Ausführungsverzeichnis im Worktree (entspricht workingDirectory im Repo) */
+  executionDirectory: string;
+  /** Ursprüngliches Arbeitsverzeichnis */
+  workingDirectory: string;
+  createdAt: string;
+  status: WorktreeStatus;
+}
+
+export interface WorktreeDiff {
+  /** Commit mit den Änderungen des Workers (undefined = keine Änderungen) */
+  commit?: string;
+  /** Ausgabe von git diff --stat */
+  diffStat: string;
+  /** Vollständiger Patch (ggf. gekürzt) */
+  diff: string;
+  /** Wurde der Patch gekürzt? */
+  truncated: boolean;
+}
+
+export class WorktreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorktreeError';
+  }
+}
+
+/** Identität für die automatischen Commits im Worktree */
+const BRIDGE_GIT_IDENTITY = ['-c', 'user.name=gemini-claude-bridge', '-c', 'user.email=bridge@localhost'];
+
+export class WorktreeManager {
+  private readonly baseDir: string;
+  private readonly maxDiffLength = 100000;
+
+  constructor() {
+    this.baseDir = bridgeConfig.path('worktrees');
+  }
+
+  /**
+   * Legt einen neuen Worktree auf einem eigenen Branch ab HEAD an.
+   *
+   * @throws WorktreeError wenn workingDirectory kein git-Repo ist
+   */
+  async create(workingDirectory: string): Promise<WorktreeInfo> {
+    const resolvedDir = path.resolve(workingDirectory);
+    const repoRoot = await findRepoRoot(resolvedDir);
+    if (!repoRoot) {
+      throw new WorktreeError(`${workingDirectory} ist kein git-Repository - Worktree-Isolation nicht möglich`);
+    }
+
+    const id = crypto.randomUUID().slice(0, 8);
+    const branch = `bridge/${id}`;
+    const worktreePath = path.join(this.baseDir, id);
+    const baseCommit = (await runGit(['rev-parse', 'HEAD'], repoRoot)).trim();
+
+    fs.mkdirSync(this.baseDir, { recursive: true });
+    await runGit(['worktree', 'add', '-b', branch, worktreePath, baseCommit], repoRoot);
+
+    let carriedCommit: string | undefined;
+    try {
+      carriedCommit = await this.carryUncommitted(repoRoot, worktreePath);
+    } catch (error) {
+      await runGit(['worktree', 'remove', '--force', worktreePath], repoRoot).catch(() => undefined);
+      await runGit(['branch', '-D', branch], repoRoot).catch(() => undefined);
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new WorktreeError(`Uncommittete Änderungen konnten nicht in den Worktree übernommen werden: ${detail}`);
+    }
+
+    const info: WorktreeInfo = {
+      id,
+      repoRoot,
+      branch,
+      baseCommit,
+      carriedCommit,
+      worktreePath,
+      executionDirectory: path.join(worktreePath, path.relative(repoRoot, resolvedDir)),
+      workingDirectory: resolvedDir,
+      createdAt: new Date().toISOString(),
+      status: 'active',
+    };
+    this.save(info);
+    return info;
+  }
+
+  /**
+   * Committet alle Änderungen im Worktree und liefert den Diff gegen die Basis.
+   */
+  async collectChanges(info: WorktreeInfo, message: string): Promise<WorktreeDiff> {
+    await runGit(['add', '-A'], info.worktreePath);
+    const status = await runGit(['status', '--porcelain'], info.worktreePath);
+
+    let commit: string | undefined;
+    if (status.trim()) {
+      const subject = message.split('\n')[0].slice(0, 72);
+      await runGit([...BRIDGE_GIT_IDENTITY, 'commit', '-q', '--no-verify', '-m', `bridge: ${subject}`], info.worktreePath);
+      commit = (await runGit(['rev-parse', 'HEAD'], info.worktreePath)).trim();
+    }
+
+    const range = `${info.carriedCommit ?? info.baseCommit}..${info.branch}`;
+    const diffStat = (await runGit(['diff', '--stat', range], info.repoRoot)).trim();
+    const fullDiff = await runGit(['diff', range], info.repoRoot);
+    const truncated = fullDiff.length > this.maxDiffLength;
+
+    return {
+      commit,
+      diffStat,
+      diff: truncated ? `${fullDiff.slice(0, this.maxDiffLength)}\n[... Diff gekürzt ...]` : fullDiff,
+      truncated,
+    };
+  }
+
+  /**
+   * Mergt den Branch in den aktuellen Checkout des Ursprungs-Repos und
+   * räumt Worktree und Branch auf. Bei Konflikten wird der Merge abgebrochen.
+   * Mit übernommenen uncommitteten Änderungen werden nur die Änderungen des
+   * Workers auf den Checkout angewendet (ohne Commit).
+   *
+   * @throws WorktreeError bei Konflikten oder unbekanntem Worktree
+   */
+  async merge(id: string): Promise<WorktreeInfo> {
+    const info = this.require(id, ['active', 'kept']);
+
+    if (info.carriedCommit) {
+      const patch = await runGit(['diff', '--binary', `${info.carriedCommit}..${info.branch}`], info.repoRoot);
+      if (patch.trim()) {
+        try {
+          await runGit(['apply', '--whitespace=nowarn', '-'], info.repoRoot, { input: patch });
+        } catch (error) {
+          const detail = error instanceof Error ? error.message : String(error);
+          throw new WorktreeError(`Änderungen von ${info.branch} ließen sich nicht anwenden, Worktree bleibt erhalten: ${detail}`);
+        }
+      }
+    } else {
+      try {
+        await runGit(['merge', '--no-ff', '--no-edit', info.branch], info.repoRoot);
+      } catch (error) {
+        await runGit(['merge', '--abort'], info.repoRoot).catch(() => undefined);
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new WorktreeError(`Merge von ${info.branch} fehlgeschlagen, Worktree bleibt erhalten: ${detail}`);
+      }
+    }
+
+    await this.removeWorktree(info);
+    await runGit(['branch', '-D', info.branch], info.repoRoot);
+    return this.updateStatus(info, 'merged');
+  }
+
+  /**
+   * Verwirft Worktree und Branch.
+   */
+  async discard(id: string): Promise<WorktreeInfo> {
+    const info = this.require(id, ['active', 'kept']);
+    await this.removeWorktree(info);
+    await runGit(['branch', '-D', info.branch], info.repoRoot).catch(() => undefined);
+    return this.updateStatus(info, 'discarded');
+  }
+
+  /**
+   * Entfernt das Worktree-Verzeichnis, behält aber den Branch.
+   */
+  async keep(id: string): Promise<WorktreeInfo> {
+    const info = this.require(id, ['active']);
+    await this.removeWorktree(info);
+    return this.updateStatus(info, 'kept');
+  }
+
+  get(id: string): WorktreeInfo | null {
+    // IDs kommen vom Client - nur das eigene Format zulassen (kein Path-Traversal)
+    if (!/^[0-9a-f]{8}$/.test(id)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(this.metadataFile(id), 'utf-8')) as WorktreeInfo;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Listet aktive und behaltene Worktrees.
+   */
+  list(): WorktreeInfo[] {
+    try {
+      return fs.readdirSync(this.baseDir)
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => this.get(f.slice(0, -'.json'.length)))
+        .filter((info): info is WorktreeInfo => info !== null && (info.status === 'active' || info.status === 'kept'));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Übernimmt geänderte, gelöschte und neue Dateien des Checkouts in den
+   * Worktree und committet sie dort.
+   *
+   * @returns Commit mit dem übernommenen Stand (undefined = Checkout war sauber)
+   */
+  private async carryUncommitted(repoRoot: string, worktreePath: string): Promise<string | undefined> {
+    const patch = await runGit(['diff', '--binary', 'HEAD'], repoRoot);
+    const untracked = (await runGit(['ls-files', '--others', '--exclude-standard', '-z'], repoRoot))
+      .split('\0')
+      .filter(Boolean);
+    if (!patch.trim() && untracked.length === 0) return undefined;
+
+    if (patch.trim()) {
+      await runGit(['apply', '--binary', '--whitespace=nowarn', '-'], worktreePath, { input: patch });
+    }
+    for (const file of untracked) {
+      const target = path.join(worktreePath, file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(path.join(repoRoot, file), target);
+    }
+
+    await runGit(['add', '-A'], worktreePath);
+    await runGit([...BRIDGE_GIT_IDENTITY, 'commit', '-q', '--no-verify', '-m', 'bridge: uncommittete Änderungen des Checkouts'], worktreePath);
+    return (await runGit(['rev-parse', 'HEAD'], worktreePath)).trim();
+  }
+
+  private require(id: string, allowed: WorktreeStatus[]): WorktreeInfo {
+    const info = this.get(id);
+    if (!info) {
+      throw new WorktreeError(`Unbekannter Worktree: ${id}`);
+    }
+    if (!allowed.includes(info.status)) {
+      throw new WorktreeError(`Worktree ${id} ist bereits ${info.status}`);
+    }
+    return info;
+  }
+
+  private async removeWorktree(info: WorktreeInfo): Promise<void> {
+    if (info.status !== 'active') return;
+    await runGit(['worktree', 'remove', '--force', info.worktreePath], info.repoRoot);
+  }
+
+  private updateStatus(info: WorktreeInfo, status: WorktreeStatus): WorktreeInfo {
+    const updated = { ...info, status };
+    if (status === 'merged' || status === 'discarded') {
+      fs.rmSync(this.metadataFile(info.id), { force: true });
+    } else {
+      this.save(updated);
+    }
+    return updated;
+  }
+
+  private metadataFile(id: string): string {
+    return path.join(this.baseDir, `${id}.json`);
+  }
+
+  private save(info: WorktreeInfo): void {
+    fs.writeFileSync(this.metadataFile(info.id), JSON.stringify(info, null, 2));
+  }
+}
+
+export const worktreeManager = new WorktreeManager();
@@ -11,6 +11,7 @@
  * - Gemini agiert als "Lead Architect", Claude als "Hands-on Developer"
  */
 
+import * as crypto from "crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
@@ -20,14 +21,91 @@ import {
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { claudeWrapper } from "./ClaudeWrapper.js";
-import { geminiWrapper } from "./GeminiWrapper.js";
-import { parseTrigger, type ParsedTrigger } from "./TriggerParser.js";
+import type { ClaudeExecutionResult, ClaudeWrapperOptions } from "./ClaudeWrapper.js";
+import { MODEL_NAME_PATTERN, type AgentExecutionResult, type AgentWorker, type WorkerCapabilities } from "./AgentWorker.js";
+import { workerRegistry, WorkerRegistryError } from "./WorkerRegistry.js";
+import { parseTrigger, TriggerSyntaxError, type ParsedTrigger } from "./TriggerParser.js";
+import { createProgressReporter } from "./ProgressReporter.js";
+import { jobRegistry, JobRegistry, type Job } from "./JobRegistry.js";
+import {
+  PERMISSION_PROFILES,
+  PermissionProfileError,
+  isPermissionProfileName,
+  permissionPolicy,
+  type PermissionProfileName,
+} from "./PermissionProfiles.js";
+import { GitError } from "./GitRunner.js";
+import { DEFAULT_SESSION_NAME, SESSION_NAME_PATTERN, type SessionWorker } from "./SessionStore.js";
+import { transcriptStore } from "./TranscriptStore.js";
+import { AUDIT_EVENT_TYPES, auditLogger } from "./AuditLogger.js";
+import { mergeCounts, redactor } from "./Redactor.js";
+import { usageTracker, type UsageTotals } from "./UsageTracker.js";
+import { BudgetExceededError } from "./BudgetGuard.js";
+import { bridgeConfig, BridgeConfigError } from "./BridgeConfig.js";
+import { roleProfiles, RoleProfileError } from "./RoleProfiles.js";
+import { taskRouter, type RouteDecision } from "./TaskRouter.js";
+import {
+  DEFAULT_PAIR_ROUNDS,
+  MAX_PAIR_ROUNDS,
+  pairProgrammer,
+  type PairProgramResult,
+  type PairStep,
+} from "./PairProgrammer.js";
+import {
+  DEFAULT_OUTPUT_RETRIES,
+  MAX_OUTPUT_RETRIES,
+  OutputSchemaError,
+  StructuredOutput,
+} from "./StructuredOutput.js";
+import { USAGE_LIMIT_POLICIES, workerAvailability } from "./WorkerAvailability.js";
+import { formatChangeReport } from "./ChangeTracker.js";
+import { createFailure } from "./WorkerErrors.js";
+import {
+  worktreeManager,
+  WorktreeError,
+  type WorktreeDiff,
+  type WorktreeInfo,
+} from "./WorktreeManager.js";
 
 // ============================================================================
 // Zod Schemas für Tool-Inputs
 // ============================================================================
 
+/** Namen aller registrierten Worker (claude, gemini und konfigurierte CLIs) */
+const WORKER_NAMES = workerRegistry.names() as [string, ...string[]];
+
+const WorkerNameSchema = z.enum(WORKER_NAMES);
+
+const ModelSchema = z
+  .string()
+  .regex(MODEL_NAME_PATTERN, "Modell: Buchstaben, Ziffern, . _ : / - (max. 100 Zeichen)");
+
+const RoleSchema = z.enum(roleProfiles.names() as [string, ...string[]]);
+
+const OutputSchemaSchema = z
+  .record(z.unknown())
+  .describe("JSON Schema (draft-07), dem das Ergebnis entsprechen muss");
+
+const OutputRetriesSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(MAX_OUTPUT_RETRIES)
+  .describe(`Nachfragen bei ungültiger Antwort (default: ${DEFAULT_OUTPUT_RETRIES})`);
+
+const SessionNameSchema = z
+  .string()
+  .regex(SESSION_NAME_PATTERN, "Session-Name: Buchstaben, Ziffern, . _ - (max. 64 Zeichen)");
+
+/** Inline-Optionen eines Triggers, z.B. @claude[model=smart,timeout=20m] */
+const TriggerOptionsSchema = z.object({
+  model: ModelSchema.optional(),
+  role: RoleSchema.optional(),
+  timeout: z.number().min(10000, "mindestens 10s").max(3600000, "höchstens 1h").optional(),
+  session: SessionNameSchema.optional(),
+  permission: z.string().optional(),
+});
+
 const DelegateTaskSchema = z.object({
   instruction: z
     .string()
@@ -54,51 +132,958 @@ const DelegateTaskSchema = z.object({
     .boolean()
     .optional()
     .describe("Session automatisch fortsetzen (default: true). Auf false setzen für neue Session."),
+  sessionName: SessionNameSchema
+    .optional()
+    .describe("Name der Session im Arbeitsverzeichnis (default: \"default\")"),
+  sessionTags: z
+    .array(z.string().min(1).max(64))
+    .max(20)
+    .optional()
+    .describe("Tags für die Session (ersetzen bestehende Tags)"),
+  forkFrom: SessionNameSchema
+    .optional()
+    .describe("Name einer bestehenden Session, von der abgezweigt wird (braucht sessionName)"),
+  overwriteSession: z
+    .boolean()
+    .optional()
+    .describe("Bei forkFrom eine bestehende Ziel-Session sessionName ersetzen (default: false)"),
+  permissionProfile: z
+    .enum(PERMISSION_PROFILES)
+    .optional()
+    .describe("Rechte-Profil: read-only, edit-no-shell oder full"),
+  includePatch: z
+    .boolean()
+    .optional()
+    .describe("Vollständigen Patch im Änderungsbericht mitliefern (default: false)"),
+  isolation: z
+    .enum(["none", "worktree"])
+    .default("none")
+    .describe("worktree: in temporärem git-Worktree ausführen und Diff zurückgeben"),
+  model: ModelSchema.optional().describe("Modell oder Alias (fast, smart) - default laut Projekt-/Bridge-Konfiguration"),
+  role: RoleSchema.optional().describe("Rolle mit System-Prompt und Ergebnisformat - default laut Projekt-/Bridge-Konfiguration"),
+  outputSchema: OutputSchemaSchema.optional(),
+  outputRetries: OutputRetriesSchema.optional(),
+  onUsageLimit: z
+    .enum(USAGE_LIMIT_POLICIES)
+    .optional()
+    .describe("Verhalten bei erreichtem Nutzungslimit: fail, fallback oder defer (default: fail)"),
+}).superRefine((input, ctx) => {
+  if (!input.forkFrom) return;
+  if (!input.sessionName) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["sessionName"],
+      message: "forkFrom braucht sessionName - sonst würde der Fork die Session \"default\" ersetzen",
+    });
+  } else if (input.sessionName === input.forkFrom) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sessionName"], message: "sessionName muss sich von forkFrom unterscheiden" });
+  }
 });
 
 type DelegateTaskInput = z.infer<typeof DelegateTaskSchema>;
 
-// ============================================================================
-// MCP Server Setup
-// ============================================================================
+const DelegateToGeminiSchema = z.object({
+  instruction: z
+    .string()
+    .min(1, "Instruction darf nicht leer sein")
+    .describe("Die Aufgabenbeschreibung für den Worker"),
+  workingDirectory: z
+    .string()
+    .optional()
+    .describe("Arbeitsverzeichnis für die Task-Ausführung"),
+  timeout: z
+    .number()
+    .min(10000)
+    .max(3600000)
+    .optional()
+    .describe("Timeout in ms (10s - 1h)"),
+  continueSession: z
+    .boolean()
+    .optional()
+    .describe("Session fortsetzen (default: true)"),
+  permissionProfile: z
+    .enum(PERMISSION_PROFILES)
+    .optional()
+    .describe("Rechte-Profil: read-only, edit-no-shell oder full"),
+  includePatch: z
+    .boolean()
+    .optional()
+    .describe("Vollständigen Patch im Änderungsbericht mitliefern (default: false)"),
+  model: ModelSchema.optional().describe("Modell oder Alias (fast, smart)"),
+  role: RoleSchema.optional().describe("Rolle (implementer, reviewer, tester, planner, ...)"),
+  outputSchema: OutputSchemaSchema.optional(),
+  outputRetries: OutputRetriesSchema.optional(),
+  onUsageLimit: z
+    .enum(USAGE_LIMIT_POLICIES)
+    .optional()
+    .describe("Verhalten bei erreichtem Nutzungslimit: fail, fallback oder defer (default: fail)"),
+});
 
-const server = new Server(
-  {
-    name: "gemini-claude-bridge",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+/** delegate: Session-Wahl nur über den Trigger (session=) */
+const DelegateSchema = DelegateToGeminiSchema.omit({ continueSession: true });
+
+const StartTaskSchema = z.object({
+  worker: WorkerNameSchema.optional().describe("Ziel-Worker (default: defaultWorker der BridgeConfig, sonst claude)"),
+  instruction: z
+    .string()
+    .min(1, "Instruction darf nicht leer sein")
+    .describe("Die Aufgabenbeschreibung für den Worker"),
+  workingDirectory: z
+    .string()
+    .optional()
+    .describe("Arbeitsverzeichnis für die Task-Ausführung"),
+  timeout: z
+    .number()
+    .min(10000)
+    .max(3600000)
+    .optional()
+    .describe("Timeout in ms (10s - 1h)"),
+  sessionId: z
+    .string()
+    .uuid()
+    .optional()
+    .describe("Session-ID für explizite Session-Wiederaufnahme (nur Claude)"),
+  continueSession: z
+    .boolean()
+    .optional()
+    .describe("Session automatisch fortsetzen (default: true)"),
+  permissionProfile: z
+    .enum(PERMISSION_PROFILES)
+    .optional()
+    .describe("Rechte-Profil: read-only, edit-no-shell oder full"),
+  includePatch: z
+    .boolean()
+    .optional()
+    .describe("Vollständigen Patch im Änderungsbericht mitliefern (default: false)"),
+  onUsageLimit: z
+    .enum(USAGE_LIMIT_POLICIES)
+    .optional()
+    .describe("Verhalten bei erreichtem Nutzungslimit: fail, fallback oder defer (default: fail)"),
+});
+
+/** Session für second_opinion, damit die Default-Session unberührt bleibt (nur Worker mit benannten Sessions) */
+const SECOND_OPINION_SESSION = "second-opinion";
+
+const SecondOpinionSchema = z.object({
+  instruction: z
+    .string()
+    .min(1, "Instruction darf nicht leer sein")
+    .describe("Die Aufgabe bzw. Frage, die alle Worker unabhängig beantworten"),
+  workingDirectory: z
+    .string()
+    .optional()
+    .describe("Arbeitsverzeichnis für die Task-Ausführung"),
+  workers: z
+    .array(WorkerNameSchema)
+    .min(2, "Mindestens zwei Worker")
+    .refine((workers) => new Set(workers).size === workers.length, "Worker doppelt angegeben")
+    .default(["claude", "gemini"])
+    .describe("Befragte Worker (default: claude und gemini)"),
+  timeout: z
+    .number()
+    .min(10000)
+    .max(3600000)
+    .optional()
+    .describe("Timeout in ms pro Worker (10s - 1h)"),
+  permissionProfile: z
+    .enum(PERMISSION_PROFILES)
+    .default("read-only")
+    .describe("Rechte-Profil (default: read-only)"),
+  role: RoleSchema.optional().describe("Rolle für alle Worker"),
+  compare: z
+    .boolean()
+    .default(false)
+    .describe("Dritter Durchlauf: ein Worker stellt Übereinstimmungen und Unterschiede gegenüber"),
+  comparator: WorkerNameSchema.optional().describe("Worker für den Vergleich (default: erster Worker)"),
+});
+
+const PairProgramSchema = z.object({
+  instruction: z
+    .string()
+    .min(1, "Instruction darf nicht leer sein")
+    .describe("Die Aufgabe für den Implementer"),
+  workingDirectory: z
+    .string()
+    .optional()
+    .describe("Arbeitsverzeichnis für die Task-Ausführung"),
+  implementer: WorkerNameSchema.default("claude").describe("Worker, der umsetzt (default: claude)"),
+  reviewer: WorkerNameSchema.default("gemini").describe("Worker, der reviewt (default: gemini)"),
+  maxRounds: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAIR_ROUNDS)
+    .default(DEFAULT_PAIR_ROUNDS)
+    .describe(`Maximale Anzahl Runden aus Umsetzung und Review (default: ${DEFAULT_PAIR_ROUNDS})`),
+  timeout: z
+    .number()
+    .min(10000)
+    .max(3600000)
+    .optional()
+    .describe("Timeout in ms pro Schritt (10s - 1h)"),
+  permissionProfile: z
+    .enum(PERMISSION_PROFILES)
+    .optional()
+    .describe("Rechte-Profil des Implementers (der Reviewer arbeitet read-only)"),
+  model: ModelSchema.optional().describe("Modell oder Alias für den Implementer"),
+  reviewerModel: ModelSchema.optional().describe("Modell oder Alias für den Reviewer"),
+});
+
+const ClearSessionSchema = z.object({
+  worker: WorkerNameSchema.default("claude").describe("Worker der Session (default: claude)"),
+  workingDirectory: z.string().min(1).describe("Arbeitsverzeichnis der Session"),
+  sessionName: SessionNameSchema.default(DEFAULT_SESSION_NAME).describe("Name der Session"),
+});
+
+const ListSessionsSchema = z.object({
+  worker: WorkerNameSchema.optional().describe("Nur Sessions dieses Workers (default: alle)"),
+  workingDirectory: z.string().optional().describe("Nur Sessions dieses Verzeichnisses"),
+  tag: z.string().optional().describe("Nur Sessions mit diesem Tag"),
+});
+
+const DateStringSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Ungültiges Datum (ISO 8601 erwartet)");
+
+const SessionHistorySchema = z.object({
+  workingDirectory: z.string().min(1).describe("Arbeitsverzeichnis der Session"),
+  worker: WorkerNameSchema.default("claude").describe("Worker der Session"),
+  sessionName: SessionNameSchema.default(DEFAULT_SESSION_NAME).describe("Name der Session"),
+  status: z.enum(["success", "failed", "cancelled"]).optional().describe("Nur Einträge mit diesem Status"),
+  since: DateStringSchema.optional().describe("Nur Einträge ab diesem Zeitpunkt"),
+  until: DateStringSchema.optional().describe("Nur Einträge bis zu diesem Zeitpunkt"),
+  offset: z.number().int().min(0).default(0).describe("Übersprungene Einträge (neueste zuerst)"),
+  limit: z.number().int().min(1).max(100).default(20).describe("Einträge pro Seite"),
+  includeOutput: z.boolean().default(true).describe("Ausgaben mitliefern"),
+});
+
+const QueryLogsSchema = z.object({
+  workingDirectory: z.string().optional().describe("Nur Ereignisse dieses Verzeichnisses"),
+  worker: WorkerNameSchema.optional().describe("Nur Ereignisse dieses Workers"),
+  status: z.enum(["success", "failed", "cancelled"]).optional().describe("Nur Abschluss-Ereignisse mit diesem Status"),
+  event: z.enum(AUDIT_EVENT_TYPES).optional().describe("Nur Ereignisse dieses Typs"),
+  taskId: z.string().optional().describe("Nur Ereignisse dieses Tasks"),
+  correlationId: z.string().optional().describe("Nur Ereignisse mit dieser Correlation-ID (z.B. Job-ID)"),
+  since: DateStringSchema.optional().describe("Nur Ereignisse ab diesem Zeitpunkt"),
+  until: DateStringSchema.optional().describe("Nur Ereignisse bis zu diesem Zeitpunkt"),
+  limit: z.number().int().min(1).max(500).default(50).describe("Maximale Anzahl Ereignisse"),
+});
+
+const UsageReportSchema = z.object({
+  since: DateStringSchema.optional().describe("Beginn des Zeitfensters (default: vor 7 Tagen)"),
+  until: DateStringSchema.optional().describe("Ende des Zeitfensters (default: jetzt)"),
+  workingDirectory: z.string().optional().describe("Nur dieses Arbeitsverzeichnis"),
+  worker: WorkerNameSchema.optional().describe("Nur dieser Worker"),
+  sessionName: SessionNameSchema.optional().describe("Nur diese Session"),
+});
+
+const WorkerStatusSchema = z.object({
+  clearLimit: WorkerNameSchema
+    .optional()
+    .describe("Hebt die Limit-Sperre dieses Workers auf (z.B. nach einem Abo-Upgrade)"),
+});
+
+const WorktreeIdSchema = z.object({
+  worktreeId: z.string().min(1).describe("Worktree-ID aus delegate_coding_task"),
+});
+
+const JobIdSchema = z.object({
+  jobId: z.string().uuid().describe("Job-ID aus start_task"),
+});
+
+const WaitForTaskSchema = JobIdSchema.extend({
+  timeout: z
+    .number()
+    .min(1000)
+    .max(3600000)
+    .default(30000)
+    .describe("Maximale Wartezeit in ms (default: 30s)"),
+});
+
+/**
+ * Validiert Tool-Argumente gegen ein Zod-Schema.
+ *
+ * @throws McpError (InvalidParams) mit allen Validierungsfehlern
+ */
+function parseArgs<T extends z.ZodTypeAny>(schema: T, args: unknown): z.infer<T> {
+  const parseResult = schema.safeParse(args ?? {});
+
+  if (!parseResult.success) {
+    const errorMessages = parseResult.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("; ");
+
+    throw new McpError(ErrorCode.InvalidParams, `Validation failed: ${errorMessages}`);
   }
-);
+
+  return parseResult.data;
+}
+
+/**
+ * Bestimmt das Rechte-Profil für einen Aufruf (Default und Verzeichnis-Obergrenze).
+ *
+ * @throws McpError (InvalidParams) bei unbekanntem oder nicht erlaubtem Profil
+ */
+function resolvePermissionProfile(
+  requested: unknown,
+  workingDirectory: string | undefined
+): PermissionProfileName {
+  if (requested !== undefined && !isPermissionProfileName(requested)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unbekanntes Rechte-Profil "${String(requested)}" (erlaubt: ${PERMISSION_PROFILES.join(", ")})`
+    );
+  }
+
+  try {
+    return permissionPolicy.resolve(requested, workingDirectory ?? process.cwd());
+  } catch (error) {
+    if (error instanceof PermissionProfileError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Default-Worker für ein Arbeitsverzeichnis laut BridgeConfig.
+ */
+function defaultWorkerFor(workingDirectory: string | undefined): string {
+  try {
+    return bridgeConfig.defaultWorker(workingDirectory ?? process.cwd());
+  } catch (error) {
+    return rethrowRejection(error);
+  }
+}
+
+/**
+ * Worker für einen delegate-Aufruf ohne Trigger laut TaskRouter.
+ */
+function routeTask(instruction: string, workingDirectory: string | undefined): RouteDecision {
+  try {
+    return taskRouter.route(instruction, workingDirectory);
+  } catch (error) {
+    return rethrowRejection(error);
+  }
+}
+
+/**
+ * Liefert einen registrierten Worker oder einen McpError mit den verfügbaren Namen.
+ */
+function requireWorker(name: string): AgentWorker {
+  try {
+    return workerRegistry.require(name);
+  } catch (error) {
+    if (error instanceof WorkerRegistryError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Übersetzt Worktree- und git-Fehler in McpErrors.
+ */
+function worktreeMcpError(error: unknown): McpError {
+  if (error instanceof WorktreeError) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  if (error instanceof GitError) {
+    return new McpError(ErrorCode.InternalError, error.message);
+  }
+  return new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Übersetzt eine Ablehnung vor dem Start in einen McpError: Budget-Limits mit
+ * Limit und Reset-Zeitpunkt, ungültige Projektkonfiguration mit Datei und
+ * Fehlern, unbekannte Rollen und ungültige outputSchemas. Alle anderen Fehler
+ * werden unverändert weitergeworfen.
+ */
+function rethrowRejection(error: unknown): never {
+  if (error instanceof BridgeConfigError) {
+    throw new McpError(ErrorCode.InvalidParams, error.message, { file: error.file, issues: error.issues });
+  }
+  if (error instanceof OutputSchemaError) {
+    throw new McpError(ErrorCode.InvalidParams, error.message, { issues: error.issues });
+  }
+  if (error instanceof RoleProfileError) {
+    throw new McpError(ErrorCode.InvalidParams, error.message, { role: error.role, available: roleProfiles.names() });
+  }
+  if (error instanceof BudgetExceededError) {
+    throw new McpError(ErrorCode.InvalidRequest, error.message, {
+      limit: error.limit,
+      current: error.current,
+      maximum: error.maximum,
+      resetAt: error.resetAt.toISOString(),
+    });
+  }
+  throw error;
+}
+
+/**
+ * Ergebnisse paralleler Läufe: Ein abgelehntes Ziel (Budget, Konfiguration,
+ * Rolle) wird zu einem fehlgeschlagenen Ergebnis mit failure.kind "rejected",
+ * damit die übrigen Antworten erhalten bleiben. Scheitern alle, wird die
+ * erste Ablehnung wie bei einem einzelnen Lauf geworfen.
+ */
+function settledResults<T extends AgentExecutionResult>(settled: PromiseSettledResult<T>[]): T[] {
+  const fulfilled = settled.filter((entry): entry is PromiseFulfilledResult<T> => entry.status === "fulfilled");
+  if (fulfilled.length === 0 && settled.length > 0) {
+    rethrowRejection((settled[0] as PromiseRejectedResult).reason);
+  }
+  return settled.map((entry) => entry.status === "fulfilled" ? entry.value : rejectedResult<T>(entry.reason));
+}
+
+/**
+ * Fehlgeschlagenes Ergebnis für einen abgelehnten Lauf (failure.kind "rejected").
+ */
+function rejectedResult<T extends AgentExecutionResult>(error: unknown): T {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    success: false,
+    output: `[REJECTED] ${message}`,
+    exitCode: null,
+    duration: 0,
+    failure: createFailure("rejected", message),
+  } as T;
+}
+
+/**
+ * Führt einen Task beim gewünschten Worker aus. Bei onUsageLimit="fallback"
+ * und erreichtem Nutzungslimit übernimmt der Fallback-Worker (siehe
+ * WorkerRegistry.fallbackFor) - ohne die Session-Optionen, die nur für den
+ * ursprünglichen Worker gelten. Ein Modell-Alias wie "fast" bleibt erhalten,
+ * wenn der Fallback-Worker ihn kennt, konkrete Modellnamen entfallen.
+ * (Ergebnisse anderer Worker sind eine Teilmenge von ClaudeExecutionResult.)
+ */
+async function executeWithFallback(
+  worker: SessionWorker,
+  instruction: string,
+  options: ClaudeWrapperOptions
+): Promise<ClaudeExecutionResult> {
+  const result = await requireWorker(worker).execute(instruction, options);
+  if (options.onUsageLimit !== "fallback" || result.failure?.kind !== "usage_limit") return result;
+
+  const other = workerRegistry.fallbackFor(worker);
+  const fallbackWorker = requireWorker(other);
+  options.onProgress?.({ kind: "retry", message: `${worker}: ${result.failure.message} - übergebe an ${other}` });
+  const fallback = await fallbackWorker.execute(instruction, {
+    ...options,
+    model: options.model && options.model in fallbackWorker.modelAliases ? options.model : undefined,
+    sessionId: undefined,
+    sessionName: undefined,
+    sessionTags: undefined,
+    forkFrom: undefined,
+    onUsageLimit: "fail",
+  });
+  return { ...fallback, fallbackFrom: worker };
+}
+
+/**
+ * Führt einen Task aus und prüft die Antwort gegen das outputSchema des
+ * Aufrufers. Ist sie ungültig, wird bis zu outputRetries-mal in derselben
+ * Session nachgefragt (Worker ohne Sessions bekommen ihre vorige Antwort mit).
+ * Änderungsbericht und Tool-Events stammen aus dem ersten Lauf, Ausgabe und
+ * Session aus dem letzten; die Dauer ist die Summe aller Läufe. Nachfragen
+ * laufen read-only und ohne Änderungserfassung, da nur das JSON fehlt. Bleibt die
+ * Antwort ungültig, scheitert das Ergebnis mit invalid_output.
+ *
+ * @throws OutputSchemaError wenn das outputSchema kein gültiges JSON Schema ist
+ */
+async function executeWithOutputSchema(
+  worker: SessionWorker,
+  instruction: string,
+  options: ClaudeWrapperOptions,
+  outputSchema: Record<string, unknown> | undefined,
+  outputRetries = DEFAULT_OUTPUT_RETRIES
+): Promise<ClaudeExecutionResult> {
+  if (!outputSchema) return executeWithFallback(worker, instruction, options);
+
+  const structured = new StructuredOutput(outputSchema);
+  const first = await executeWithFallback(worker, structured.instruction(instruction), options);
+  let result = first;
+  let duration = first.duration;
+  let check = structured.check(first.output);
+  let attempts = 1;
+
+  while (result.success && !check.valid && attempts <= outputRetries) {
+    const current = executedBy(worker, result);
+    const resumable = requireWorker(current).capabilities.sessions;
+    options.onProgress?.({
+      kind: "retry",
+      message: `Antwort entspricht nicht dem outputSchema (${check.errors.length} Fehler) - frage nach (${attempts}/${outputRetries})`,
+    });
+    const repaired = await executeWithFallback(current, structured.repairInstruction(check.errors, resumable ? undefined : result.output), {
+      ...options,
+      sessionId: current === "claude" ? result.sessionId : undefined,
+      continueSession: true,
+      sessionName: result.sessionName,
+      sessionTags: undefined,
+      forkFrom: undefined,
+      onUsageLimit: "fail",
+      permissionProfile: "read-only",
+      trackChanges: false,
+    });
+    result = { ...repaired, fallbackFrom: first.fallbackFrom };
+    duration += repaired.duration;
+    attempts++;
+    if (repaired.success) check = structured.check(repaired.output);
+  }
+
+  const merged: ClaudeExecutionResult = {
+    ...result,
+    duration,
+    changes: first.changes,
+    filesTouched: first.filesTouched,
+    toolUses: first.toolUses,
+    structuredOutput: { ...check, attempts },
+  };
+  if (!result.success || check.valid) return merged;
+  return {
+    ...merged,
+    success: false,
+    failure: createFailure("invalid_output", check.errors.slice(0, 3).join("; ")),
+  };
+}
+
+/**
+ * Auftrag für den Vergleichsdurchlauf von second_opinion.
+ */
+function comparisonInstruction(instruction: string, workers: string[], answers: AgentExecutionResult[]): string {
+  const sections = workers.map((worker, index) => `ANTWORT VON ${worker.toUpperCase()}:\n${answers[index].output}`);
+  return `Vergleiche die folgenden Antworten verschiedener Coding-Agenten auf dieselbe Aufgabe. Ändere keine Dateien.
+
+AUFGABE:
+${instruction}
+
+${sections.join("\n\n")}
+
+Gliedere deinen Vergleich in:
+ÜBEREINSTIMMUNGEN: <Punkte, in denen die Antworten übereinstimmen>
+UNTERSCHIEDE: <je Punkt die Positionen der Agenten und welche besser begründet ist>
+FAZIT: <Empfehlung in ein bis drei Sätzen>`;
+}
+
+/**
+ * Worker, der das Ergebnis tatsächlich geliefert hat (nach einem Fallback der Fallback-Worker).
+ */
+function executedBy(worker: SessionWorker, result: AgentExecutionResult): SessionWorker {
+  return result.fallbackFrom ? workerRegistry.fallbackFor(worker) : worker;
+}
 
 // ============================================================================
-// Tool: delegate_coding_task
+// Ergebnis-Formatierung
 // ============================================================================
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+/**
+ * Baut den strukturierten Teil eines Claude-Ergebnisses (MCP structuredContent).
+ * Tool-Inputs werden weggelassen, da sie ganze Dateiinhalte enthalten können.
+ */
+function claudeStructuredContent(result: ClaudeExecutionResult): Record<string, unknown> {
   return {
-    tools: [
-      {
-        name: "delegate_coding_task",
-        description: `Delegiert eine Coding-Aufgabe an Claude Code CLI.
+    worker: "claude",
+    taskId: result.taskId,
+    success: result.success,
+    exitCode: result.exitCode,
+    durationMs: result.duration,
+    sessionId: result.sessionId,
+    sessionName: result.sessionName,
+    model: result.model,
+    role: result.role,
+    finalMessage: result.finalMessage,
+    numTurns: result.numTurns,
+    usage: result.usage,
+    costUsd: result.costUsd,
+    errorSubtype: result.errorSubtype,
+    permissionProfile: result.permissionProfile,
+    queuePosition: result.queuePosition,
+    queueWaitMs: result.queueWaitMs,
+    changes: result.changes,
+    failure: result.failure,
+    attempts: result.attempts,
+    redactions: result.redactions,
+    fallbackFrom: result.fallbackFrom,
+    structuredOutput: result.structuredOutput?.value,
+    outputValidation: result.structuredOutput && {
+      valid: result.structuredOutput.valid,
+      errors: result.structuredOutput.errors,
+      attempts: result.structuredOutput.attempts,
+    },
+    filesTouched: result.filesTouched ?? [],
+    toolUses: (result.toolUses ?? []).map((t) => ({
+      id: t.id,
+      name: t.name,
+      filePath: t.filePath,
+      isError: t.isError,
+    })),
+  };
+}
 
-VERWENDUNG:
-- Code schreiben, analysieren, debuggen, refactoren
-- Dateien lesen, erstellen, bearbeiten
-- Git-Operationen durchführen
-- Tests schreiben und ausführen
-- Projektstrukturen erstellen
+/**
+ * Baut den strukturierten Teil eines Ergebnisses von Gemini oder einem
+ * konfigurierten Worker. Felder, die der Worker nicht meldet, bleiben leer.
+ */
+function agentStructuredContent(worker: SessionWorker, result: AgentExecutionResult): Record<string, unknown> {
+  return {
+    worker,
+    taskId: result.taskId,
+    success: result.success,
+    exitCode: result.exitCode,
+    durationMs: result.duration,
+    sessionId: result.sessionId,
+    sessionName: result.sessionName,
+    model: result.model,
+    role: result.role,
+    usage: result.usage,
+    costUsd: result.costUsd,
+    permissionProfile: result.permissionProfile,
+    queuePosition: result.queuePosition,
+    queueWaitMs: result.queueWaitMs,
+    changes: result.changes,
+    failure: result.failure,
+    attempts: result.attempts,
+    redactions: result.redactions,
+    fallbackFrom: result.fallbackFrom,
+    structuredOutput: result.structuredOutput?.value,
+    outputValidation: result.structuredOutput && {
+      valid: result.structuredOutput.valid,
+      errors: result.structuredOutput.errors,
+      attempts: result.structuredOutput.attempts,
+    },
+  };
+}
 
-SESSION-PERSISTENZ:
-- Sessions werden automatisch pro Arbeitsverzeichnis gespeichert
-- Claude behält den Kontext zwischen Aufrufen
-- Setze continueSession=false für eine frische Session
+/**
+ * Strukturierter Teil passend zum Worker, der das Ergebnis geliefert hat.
+ */
+function workerStructuredContent(worker: SessionWorker, result: ClaudeExecutionResult): Record<string, unknown> {
+  const executor = executedBy(worker, result);
+  return executor === "claude"
+    ? claudeStructuredContent(result)
+    : agentStructuredContent(executor, result);
+}
 
-Claude hat VOLLSTÄNDIGEN Zugriff auf das Dateisystem und kann autonom arbeiten.
-Nutze dieses Tool SOFORT wenn Code-Arbeit erforderlich ist.
+/**
+ * Strukturierte Darstellung eines asynchronen Jobs.
+ */
+function jobStructuredContent(job: Job): Record<string, unknown> {
+  let result: Record<string, unknown> | undefined;
+  if (job.result) {
+    result = workerStructuredContent(job.worker, job.result);
+  }
+
+  return {
+    jobId: job.id,
+    worker: job.worker,
+    status: job.status,
+    workingDirectory: job.workingDirectory,
+    startedAt: job.startedAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
+    durationMs: JobRegistry.durationOf(job),
+    lastActivity: job.lastActivity?.message,
+    partialOutput: job.status === "running" ? job.partialOutput : undefined,
+    output: job.result?.output,
+    error: job.error,
+    result,
+  };
+}
+
+/**
+ * Text-Darstellung eines Jobs: Status-Kopf plus Ergebnis oder Teil-Ausgabe.
+ */
+function formatJob(job: Job): string {
+  const durationSec = (JobRegistry.durationOf(job) / 1000).toFixed(1);
+  const header = `[JOB ${job.status.toUpperCase()}] ${job.worker} (${durationSec}s)\n[Job: ${job.id}]`;
+
+  if (job.status === "running") {
+    const activity = job.lastActivity ? `\n[Letzte Aktivität: ${job.lastActivity.kind}: ${job.lastActivity.message}]` : "";
+    const partial = job.partialOutput.trim() || "(noch keine Ausgabe)";
+    return `${header}${activity}\n\nPartielle Ausgabe:\n${partial}`;
+  }
+
+  const changes = job.result ? changesSection(job.result) : "";
+  return `${header}\n\n${job.result?.output ?? job.error ?? ""}${changes}`;
+}
+
+/**
+ * Text-Abschnitt für einen Worktree-Lauf: Branch, Diffstat, Patch und nächste Schritte.
+ */
+function formatWorktreeSection(worktree: WorktreeInfo, diff: WorktreeDiff): string {
+  const summary = diff.commit ? diff.diffStat : "Keine Änderungen";
+  return `
+
+--- WORKTREE ${worktree.id} (Branch: ${worktree.branch}) ---
+${summary}${diff.commit ? `\n\n${diff.diff}` : ""}
+
+Nächste Schritte: merge_worktree, discard_worktree oder keep_worktree mit worktreeId="${worktree.id}"`;
+}
+
+/**
+ * Text-Abschnitt für einen Worktree-Lauf, dessen Diff nicht ermittelt werden konnte.
+ */
+function formatWorktreeError(worktree: WorktreeInfo, error: string): string {
+  return `
+
+--- WORKTREE ${worktree.id} (Branch: ${worktree.branch}) ---
+Diff konnte nicht ermittelt werden: ${error}
+Die Änderungen liegen weiterhin in ${worktree.worktreePath}.
+
+Nächste Schritte: merge_worktree, discard_worktree oder keep_worktree mit worktreeId="${worktree.id}"`;
+}
+
+/**
+ * Text-Abschnitt mit den Änderungen im Arbeitsverzeichnis (leer ohne Bericht).
+ */
+function changesSection(result: AgentExecutionResult): string {
+  if (!result.changes) return "";
+  const patch = result.changes.patch ? `\n\n${result.changes.patch}` : "";
+  return `\n\n--- ÄNDERUNGEN ---\n${formatChangeReport(result.changes)}${patch}`;
+}
+
+/**
+ * Fehlerklasse und Anzahl der Versuche (leer bei Erfolg im ersten Versuch).
+ */
+function failureInfoLine(result: AgentExecutionResult): string {
+  const parts: string[] = [];
+  if (result.failure) parts.push(`Fehlerklasse: ${result.failure.kind} - ${result.failure.message}`);
+  if ((result.attempts ?? 1) > 1) parts.push(`Versuche: ${result.attempts}`);
+  return parts.length > 0 ? `\n[${parts.join(" | ")}]` : "";
+}
+
+/**
+ * Verwendetes Modell und Rolle (leer, wenn weder gewählt noch von der CLI gemeldet).
+ */
+function modelInfoLine(result: AgentExecutionResult): string {
+  const model = result.model ? `\n[Modell: ${result.model}]` : "";
+  return result.role ? `${model}\n[Rolle: ${result.role}]` : model;
+}
+
+/**
+ * Routing-Entscheidung für delegate ohne Trigger.
+ */
+function routeInfo(route: RouteDecision): string {
+  if (!route.rule) return `[Standard: ${route.worker} (${route.reason})]`;
+  const category = route.category ? `, ${route.category}` : "";
+  return `[Router: ${route.worker} - Regel "${route.rule}" (${route.source}${category}): ${route.reason}]`;
+}
+
+/**
+ * Ergebnis einer pair_program-Schleife in einer Zeile.
+ */
+function pairStatusLine(pair: PairProgramResult): string {
+  switch (pair.status) {
+    case "approved":
+      return `✓ FREIGEGEBEN nach ${pair.rounds} Runde(n)`;
+    case "max_rounds":
+      return `✗ NICHT FREIGEGEBEN nach ${pair.rounds} Runde(n) (maxRounds erreicht)`;
+    case "implementer_failed":
+      return `✗ IMPLEMENTER FEHLGESCHLAGEN in Runde ${pair.rounds}`;
+    case "reviewer_failed":
+      return `✗ REVIEWER FEHLGESCHLAGEN in Runde ${pair.rounds}`;
+    case "aborted":
+      return `✗ ABGEBROCHEN in Runde ${pair.rounds}: ${pair.error}`;
+  }
+}
+
+/**
+ * Ein Schritt einer pair_program-Schleife (Umsetzung mit Änderungsliste, Review mit Urteil).
+ */
+function formatPairStep(step: PairStep): string {
+  const result = step.result;
+  const durationSec = (result.duration / 1000).toFixed(1);
+  const action = step.step === "implement"
+    ? `setzt um ${result.success ? "✓" : "✗"}`
+    : `Review: ${step.verdict ? step.verdict.toUpperCase() : result.success ? "KEIN URTEIL ERKANNT" : "✗"}`;
+  const changes = step.step === "implement" && result.changes ? `\n\nÄnderungen:\n${formatChangeReport(result.changes)}` : "";
+  return `── Runde ${step.round} · @${step.worker.toUpperCase()} ${action} (${durationSec}s) ──${modelInfoLine(result)}${queueInfoLine(result)}${failureInfoLine(result)}${redactionInfoLine(result)}\n\n${result.output}${changes}`;
+}
+
+/**
+ * Hinweis auf einen Fallback wegen Nutzungslimit (leer ohne Fallback).
+ */
+function fallbackInfoLine(worker: SessionWorker, result: AgentExecutionResult): string {
+  if (!result.fallbackFrom) return "";
+  return `\n[Fallback: ${result.fallbackFrom} → ${executedBy(worker, result)} (Nutzungslimit erreicht)]`;
+}
+
+/**
+ * Ergebnis der outputSchema-Prüfung (leer ohne outputSchema).
+ */
+function outputInfoLine(result: AgentExecutionResult): string {
+  const validation = result.structuredOutput;
+  if (!validation) return "";
+  const status = validation.valid ? "gültig, Objekt in structuredContent.structuredOutput" : "ungültig";
+  return `\n[Output-Schema: ${status} (${validation.attempts} Antwort(en))]`;
+}
+
+/**
+ * Hinweis auf redigierte Secrets (leer, wenn nichts ersetzt wurde).
+ */
+function redactionInfoLine(result: AgentExecutionResult): string {
+  if (!result.redactions) return "";
+  const entries = Object.entries(result.redactions);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  return `\n[Redigiert: ${total} Secret(s) - ${entries.map(([name, count]) => `${name} ×${count}`).join(", ")}]`;
+}
+
+/**
+ * Eine Zeile pro Gruppe eines Verbrauchsberichts.
+ */
+function formatUsageTotals(label: string, totals: UsageTotals): string {
+  const tokens = totals.inputTokens + totals.outputTokens + totals.cacheReadTokens + totals.cacheCreationTokens;
+  const cost = totals.tasksWithCost > 0 ? ` | $${totals.costUsd.toFixed(4)}` : "";
+  return `• ${label}: ${totals.tasks} Task(s), ${totals.successful} erfolgreich | ${tokens} Tokens`
+    + ` | ${(totals.durationMs / 1000).toFixed(0)}s | ${totals.turns} Turns${cost}`;
+}
+
+/**
+ * Hinweis auf Wartezeit in der Verzeichnis-Warteschlange (leer, wenn sofort gestartet).
+ */
+function queueInfoLine(result: AgentExecutionResult): string {
+  if (!result.queuePosition) return "";
+  const waitSec = ((result.queueWaitMs ?? 0) / 1000).toFixed(1);
+  return `\n[Warteschlange: Position ${result.queuePosition}, ${waitSec}s gewartet]`;
+}
+
+/**
+ * Kurze Statistik-Zeile für die Text-Ausgabe (Turns, Tools, Dateien, Kosten).
+ */
+function claudeStatsLine(result: ClaudeExecutionResult): string {
+  const parts: string[] = [];
+  if (result.numTurns !== undefined) parts.push(`Turns: ${result.numTurns}`);
+  if (result.toolUses?.length) parts.push(`Tool-Aufrufe: ${result.toolUses.length}`);
+  if (result.filesTouched?.length) parts.push(`Dateien: ${result.filesTouched.join(", ")}`);
+  if (result.costUsd !== undefined) parts.push(`Kosten: $${result.costUsd.toFixed(4)}`);
+  return parts.length > 0 ? `\n[${parts.join(" | ")}]` : "";
+}
+
+// ============================================================================
+// MCP Server Setup
+// ============================================================================
+
+const server = new Server(
+  {
+    name: "gemini-claude-bridge",
+    version: "1.0.0",
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+// ============================================================================
+// Tool: delegate_coding_task
+// ============================================================================
+
+/** Gemeinsame JSON-Schema-Property für alle Delegations-Tools */
+const permissionProfileProperty = {
+  type: "string",
+  enum: [...PERMISSION_PROFILES],
+  description:
+    "Rechte-Profil: read-only (nur lesen), edit-no-shell (bearbeiten ohne Shell) oder full. Default: konfiguriert, begrenzt pro Verzeichnis.",
+};
+
+const sessionNameProperty = {
+  type: "string",
+  pattern: SESSION_NAME_PATTERN.source,
+  description: "Name der Session im Arbeitsverzeichnis (default: \"default\").",
+};
+
+const includePatchProperty = {
+  type: "boolean",
+  description:
+    "Vollständigen Patch im Änderungsbericht mitliefern (default: false). Dateiliste und Diffstat kommen immer.",
+  default: false,
+};
+
+const modelProperty = {
+  type: "string",
+  description:
+    "Modell für diesen Task: Alias fast (kleines, schnelles Modell) oder smart (stärkstes Modell) oder ein Modellname der CLI, z.B. sonnet bzw. gemini-2.5-pro. Default: model aus .bridge.json bzw. Bridge-Konfiguration, sonst CLI-Default.",
+};
+
+const roleProperty = {
+  type: "string",
+  enum: roleProfiles.names(),
+  description: `Rolle für diesen Task - ständige Anweisungen und Ergebnisformat als System-Prompt: ${roleProfiles
+    .list()
+    .map((role) => `${role.name} (${role.description}${role.maxPermissionProfile ? `, höchstens ${role.maxPermissionProfile}` : ""})`)
+    .join(", ")}. Default: defaultRole aus .bridge.json bzw. Bridge-Konfiguration, sonst keine Rolle. Die Projekt-Preamble aus .bridge.json gilt immer. Eine Rolle mit Obergrenze kappt das Rechte-Profil.`,
+};
+
+const outputSchemaProperty = {
+  type: "object",
+  description:
+    "JSON Schema (draft-07) für ein maschinenlesbares Ergebnis. Der Worker wird angewiesen, mit einem passenden JSON-Block zu antworten; die Bridge validiert ihn, fragt bei Fehlern in derselben Session nach und liefert das Objekt in structuredContent.structuredOutput.",
+};
+
+const outputRetriesProperty = {
+  type: "number",
+  minimum: 0,
+  maximum: MAX_OUTPUT_RETRIES,
+  description: `Nachfragen bei ungültiger Antwort (default: ${DEFAULT_OUTPUT_RETRIES}). Danach scheitert der Task mit invalid_output.`,
+};
+
+const onUsageLimitProperty = {
+  type: "string",
+  enum: [...USAGE_LIMIT_POLICIES],
+  description:
+    "Verhalten bei erreichtem Nutzungslimit: fail (sofort scheitern, mit resetAt/retryAfter), fallback (an den anderen Worker übergeben) oder defer (nach dem Reset automatisch ausführen - für lange Wartezeiten start_task verwenden). Default: fail.",
+};
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return {
+    tools: [
+      {
+        name: "delegate_coding_task",
+        description: `Delegiert eine Coding-Aufgabe an Claude Code CLI.
+
+VERWENDUNG:
+- Code schreiben, analysieren, debuggen, refactoren
+- Dateien lesen, erstellen, bearbeiten
+- Git-Operationen durchführen
+- Tests schreiben und ausführen
+- Projektstrukturen erstellen
+
+SESSION-PERSISTENZ:
+- Sessions werden automatisch pro Arbeitsverzeichnis gespeichert
+- Claude behält den Kontext zwischen Aufrufen
+- Setze continueSession=false für eine frische Session
+- Mit sessionName mehrere parallele Gespräche pro Verzeichnis führen
+  (z.B. "feature-a" und "bugfix"); forkFrom zweigt von einer Session in eine neue Session sessionName ab
+- Tasks im selben Arbeitsverzeichnis laufen nacheinander (Warteschlange)
+
+ERGEBNIS:
+- Text-Antwort plus strukturierte Daten (structuredContent): Turns,
+  Tool-Aufrufe, bearbeitete Dateien, Token-Verbrauch, Kosten, Session-ID
+
+FORTSCHRITT:
+- Mit progressToken im Request kommen laufend notifications/progress
+  (Tool-Aufrufe, bearbeitete Dateien, Teil-Antworten, Heartbeat)
+
+ÄNDERUNGSBERICHT:
+- Jedes Ergebnis enthält die erstellten/geänderten/gelöschten Dateien mit
+  Diffstat; includePatch=true liefert zusätzlich den vollständigen Patch
+
+ISOLATION:
+- isolation="worktree" führt den Task in einem temporären git-Worktree aus
+  (mit den uncommitteten Änderungen des Checkouts) und liefert Diff und
+  Branch zurück; danach merge_worktree, discard_worktree oder keep_worktree aufrufen
+
+RECHTE:
+- permissionProfile=read-only für Reviews/Analysen, edit-no-shell für
+  Änderungen ohne Shell, full für vollen Zugriff
+
+NUTZUNGSLIMIT:
+- Erreicht das Abo sein Limit, ist der Worker bis zum Reset gesperrt
+- onUsageLimit: fail (sofort scheitern, mit resetAt/retryAfter), fallback
+  (Gemini übernimmt) oder defer (nach dem Reset automatisch ausführen)
+
+Claude hat (im Profil full) VOLLSTÄNDIGEN Zugriff auf das Dateisystem und kann autonom arbeiten.
+Nutze dieses Tool SOFORT wenn Code-Arbeit erforderlich ist.
 
 HINWEIS: Nutzt das lokal authentifizierte Claude-Abo (keine API-Credits).`,
         inputSchema: {
@@ -133,144 +1118,698 @@ HINWEIS: Nutzt das lokal authentifizierte Claude-Abo (keine API-Credits).`,
                 "Session automatisch fortsetzen (default: true). Auf false setzen für neue Session.",
               default: true,
             },
+            sessionName: sessionNameProperty,
+            sessionTags: {
+              type: "array",
+              items: { type: "string" },
+              description: "Tags für die Session, z.B. [\"refactoring\"]. Ersetzen bestehende Tags.",
+            },
+            forkFrom: {
+              ...sessionNameProperty,
+              description:
+                "Name einer bestehenden Session, von der abgezweigt wird. Der Kontext wird übernommen, die neue Session bekommt eine eigene ID und den Namen aus sessionName (Pflicht).",
+            },
+            overwriteSession: {
+              type: "boolean",
+              description: "Bei forkFrom eine bereits bestehende Session sessionName ersetzen (default: false - dann wird abgelehnt).",
+            },
+            permissionProfile: permissionProfileProperty,
+            includePatch: includePatchProperty,
+            model: modelProperty,
+            role: roleProperty,
+            outputSchema: outputSchemaProperty,
+            outputRetries: outputRetriesProperty,
+            onUsageLimit: onUsageLimitProperty,
+            isolation: {
+              type: "string",
+              enum: ["none", "worktree"],
+              description:
+                "worktree: Ausführung in temporärem git-Worktree/Branch, liefert Diff statt den Checkout zu ändern (default: none).",
+              default: "none",
+            },
           },
           required: ["instruction"],
         },
       },
       {
         name: "clear_session",
-        description: `Löscht die gespeicherte Session für ein Arbeitsverzeichnis.
+        description: `Löscht eine gespeicherte Session für ein Arbeitsverzeichnis.
 Verwende dies um eine frische Session zu starten ohne alten Kontext.`,
         inputSchema: {
           type: "object" as const,
           properties: {
-            workingDirectory: {
+            worker: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Worker der Session (default: claude).",
+              default: "claude",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Arbeitsverzeichnis dessen Session gelöscht werden soll.",
+            },
+            sessionName: sessionNameProperty,
+          },
+          required: ["workingDirectory"],
+        },
+      },
+      {
+        name: "list_sessions",
+        description: `Listet alle aktiven Sessions mit Namen, Tags, Arbeitsverzeichnissen und Task-Zählern.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            worker: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Nur Sessions dieses Workers (default: alle).",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Nur Sessions dieses Arbeitsverzeichnisses.",
+            },
+            tag: {
+              type: "string",
+              description: "Nur Sessions mit diesem Tag.",
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "get_session_history",
+        description: `Liefert den Verlauf einer Session: Aufträge, Worker, Status, Dauer und Ausgaben.
+
+Neueste Einträge zuerst, seitenweise über offset/limit. Nützlich, um nach
+einem Kontext-Reset nachzuvollziehen, was bereits delegiert wurde.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            workingDirectory: {
+              type: "string",
+              description: "Arbeitsverzeichnis der Session.",
+            },
+            worker: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Worker der Session (default: claude).",
+              default: "claude",
+            },
+            sessionName: sessionNameProperty,
+            status: {
+              type: "string",
+              enum: ["success", "failed", "cancelled"],
+              description: "Nur Einträge mit diesem Status.",
+            },
+            since: {
+              type: "string",
+              description: "Nur Einträge ab diesem Zeitpunkt (ISO 8601).",
+            },
+            until: {
+              type: "string",
+              description: "Nur Einträge bis zu diesem Zeitpunkt (ISO 8601).",
+            },
+            offset: {
+              type: "number",
+              description: "Anzahl übersprungener Einträge (default: 0).",
+              minimum: 0,
+              default: 0,
+            },
+            limit: {
+              type: "number",
+              description: "Einträge pro Seite (default: 20, max: 100).",
+              minimum: 1,
+              maximum: 100,
+              default: 20,
+            },
+            includeOutput: {
+              type: "boolean",
+              description: "Ausgaben der Tasks mitliefern (default: true).",
+              default: true,
+            },
+          },
+          required: ["workingDirectory"],
+        },
+      },
+      {
+        name: "query_logs",
+        description: `Durchsucht das Audit-Log der Bridge (Task gestartet/beendet/fehlgeschlagen/Timeout,
+Session erstellt/gelöscht). Neueste Ereignisse zuerst.
+
+Filter lassen sich kombinieren, z.B. alle fehlgeschlagenen Claude-Tasks eines
+Verzeichnisses seit gestern oder alle Ereignisse eines Jobs (correlationId).`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            workingDirectory: {
+              type: "string",
+              description: "Nur Ereignisse dieses Arbeitsverzeichnisses.",
+            },
+            worker: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Nur Ereignisse dieses Workers.",
+            },
+            status: {
+              type: "string",
+              enum: ["success", "failed", "cancelled"],
+              description: "Nur Abschluss-Ereignisse mit diesem Status.",
+            },
+            event: {
+              type: "string",
+              enum: [...AUDIT_EVENT_TYPES],
+              description: "Nur Ereignisse dieses Typs.",
+            },
+            taskId: {
+              type: "string",
+              description: "Nur Ereignisse dieses Tasks (taskId aus dem Ergebnis).",
+            },
+            correlationId: {
+              type: "string",
+              description: "Nur Ereignisse mit dieser Correlation-ID (bei start_task die Job-ID).",
+            },
+            since: {
+              type: "string",
+              description: "Nur Ereignisse ab diesem Zeitpunkt (ISO 8601).",
+            },
+            until: {
+              type: "string",
+              description: "Nur Ereignisse bis zu diesem Zeitpunkt (ISO 8601).",
+            },
+            limit: {
+              type: "number",
+              description: "Maximale Anzahl Ereignisse (default: 50, max: 500).",
+              minimum: 1,
+              maximum: 500,
+              default: 50,
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "get_usage_report",
+        description: `Verbrauchsbericht der Bridge für ein Zeitfenster: Tasks, Tokens, Kosten
+(sofern die CLI sie meldet), Laufzeit und Turns - summiert gesamt sowie pro
+Worker, Arbeitsverzeichnis, Session und Tag.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            since: {
+              type: "string",
+              description: "Beginn des Zeitfensters (ISO 8601, default: vor 7 Tagen).",
+            },
+            until: {
+              type: "string",
+              description: "Ende des Zeitfensters (ISO 8601, default: jetzt).",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Nur dieses Arbeitsverzeichnis.",
+            },
+            worker: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Nur dieser Worker.",
+            },
+            sessionName: sessionNameProperty,
+          },
+          required: [],
+        },
+      },
+      {
+        name: "get_worker_status",
+        description: `Registrierte Worker mit Beschreibung, Fähigkeiten und Verfügbarkeit.
+Erreicht ein Worker das Nutzungslimit des Abos, ist er bis zum gemeldeten
+Reset gesperrt; neue Tasks verhalten sich dann laut onUsageLimit
+(fail, fallback oder defer).`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            clearLimit: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Hebt die Limit-Sperre dieses Workers auf (z.B. nach einem Abo-Upgrade).",
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "delegate_to_gemini",
+        description: `Delegiert eine Aufgabe an Gemini CLI (Claude → Gemini Richtung).
+
+VERWENDUNG:
+- Wenn Claude eine zweite Meinung von Gemini braucht
+- Für Aufgaben, die besser zu Gemini passen
+- Für Architektur-Entscheidungen und High-Level-Planung
+
+Alternativ: Nutze @gemini am Anfang der instruction bei delegate_coding_task
+für automatische Weiterleitung.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            instruction: {
+              type: "string",
+              description: "Aufgabenbeschreibung für Gemini.",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Optionales Arbeitsverzeichnis.",
+            },
+            timeout: {
+              type: "number",
+              description: "Optionales Timeout in ms (default: 10min).",
+              minimum: 10000,
+              maximum: 3600000,
+            },
+            continueSession: {
+              type: "boolean",
+              description: "Session fortsetzen (default: true).",
+              default: true,
+            },
+            permissionProfile: permissionProfileProperty,
+            includePatch: includePatchProperty,
+            model: modelProperty,
+            role: roleProperty,
+            outputSchema: outputSchemaProperty,
+            outputRetries: outputRetriesProperty,
+            onUsageLimit: onUsageLimitProperty,
+          },
+          required: ["instruction"],
+        },
+      },
+      {
+        name: "delegate",
+        description: `Intelligente Delegation mit automatischer Trigger-Erkennung.
+
+VERWENDUNG (nur der Trigger am Anfang zählt, spätere Mentions gehören zur Aufgabe):
+- @claude am Anfang → Leitet an Claude weiter
+- @gemini am Anfang → Leitet an Gemini weiter
+- @<name> → Leitet an einen weiteren registrierten Worker weiter
+- @claude+gemini → Fan-out: jeder Worker bearbeitet die Aufgabe, Ergebnisse gesammelt (ein abgelehntes Ziel, z.B. wegen Budget, scheitert einzeln)
+- @claude[model=smart,timeout=20m,session=bugfix] → Inline-Optionen (model, role, timeout, session, permission), überschreiben die Tool-Argumente; session nur für Worker mit benannten Sessions
+- \\@claude → maskiert, bleibt als @claude im Text
+- Kein Trigger → Router nach Inhalt: genannte Quelldateien und Implementierung/Debugging/Tests → Claude, Planung/Architektur/Recherche → Gemini (Regeln anpassbar über routing in .bridge.json; eingebaute Regeln nur ohne konfigurierten defaultWorker), sonst Default-Worker
+
+REGISTRIERTE WORKER:
+${workerRegistry.list().map((worker) => `- @${worker.name}: ${worker.description}`).join("\n")}
+
+Beispiele:
+- "@claude analysiere diesen Code" → geht an Claude
+- "@gemini plane die Architektur, @claude setzt später um" → geht an Gemini
+- "@claude+gemini[role=reviewer] prüfe src/auth" → Review von beiden
+- "schreibe einen Test für src/auth.ts" → geht per Router an Claude
+- "entwirf eine Architektur für den Import" → geht per Router an Gemini`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            instruction: {
+              type: "string",
+              description: "Aufgabe mit optionalem @<worker> Trigger am Anfang (z.B. @claude, @gemini, @claude+gemini, @claude[model=fast]).",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Optionales Arbeitsverzeichnis.",
+            },
+            timeout: {
+              type: "number",
+              description: "Optionales Timeout in ms.",
+              minimum: 10000,
+              maximum: 3600000,
+            },
+            permissionProfile: permissionProfileProperty,
+            includePatch: includePatchProperty,
+            model: modelProperty,
+            role: roleProperty,
+            outputSchema: outputSchemaProperty,
+            outputRetries: outputRetriesProperty,
+            onUsageLimit: onUsageLimitProperty,
+          },
+          required: ["instruction"],
+        },
+      },
+      {
+        name: "second_opinion",
+        description: `Stellt dieselbe Aufgabe mehreren Workern parallel (default: Claude und Gemini) und liefert die Antworten nebeneinander mit Laufzeit.
+
+VERWENDUNG:
+- Zweitmeinung, wenn eine Antwort fragwürdig erscheint
+- Reviews, Analysen und Architekturfragen, bei denen sich Perspektiven ergänzen
+- compare: true → ein Worker stellt Übereinstimmungen und Unterschiede gegenüber
+
+Läuft per Default read-only und ohne Session-Fortsetzung: Jeder Worker antwortet unabhängig. Read-only-Läufe im selben Verzeichnis laufen parallel; Laufzeit und Wartezeit in der Warteschlange werden getrennt ausgewiesen. Worker ohne benannte Sessions (z.B. Gemini) speichern keine Session - ihre Default-Session bleibt erhalten. Scheitert oder wird ein Worker abgelehnt, kommen die übrigen Antworten trotzdem zurück.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            instruction: {
+              type: "string",
+              description: "Aufgabe bzw. Frage für alle Worker.",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Optionales Arbeitsverzeichnis.",
+            },
+            workers: {
+              type: "array",
+              items: { type: "string", enum: WORKER_NAMES },
+              minItems: 2,
+              description: "Befragte Worker (default: [\"claude\", \"gemini\"]).",
+            },
+            timeout: {
+              type: "number",
+              description: "Optionales Timeout in ms pro Worker.",
+              minimum: 10000,
+              maximum: 3600000,
+            },
+            permissionProfile: {
+              ...permissionProfileProperty,
+              description: "Rechte-Profil für alle Worker. Default: read-only, begrenzt pro Verzeichnis.",
+            },
+            role: roleProperty,
+            compare: {
+              type: "boolean",
+              description: "Dritter Durchlauf, der Übereinstimmungen und Unterschiede der Antworten herausarbeitet (default: false).",
+              default: false,
+            },
+            comparator: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Worker für den Vergleich (default: erster Worker).",
+            },
+          },
+          required: ["instruction"],
+        },
+      },
+      {
+        name: "pair_program",
+        description: `Implementieren und Reviewen im Wechsel: Ein Worker setzt um (default: Claude), ein anderer prüft den Diff read-only (default: Gemini), die Befunde gehen zurück an den Implementer.
+
+ABLAUF:
+- Runde = Umsetzung + Review; der Reviewer schließt mit "URTEIL: APPROVE" oder "URTEIL: CHANGES_REQUESTED"
+- Bei APPROVE endet die Schleife, sonst nach maxRounds Runden
+- Implementer und Reviewer arbeiten in getrennten Sessions; Worker ohne benannte Sessions (z.B. Gemini) laufen ohne Session, ihre Default-Session bleibt unberührt
+
+Ergebnis: vollständiger Verlauf aller Schritte und der Gesamt-Diff über alle Runden (redigiert wie Worker-Ergebnisse).`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            instruction: {
+              type: "string",
+              description: "Aufgabe für den Implementer.",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Optionales Arbeitsverzeichnis.",
+            },
+            implementer: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Worker, der umsetzt (default: claude).",
+            },
+            reviewer: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Worker, der reviewt (default: gemini).",
+            },
+            maxRounds: {
+              type: "number",
+              minimum: 1,
+              maximum: MAX_PAIR_ROUNDS,
+              description: `Maximale Anzahl Runden (default: ${DEFAULT_PAIR_ROUNDS}).`,
+            },
+            timeout: {
+              type: "number",
+              description: "Optionales Timeout in ms pro Schritt.",
+              minimum: 10000,
+              maximum: 3600000,
+            },
+            permissionProfile: {
+              ...permissionProfileProperty,
+              description: "Rechte-Profil des Implementers. Der Reviewer arbeitet immer read-only.",
+            },
+            model: {
+              ...modelProperty,
+              description: "Modell oder Alias (fast, smart) für den Implementer.",
+            },
+            reviewerModel: {
+              ...modelProperty,
+              description: "Modell oder Alias (fast, smart) für den Reviewer.",
+            },
+          },
+          required: ["instruction"],
+        },
+      },
+      {
+        name: "start_task",
+        description: `Startet eine Aufgabe asynchron und liefert sofort eine Job-ID.
+
+VERWENDUNG:
+- Lange Tasks starten, ohne den Aufruf zu blockieren
+- Parallel weiterarbeiten und den Fortschritt mit get_task_status prüfen
+- Mit wait_for_task auf das Ergebnis warten, mit cancel_task abbrechen
+
+Abgeschlossene Jobs bleiben eine Zeit lang abrufbar (default: 1 Stunde).`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            worker: {
+              type: "string",
+              enum: WORKER_NAMES,
+              description: "Ziel-Worker (default: defaultWorker der Konfiguration, sonst claude).",
+            },
+            instruction: {
+              type: "string",
+              description: "Aufgabenbeschreibung für den Worker.",
+            },
+            workingDirectory: {
+              type: "string",
+              description: "Optionales Arbeitsverzeichnis.",
+            },
+            timeout: {
+              type: "number",
+              description: "Optionales Timeout in ms.",
+              minimum: 10000,
+              maximum: 3600000,
+            },
+            sessionId: {
+              type: "string",
+              format: "uuid",
+              description: "Optionale Session-ID (nur Claude).",
+            },
+            continueSession: {
+              type: "boolean",
+              description: "Session fortsetzen (default: true).",
+              default: true,
+            },
+            permissionProfile: permissionProfileProperty,
+            includePatch: includePatchProperty,
+            onUsageLimit: onUsageLimitProperty,
+          },
+          required: ["instruction"],
+        },
+      },
+      {
+        name: "get_task_status",
+        description: `Liefert Status, Dauer, letzte Aktivität und Teil-Ausgabe eines Jobs.
+Bei abgeschlossenen Jobs das vollständige Ergebnis.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            jobId: {
+              type: "string",
+              format: "uuid",
+              description: "Job-ID aus start_task.",
+            },
+          },
+          required: ["jobId"],
+        },
+      },
+      {
+        name: "wait_for_task",
+        description: `Wartet auf das Ende eines Jobs, höchstens bis zum Timeout.
+Läuft der Job danach noch, wird der aktuelle Status zurückgegeben.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            jobId: {
+              type: "string",
+              format: "uuid",
+              description: "Job-ID aus start_task.",
+            },
+            timeout: {
+              type: "number",
+              description: "Maximale Wartezeit in ms (default: 30000).",
+              minimum: 1000,
+              maximum: 3600000,
+              default: 30000,
+            },
+          },
+          required: ["jobId"],
+        },
+      },
+      {
+        name: "cancel_task",
+        description: `Bricht einen laufenden Job ab und beendet den Worker-Prozess.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            jobId: {
               type: "string",
-              description: "Arbeitsverzeichnis dessen Session gelöscht werden soll.",
+              format: "uuid",
+              description: "Job-ID aus start_task.",
             },
           },
-          required: ["workingDirectory"],
+          required: ["jobId"],
         },
       },
       {
-        name: "list_sessions",
-        description: `Listet alle aktiven Sessions mit ihren Arbeitsverzeichnissen und Task-Zählern.`,
+        name: "merge_worktree",
+        description: `Mergt den Branch eines isolierten Worktrees (isolation="worktree") in den
+aktuellen Checkout des Repos und räumt Worktree und Branch auf.
+Wurden uncommittete Änderungen übernommen, werden nur die Änderungen des Workers
+als uncommittete Änderungen angewendet.
+Bei Konflikten wird der Merge abgebrochen und der Worktree bleibt erhalten.`,
         inputSchema: {
           type: "object" as const,
-          properties: {},
-          required: [],
+          properties: {
+            worktreeId: {
+              type: "string",
+              description: "Worktree-ID aus dem Ergebnis von delegate_coding_task.",
+            },
+          },
+          required: ["worktreeId"],
         },
       },
       {
-        name: "delegate_to_gemini",
-        description: `Delegiert eine Aufgabe an Gemini CLI (Claude → Gemini Richtung).
-
-VERWENDUNG:
-- Wenn Claude eine zweite Meinung von Gemini braucht
-- Für Aufgaben, die besser zu Gemini passen
-- Für Architektur-Entscheidungen und High-Level-Planung
-
-Alternativ: Nutze @gemini am Anfang der instruction bei delegate_coding_task
-für automatische Weiterleitung.`,
+        name: "discard_worktree",
+        description: `Verwirft einen isolierten Worktree samt Branch.`,
         inputSchema: {
           type: "object" as const,
           properties: {
-            instruction: {
-              type: "string",
-              description: "Aufgabenbeschreibung für Gemini.",
-            },
-            workingDirectory: {
+            worktreeId: {
               type: "string",
-              description: "Optionales Arbeitsverzeichnis.",
-            },
-            timeout: {
-              type: "number",
-              description: "Optionales Timeout in ms (default: 10min).",
-              minimum: 10000,
-              maximum: 3600000,
-            },
-            continueSession: {
-              type: "boolean",
-              description: "Session fortsetzen (default: true).",
-              default: true,
+              description: "Worktree-ID aus dem Ergebnis von delegate_coding_task.",
             },
           },
-          required: ["instruction"],
+          required: ["worktreeId"],
         },
       },
       {
-        name: "delegate",
-        description: `Intelligente Delegation mit automatischer Trigger-Erkennung.
-
-VERWENDUNG:
-- @claude am Anfang → Leitet an Claude weiter
-- @gemini am Anfang → Leitet an Gemini weiter
-- Kein Trigger → Leitet an Claude weiter (Standard)
-
-Beispiele:
-- "@claude analysiere diesen Code" → geht an Claude
-- "@gemini plane die Architektur" → geht an Gemini
-- "schreibe einen Test" → geht an Claude (Standard)`,
+        name: "keep_worktree",
+        description: `Entfernt das Worktree-Verzeichnis, behält aber den Branch für später.`,
         inputSchema: {
           type: "object" as const,
           properties: {
-            instruction: {
-              type: "string",
-              description: "Aufgabe mit optionalem @claude oder @gemini Trigger am Anfang.",
-            },
-            workingDirectory: {
+            worktreeId: {
               type: "string",
-              description: "Optionales Arbeitsverzeichnis.",
-            },
-            timeout: {
-              type: "number",
-              description: "Optionales Timeout in ms.",
-              minimum: 10000,
-              maximum: 3600000,
+              description: "Worktree-ID aus dem Ergebnis von delegate_coding_task.",
             },
           },
-          required: ["instruction"],
+          required: ["worktreeId"],
+        },
+      },
+      {
+        name: "list_worktrees",
+        description: `Listet alle aktiven und behaltenen Worktrees mit Branch und Ursprungs-Repo.`,
+        inputSchema: {
+          type: "object" as const,
+          properties: {},
+          required: [],
         },
       },
     ],
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
+  const progressToken = request.params._meta?.progressToken;
 
   // ============================================================================
   // Tool: delegate_coding_task
   // ============================================================================
   if (name === "delegate_coding_task") {
-    const parseResult = DelegateTaskSchema.safeParse(args);
-
-    if (!parseResult.success) {
-      const errorMessages = parseResult.error.errors
-        .map((e) => `${e.path.join(".")}: ${e.message}`)
-        .join("; ");
+    const input: DelegateTaskInput = parseArgs(DelegateTaskSchema, args);
+    const permissionProfile = resolvePermissionProfile(input.permissionProfile, input.workingDirectory);
 
-      throw new McpError(ErrorCode.InvalidParams, `Validation failed: ${errorMessages}`);
+    // Optional: isolierter Worktree statt des User-Checkouts
+    let worktree: WorktreeInfo | undefined;
+    if (input.isolation === "worktree") {
+      worktree = await worktreeManager
+        .create(input.workingDirectory ?? process.cwd())
+        .catch((error: unknown) => {
+          throw worktreeMcpError(error);
+        });
     }
 
-    const input: DelegateTaskInput = parseResult.data;
-
-    // Claude ausführen mit Session-Support
-    const result = await claudeWrapper.execute(input.instruction, {
-      workingDirectory: input.workingDirectory,
+    // Claude ausführen mit Session-Support und Live-Progress
+    const progress = createProgressReporter(extra, progressToken, { label: "claude" });
+    const result = await executeWithOutputSchema("claude", input.instruction, {
+      workingDirectory: worktree?.executionDirectory ?? input.workingDirectory,
       timeout: input.timeout,
       sessionId: input.sessionId,
       continueSession: input.continueSession,
-    });
+      sessionName: input.sessionName,
+      sessionTags: input.sessionTags,
+      forkFrom: input.forkFrom,
+      overwriteSession: input.overwriteSession,
+      permissionProfile,
+      includePatch: input.includePatch,
+      model: input.model,
+      role: input.role,
+      onUsageLimit: input.onUsageLimit,
+      onProgress: progress?.callback,
+    }, input.outputSchema, input.outputRetries).catch(async (error: unknown) => {
+      // Abgelehnter Task: den frisch angelegten Worktree nicht liegen lassen
+      if (worktree) await worktreeManager.discard(worktree.id).catch(() => undefined);
+      return rethrowRejection(error);
+    }).finally(() => progress?.stop());
 
     // Ergebnis formatieren
     const statusPrefix = result.success ? "✓ SUCCESS" : "✗ FAILED";
     const durationSec = (result.duration / 1000).toFixed(1);
-    const sessionInfo = result.sessionId ? `\n[Session: ${result.sessionId}]` : "";
+    const sessionInfo = result.sessionId ? `\n[Session: ${result.sessionName ?? DEFAULT_SESSION_NAME} (${result.sessionId})]` : "";
+
+    let worktreeSection = "";
+    let worktreeContent: Record<string, unknown> | undefined;
+    if (worktree) {
+      // Ein Fehler beim Einsammeln darf das fertige Ergebnis nicht verwerfen - der Worktree bleibt erhalten
+      const collected = await worktreeManager.collectChanges(worktree, input.instruction).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        return redactor.redact(message, "toolResult").text;
+      });
+      const worktreeInfo = {
+        id: worktree.id,
+        branch: worktree.branch,
+        baseCommit: worktree.baseCommit,
+        carriedCommit: worktree.carriedCommit,
+        path: worktree.worktreePath,
+      };
+      if (typeof collected === "string") {
+        worktreeSection = formatWorktreeError(worktree, collected);
+        worktreeContent = { ...worktreeInfo, diffError: collected };
+      } else {
+        const redactedDiff = redactor.redact(collected.diff, "toolResult");
+        const redactedStat = redactor.redact(collected.diffStat, "toolResult");
+        if (redactedDiff.total + redactedStat.total > 0) {
+          result.redactions = mergeCounts(mergeCounts({ ...result.redactions }, redactedDiff.counts), redactedStat.counts);
+        }
+        const diff = { ...collected, diff: redactedDiff.text, diffStat: redactedStat.text };
+        worktreeSection = formatWorktreeSection(worktree, diff);
+        worktreeContent = {
+          ...worktreeInfo,
+          commit: diff.commit,
+          diffStat: diff.diffStat,
+          diff: diff.diff,
+          diffTruncated: diff.truncated,
+        };
+      }
+    }
 
-    const formattedOutput = `[${statusPrefix}] (${durationSec}s)${sessionInfo}
+    const formattedOutput = `[${statusPrefix}] (${durationSec}s)${sessionInfo}${modelInfoLine(result)}${fallbackInfoLine("claude", result)}${queueInfoLine(result)}${failureInfoLine(result)}${outputInfoLine(result)}${redactionInfoLine(result)}${claudeStatsLine(result)}
 
-${result.output}`;
+${result.output}${changesSection(result)}${worktreeSection}`;
 
     return {
       content: [
@@ -279,6 +1818,7 @@ ${result.output}`;
           text: formattedOutput,
         },
       ],
+      structuredContent: { ...workerStructuredContent("claude", result), worktree: worktreeContent },
       isError: !result.success,
     };
   }
@@ -287,21 +1827,16 @@ ${result.output}`;
   // Tool: clear_session
   // ============================================================================
   if (name === "clear_session") {
-    const workingDirectory = (args as { workingDirectory?: string })?.workingDirectory;
-
-    if (!workingDirectory) {
-      throw new McpError(ErrorCode.InvalidParams, "workingDirectory ist erforderlich");
-    }
-
-    const cleared = claudeWrapper.clearSession(workingDirectory);
+    const { worker, workingDirectory, sessionName } = parseArgs(ClearSessionSchema, args);
+    const cleared = await requireWorker(worker).clearSession(workingDirectory, sessionName);
 
     return {
       content: [
         {
           type: "text",
           text: cleared
-            ? `✓ Session für ${workingDirectory} gelöscht.`
-            : `⚠ Keine Session für ${workingDirectory} gefunden.`,
+            ? `✓ ${worker}-Session "${sessionName}" für ${workingDirectory} gelöscht.`
+            : `⚠ Keine ${worker}-Session "${sessionName}" für ${workingDirectory} gefunden.`,
         },
       ],
       isError: false,
@@ -312,7 +1847,9 @@ ${result.output}`;
   // Tool: list_sessions
   // ============================================================================
   if (name === "list_sessions") {
-    const sessions = claudeWrapper.listSessions();
+    const { worker, ...filter } = parseArgs(ListSessionsSchema, args);
+    const workers = worker ? [requireWorker(worker)] : workerRegistry.list();
+    const sessions = (await Promise.all(workers.map((w) => w.listSessions(filter)))).flat();
 
     if (sessions.length === 0) {
       return {
@@ -327,7 +1864,11 @@ ${result.output}`;
     }
 
     const sessionList = sessions
-      .map((s) => `• ${s.workingDirectory}\n  Session: ${s.sessionId}\n  Tasks: ${s.taskCount} | Letzte Nutzung: ${s.lastUsed}`)
+      .map((s) => {
+        const tags = s.tags.length ? ` [${s.tags.join(", ")}]` : "";
+        const fork = s.forkedFrom ? ` (Fork von "${s.forkedFrom}")` : "";
+        return `• ${s.workingDirectory} (${s.worker})\n  Session: ${s.name}${tags}${fork}${s.sessionId ? ` - ${s.sessionId}` : ""}\n  Tasks: ${s.taskCount}${s.model ? ` | Modell: ${s.model}` : ""} | Letzte Nutzung: ${s.lastUsed}`;
+      })
       .join("\n\n");
 
     return {
@@ -342,25 +1883,177 @@ ${result.output}`;
   }
 
   // ============================================================================
-  // Tool: delegate_to_gemini
+  // Tool: get_session_history
   // ============================================================================
-  if (name === "delegate_to_gemini") {
-    const input = args as {
-      instruction: string;
-      workingDirectory?: string;
-      timeout?: number;
-      continueSession?: boolean;
+  if (name === "get_session_history") {
+    const input = parseArgs(SessionHistorySchema, args);
+    const page = transcriptStore.query(input.worker, input.workingDirectory, input.sessionName, {
+      status: input.status,
+      since: input.since ? new Date(input.since) : undefined,
+      until: input.until ? new Date(input.until) : undefined,
+      offset: input.offset,
+      limit: input.limit,
+    });
+
+    const entries = page.entries.map((entry) => (input.includeOutput ? entry : { ...entry, output: undefined }));
+    const header = `Verlauf ${input.worker}/${input.sessionName} in ${input.workingDirectory}: `
+      + `${page.entries.length} von ${page.total} Einträgen (ab ${page.offset})`;
+
+    const lines = page.entries.map((entry, index) => {
+      const marker = entry.status === "success" ? "✓" : entry.status === "cancelled" ? "⊘" : "✗";
+      const failure = entry.failureKind ? ` (${entry.failureKind})` : "";
+      const output = input.includeOutput
+        ? `\n  Ergebnis: ${entry.output.length > 500 ? `${entry.output.slice(0, 500)}...` : entry.output}`
+        : "";
+      return `#${page.offset + index + 1} ${marker} ${entry.timestamp} (${(entry.durationMs / 1000).toFixed(1)}s)${failure}`
+        + `\n  Auftrag: ${entry.instruction}${output}`;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: page.entries.length
+            ? `${header}${page.hasMore ? " - weitere mit offset" : ""}\n\n${lines.join("\n\n")}`
+            : `${header}\n\nKeine Einträge gefunden.`,
+        },
+      ],
+      structuredContent: {
+        entries,
+        total: page.total,
+        offset: page.offset,
+        hasMore: page.hasMore,
+      },
+      isError: false,
     };
+  }
 
-    if (!input.instruction) {
-      throw new McpError(ErrorCode.InvalidParams, "instruction ist erforderlich");
-    }
+  // ============================================================================
+  // Tool: query_logs
+  // ============================================================================
+  if (name === "query_logs") {
+    const input = parseArgs(QueryLogsSchema, args);
+    const { events, hasMore } = auditLogger.query({
+      ...input,
+      since: input.since ? new Date(input.since) : undefined,
+      until: input.until ? new Date(input.until) : undefined,
+    });
+
+    const lines = events.map((event) => {
+      const parts = [
+        event.timestamp,
+        event.event,
+        event.worker,
+        event.model,
+        event.workingDirectory,
+        event.durationMs !== undefined ? `${(event.durationMs / 1000).toFixed(1)}s` : undefined,
+        event.failureKind,
+        event.taskId ? `task=${event.taskId}` : undefined,
+      ].filter(Boolean);
+      const detail = event.instruction ?? event.message;
+      return `• ${parts.join(" | ")}${detail ? `\n  ${detail}` : ""}`;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: events.length
+            ? `${events.length} Ereignis(se)${hasMore ? " (weitere vorhanden, limit erhöhen)" : ""}:\n\n${lines.join("\n")}`
+            : "Keine passenden Ereignisse gefunden.",
+        },
+      ],
+      structuredContent: { events, hasMore },
+      isError: false,
+    };
+  }
+
+  // ============================================================================
+  // Tool: get_usage_report
+  // ============================================================================
+  if (name === "get_usage_report") {
+    const input = parseArgs(UsageReportSchema, args);
+    const until = input.until ? new Date(input.until) : new Date();
+    const since = input.since ? new Date(input.since) : new Date(until.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    const report = usageTracker.report({
+      since,
+      until,
+      workingDirectory: input.workingDirectory,
+      worker: input.worker,
+      sessionName: input.sessionName,
+    });
+
+    const section = (title: string, groups: Record<string, UsageTotals>): string => {
+      const entries = Object.entries(groups).sort(([, a], [, b]) => b.tasks - a.tasks);
+      return entries.length ? `\n\n${title}:\n${entries.map(([key, totals]) => formatUsageTotals(key, totals)).join("\n")}` : "";
+    };
+
+    const text = `Verbrauch ${since.toISOString()} bis ${until.toISOString()}\n\n`
+      + formatUsageTotals("Gesamt", report.totals)
+      + section("Pro Worker", report.byWorker)
+      + section("Pro Verzeichnis", report.byDirectory)
+      + section("Pro Session", report.bySession)
+      + section("Pro Tag", report.byDay);
+
+    return {
+      content: [{ type: "text", text }],
+      structuredContent: { ...report },
+      isError: false,
+    };
+  }
+
+  // ============================================================================
+  // Tool: get_worker_status
+  // ============================================================================
+  if (name === "get_worker_status") {
+    const { clearLimit } = parseArgs(WorkerStatusSchema, args);
+    const cleared = clearLimit ? workerAvailability.clear(clearLimit) : false;
+
+    const workers = workerRegistry.list().map((worker) => ({
+      ...workerAvailability.status(worker.name),
+      description: worker.description,
+      capabilities: worker.capabilities,
+      modelAliases: { ...worker.modelAliases, ...bridgeConfig.workerSettings(worker.name).modelAliases },
+    }));
+    const lines = workers.map((status) => {
+      const availability = status.available
+        ? `✓ ${status.worker}: verfügbar`
+        : `✗ ${status.worker}: Nutzungslimit bis ${status.unavailableUntil}${status.resetTimeKnown ? "" : " (geschätzt)"} - ${status.message}`;
+      const features = (Object.keys(status.capabilities) as (keyof WorkerCapabilities)[])
+        .filter((key) => status.capabilities[key] === true);
+      const aliases = Object.entries(status.modelAliases).map(([alias, model]) => `${alias}=${model}`);
+      return `${availability}\n  ${status.description}\n  Fähigkeiten: ${features.join(", ") || "-"} | Rechte-Profile: ${status.capabilities.permissionProfiles.join(", ")}${aliases.length ? ` | Modell-Aliase: ${aliases.join(", ")}` : ""}`;
+    });
+    const clearedInfo = clearLimit ? `${cleared ? `Sperre für ${clearLimit} aufgehoben.` : `${clearLimit} war nicht gesperrt.`}\n\n` : "";
+
+    return {
+      content: [{ type: "text", text: `${clearedInfo}${lines.join("\n\n")}` }],
+      structuredContent: { workers },
+      isError: false,
+    };
+  }
+
+  // ============================================================================
+  // Tool: delegate_to_gemini
+  // ============================================================================
+  if (name === "delegate_to_gemini") {
+    const input = parseArgs(DelegateToGeminiSchema, args);
+    const { model, role, outputSchema, outputRetries } = input;
+    const permissionProfile = resolvePermissionProfile(input.permissionProfile, input.workingDirectory);
 
-    const result = await geminiWrapper.execute(input.instruction, {
+    const progress = createProgressReporter(extra, progressToken, { label: "gemini" });
+    const result = await executeWithOutputSchema("gemini", input.instruction, {
       workingDirectory: input.workingDirectory,
       timeout: input.timeout,
       continueSession: input.continueSession,
-    });
+      permissionProfile,
+      includePatch: input.includePatch,
+      model,
+      role,
+      onUsageLimit: input.onUsageLimit,
+      onProgress: progress?.callback,
+    }, outputSchema, outputRetries).catch(rethrowRejection).finally(() => progress?.stop());
 
     const statusPrefix = result.success ? "✓ GEMINI SUCCESS" : "✗ GEMINI FAILED";
     const durationSec = (result.duration / 1000).toFixed(1);
@@ -369,9 +2062,10 @@ ${result.output}`;
       content: [
         {
           type: "text",
-          text: `[${statusPrefix}] (${durationSec}s)\n\n${result.output}`,
+          text: `[${statusPrefix}] (${durationSec}s)${modelInfoLine(result)}${fallbackInfoLine("gemini", result)}${queueInfoLine(result)}${failureInfoLine(result)}${outputInfoLine(result)}${redactionInfoLine(result)}\n\n${result.output}${changesSection(result)}`,
         },
       ],
+      structuredContent: workerStructuredContent("gemini", result),
       isError: !result.success,
     };
   }
@@ -380,61 +2074,354 @@ ${result.output}`;
   // Tool: delegate (mit automatischer Trigger-Erkennung)
   // ============================================================================
   if (name === "delegate") {
-    const input = args as {
-      instruction: string;
-      workingDirectory?: string;
-      timeout?: number;
-    };
+    const input = parseArgs(DelegateSchema, args);
+    const { model, role, outputSchema, outputRetries } = input;
+
+    // Trigger parsen (nur am Anfang; Inline-Optionen überschreiben Tool-Argumente)
+    let parsed: ParsedTrigger;
+    try {
+      parsed = parseTrigger(input.instruction, workerRegistry.names());
+    } catch (error) {
+      if (error instanceof TriggerSyntaxError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message, { trigger: error.trigger });
+      }
+      throw error;
+    }
+    if (!parsed.cleanedMessage) {
+      throw new McpError(ErrorCode.InvalidParams, `Nach dem Trigger ${parsed.trigger} fehlt die Aufgabe`);
+    }
+    const inline = parseArgs(TriggerOptionsSchema, parsed.options);
+    const permissionProfile = resolvePermissionProfile(inline.permission ?? input.permissionProfile, input.workingDirectory);
 
-    if (!input.instruction) {
-      throw new McpError(ErrorCode.InvalidParams, "instruction ist erforderlich");
+    // Ohne Trigger: Router nach Inhalt, sonst Default-Worker laut BridgeConfig (Standard: Claude)
+    const route = parsed.hasTrigger ? undefined : routeTask(parsed.cleanedMessage, input.workingDirectory);
+    const targets = route ? [route.worker] : parsed.targets;
+    const triggerInfo = route ? routeInfo(route) : `[Trigger: ${parsed.trigger} erkannt]`;
+    const withoutNamedSessions = inline.session
+      ? targets.filter((target) => !requireWorker(target).capabilities.namedSessions)
+      : [];
+    if (withoutNamedSessions.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `session= braucht benannte Sessions - nicht unterstützt von: ${withoutNamedSessions.join(", ")}`
+      );
     }
 
-    // Trigger parsen
-    const parsed: ParsedTrigger = parseTrigger(input.instruction);
+    const progress = createProgressReporter(extra, progressToken, { label: targets.join("+") });
+    const runTarget = (target: string): Promise<ClaudeExecutionResult> =>
+      executeWithOutputSchema(target, parsed.cleanedMessage, {
+        workingDirectory: input.workingDirectory,
+        timeout: inline.timeout ?? input.timeout,
+        sessionName: inline.session,
+        permissionProfile,
+        includePatch: input.includePatch,
+        model: inline.model ?? model,
+        role: inline.role ?? role,
+        onUsageLimit: input.onUsageLimit,
+        onProgress: progress && targets.length > 1
+          ? (event) => progress.callback({ ...event, message: `${target}: ${event.message}` })
+          : progress?.callback,
+      }, outputSchema, outputRetries);
+
+    // Fan-out: alle Ziele parallel (gleiches Verzeichnis wird per Warteschlange serialisiert).
+    // Eine Ablehnung bei einem Ziel verwirft nicht die Ergebnisse der anderen.
+    const results = settledResults(
+      await Promise.allSettled(targets.map(runTarget)).finally(() => progress?.stop())
+    );
+
+    const sections = targets.map((target, index) => {
+      const result = results[index];
+      const statusPrefix = result.success ? `✓ @${target.toUpperCase()} SUCCESS` : `✗ @${target.toUpperCase()} FAILED`;
+      const durationSec = (result.duration / 1000).toFixed(1);
+      const sessionInfo = result.sessionId ? `\n[Session: ${result.sessionId}]` : "";
+      const header = index === 0 ? `\n${triggerInfo}` : "";
+      return `[${statusPrefix}] (${durationSec}s)${header}${sessionInfo}${modelInfoLine(result)}${fallbackInfoLine(target, result)}${queueInfoLine(result)}${failureInfoLine(result)}${outputInfoLine(result)}${redactionInfoLine(result)}\n\n${result.output}${changesSection(result)}`;
+    });
+
+    if (targets.length === 1) {
+      return {
+        content: [{ type: "text", text: sections[0] }],
+        structuredContent: { ...workerStructuredContent(targets[0], results[0]), routing: route },
+        isError: !results[0].success,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n════════════════════════════════════════\n\n") }],
+      structuredContent: {
+        targets,
+        results: targets.map((target, index) => workerStructuredContent(target, results[index])),
+      },
+      isError: results.some((result) => !result.success),
+    };
+  }
+
+  // ============================================================================
+  // Tool: second_opinion (mehrere Worker, gleiche Aufgabe)
+  // ============================================================================
+  if (name === "second_opinion") {
+    const input = parseArgs(SecondOpinionSchema, args);
+    const permissionProfile = resolvePermissionProfile(input.permissionProfile, input.workingDirectory);
+    const comparator = input.comparator ?? input.workers[0];
+    const correlationId = crypto.randomUUID();
 
-    // An Gemini weiterleiten wenn @gemini erkannt
-    if (parsed.target === 'gemini') {
-      const result = await geminiWrapper.execute(parsed.cleanedMessage, {
+    const progress = createProgressReporter(extra, progressToken, { label: input.workers.join("+") });
+    const ask = (workerName: string, instruction: string, profile: PermissionProfileName): Promise<AgentExecutionResult> => {
+      const worker = requireWorker(workerName);
+      return worker.execute(instruction, {
         workingDirectory: input.workingDirectory,
         timeout: input.timeout,
+        continueSession: false,
+        // Eigene Session, bzw. ohne benannte Sessions gar keine - die Default-Session bleibt unberührt
+        sessionName: worker.capabilities.namedSessions ? SECOND_OPINION_SESSION : undefined,
+        recordSession: worker.capabilities.namedSessions,
+        permissionProfile: profile,
+        role: input.role,
+        correlationId,
+        onProgress: progress && ((event) => progress.callback({ ...event, message: `${workerName}: ${event.message}` })),
       });
+    };
 
-      const statusPrefix = result.success ? "✓ @GEMINI SUCCESS" : "✗ @GEMINI FAILED";
-      const durationSec = (result.duration / 1000).toFixed(1);
+    try {
+      // Ohne Fallback: eine Zweitmeinung vom selben Worker wäre wertlos
+      // Eine Ablehnung (z.B. Budget) bei einem Worker verwirft nicht die übrigen Antworten
+      const answers = settledResults(
+        await Promise.allSettled(input.workers.map((worker) => ask(worker, input.instruction, permissionProfile)))
+      );
+      const successful = input.workers.filter((_, index) => answers[index].success);
+
+      const comparison = input.compare && successful.length >= 2
+        ? await ask(comparator, comparisonInstruction(input.instruction, successful, successful.map((worker) => answers[input.workers.indexOf(worker)])), "read-only")
+          .catch((error: unknown) => rejectedResult<AgentExecutionResult>(error))
+        : undefined;
+
+      // Laufzeit und Wartezeit getrennt: Worker im selben Verzeichnis können aufeinander warten
+      const timing = (result: AgentExecutionResult): string => {
+        const wait = result.queueWaitMs ? `, ${(result.queueWaitMs / 1000).toFixed(1)}s gewartet` : "";
+        return `${(result.duration / 1000).toFixed(1)}s${wait}`;
+      };
+      const summary = input.workers
+        .map((worker, index) => `${worker} ${answers[index].success ? "✓" : "✗"} ${timing(answers[index])}`)
+        .join(" | ");
+      const sections = input.workers.map((worker, index) => {
+        const result = answers[index];
+        return `══ @${worker.toUpperCase()} ${result.success ? "✓" : "✗"} (${timing(result)}) ══${modelInfoLine(result)}${queueInfoLine(result)}${failureInfoLine(result)}${redactionInfoLine(result)}\n\n${result.output}`;
+      });
+      if (comparison) {
+        sections.push(`══ VERGLEICH durch @${comparator} ${comparison.success ? "✓" : "✗"} (${timing(comparison)}) ══${failureInfoLine(comparison)}\n\n${comparison.output}`);
+      } else if (input.compare) {
+        sections.push(`══ VERGLEICH ══\n\nÜbersprungen: weniger als zwei erfolgreiche Antworten.`);
+      }
 
       return {
-        content: [
-          {
-            type: "text",
-            text: `[${statusPrefix}] (${durationSec}s)\n[Trigger: @gemini erkannt]\n\n${result.output}`,
-          },
-        ],
-        isError: !result.success,
+        content: [{ type: "text", text: `[SECOND OPINION] ${summary}\n\n${sections.join("\n\n")}` }],
+        structuredContent: {
+          correlationId,
+          workers: input.workers,
+          answers: input.workers.map((worker, index) => workerStructuredContent(worker, answers[index])),
+          comparison: comparison && { ...workerStructuredContent(comparator, comparison), output: comparison.output },
+        },
+        isError: successful.length === 0,
       };
+    } catch (error) {
+      return rethrowRejection(error);
+    } finally {
+      progress?.stop();
     }
+  }
 
-    // Standard: An Claude weiterleiten (@claude oder kein Trigger)
-    const messageForClaude = parsed.target === 'claude' ? parsed.cleanedMessage : input.instruction;
+  // ============================================================================
+  // Tool: pair_program (Umsetzung und Review im Wechsel)
+  // ============================================================================
+  if (name === "pair_program") {
+    const input = parseArgs(PairProgramSchema, args);
+    const implementer = requireWorker(input.implementer);
+    const reviewer = requireWorker(input.reviewer);
+    if (implementer.name === reviewer.name && !implementer.capabilities.namedSessions) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${implementer.name} kann nicht zugleich umsetzen und reviewen: getrennte Sessions brauchen benannte Sessions`
+      );
+    }
+    const permissionProfile = resolvePermissionProfile(input.permissionProfile, input.workingDirectory);
+    const correlationId = crypto.randomUUID();
 
-    const result = await claudeWrapper.execute(messageForClaude, {
-      workingDirectory: input.workingDirectory,
+    const progress = createProgressReporter(extra, progressToken, { label: `${implementer.name}→${reviewer.name}` });
+    const pair = await pairProgrammer.run({
+      instruction: input.instruction,
+      workingDirectory: input.workingDirectory ?? process.cwd(),
+      implementer,
+      reviewer,
+      maxRounds: input.maxRounds,
       timeout: input.timeout,
-    });
+      permissionProfile,
+      implementerModel: input.model,
+      reviewerModel: input.reviewerModel,
+      correlationId,
+      onProgress: progress?.callback,
+    }).catch(rethrowRejection).finally(() => progress?.stop());
 
-    const statusPrefix = result.success ? "✓ @CLAUDE SUCCESS" : "✗ @CLAUDE FAILED";
-    const durationSec = (result.duration / 1000).toFixed(1);
-    const triggerInfo = parsed.target === 'claude' ? "[Trigger: @claude erkannt]" : "[Standard: Claude]";
-    const sessionInfo = result.sessionId ? `\n[Session: ${result.sessionId}]` : "";
+    const finalChanges = pair.changes
+      ? `\n\n--- GESAMT-ÄNDERUNGEN ---\n${formatChangeReport(pair.changes)}${pair.changes.patch ? `\n\n${pair.changes.patch}` : ""}`
+      : "";
 
     return {
       content: [
         {
           type: "text",
-          text: `[${statusPrefix}] (${durationSec}s)\n${triggerInfo}${sessionInfo}\n\n${result.output}`,
+          text: `[PAIR PROGRAM] ${pairStatusLine(pair)} | @${implementer.name} → @${reviewer.name} | ${(pair.duration / 1000).toFixed(1)}s\n\n${pair.steps.map(formatPairStep).join("\n\n")}${finalChanges}`,
         },
       ],
-      isError: !result.success,
+      structuredContent: {
+        status: pair.status,
+        approved: pair.status === "approved",
+        rounds: pair.rounds,
+        maxRounds: input.maxRounds,
+        implementer: implementer.name,
+        reviewer: reviewer.name,
+        correlationId,
+        durationMs: pair.duration,
+        error: pair.error,
+        steps: pair.steps.map((step) => ({
+          round: step.round,
+          step: step.step,
+          verdict: step.verdict,
+          output: step.result.output,
+          ...workerStructuredContent(step.worker, step.result),
+        })),
+        changes: pair.changes,
+      },
+      isError: pair.status !== "approved" && pair.status !== "max_rounds",
+    };
+  }
+
+  // ============================================================================
+  // Tool: start_task (asynchroner Job)
+  // ============================================================================
+  if (name === "start_task") {
+    const input = parseArgs(StartTaskSchema, args);
+    const permissionProfile = resolvePermissionProfile(input.permissionProfile, input.workingDirectory);
+    // Prüft zugleich die Projektkonfiguration, bevor der Job startet
+    const worker = input.worker ?? defaultWorkerFor(input.workingDirectory);
+    requireWorker(worker);
+
+    const job = jobRegistry.start(worker, input.instruction, input.workingDirectory, ({ jobId, signal, onProgress }) =>
+      executeWithFallback(worker, input.instruction, {
+        workingDirectory: input.workingDirectory,
+        timeout: input.timeout,
+        sessionId: input.sessionId,
+        continueSession: input.continueSession,
+        permissionProfile,
+        includePatch: input.includePatch,
+        onUsageLimit: input.onUsageLimit,
+        correlationId: jobId,
+        onProgress,
+        signal,
+      })
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `[JOB STARTED] ${job.worker}\n[Job: ${job.id}]\n\nStatus abfragen mit get_task_status, Ergebnis abwarten mit wait_for_task.`,
+        },
+      ],
+      structuredContent: jobStructuredContent(job),
+      isError: false,
+    };
+  }
+
+  // ============================================================================
+  // Tool: get_task_status / wait_for_task / cancel_task
+  // ============================================================================
+  if (name === "get_task_status" || name === "wait_for_task" || name === "cancel_task") {
+    const { jobId } = parseArgs(JobIdSchema, args);
+
+    let job: Job | undefined;
+    if (name === "wait_for_task") {
+      job = await jobRegistry.wait(jobId, parseArgs(WaitForTaskSchema, args).timeout);
+    } else if (name === "cancel_task" && jobRegistry.cancel(jobId)) {
+      // Kurz warten, bis der Prozess beendet ist und der Status feststeht
+      job = await jobRegistry.wait(jobId, 5000);
+    } else {
+      job = jobRegistry.get(jobId);
+    }
+
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `Unbekannter oder abgelaufener Job: ${jobId}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatJob(job),
+        },
+      ],
+      structuredContent: jobStructuredContent(job),
+      isError: job.status === "failed",
+    };
+  }
+
+  // ============================================================================
+  // Tool: merge_worktree / discard_worktree / keep_worktree
+  // ============================================================================
+  if (name === "merge_worktree" || name === "discard_worktree" || name === "keep_worktree") {
+    const { worktreeId } = parseArgs(WorktreeIdSchema, args);
+
+    let info: WorktreeInfo;
+    try {
+      if (name === "merge_worktree") {
+        info = await worktreeManager.merge(worktreeId);
+      } else if (name === "discard_worktree") {
+        info = await worktreeManager.discard(worktreeId);
+      } else {
+        info = await worktreeManager.keep(worktreeId);
+      }
+    } catch (error) {
+      throw worktreeMcpError(error);
+    }
+
+    const messages: Record<string, string> = {
+      merged: `✓ Branch ${info.branch} in ${info.repoRoot} gemergt, Worktree entfernt.`,
+      discarded: `✓ Worktree ${info.id} und Branch ${info.branch} verworfen.`,
+      kept: `✓ Worktree-Verzeichnis entfernt, Branch ${info.branch} bleibt erhalten.`,
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: messages[info.status],
+        },
+      ],
+      structuredContent: { ...info },
+      isError: false,
+    };
+  }
+
+  // ============================================================================
+  // Tool: list_worktrees
+  // ============================================================================
+  if (name === "list_worktrees") {
+    const worktrees = worktreeManager.list();
+
+    const text = worktrees.length === 0
+      ? "Keine aktiven Worktrees gefunden."
+      : `Worktrees (${worktrees.length}):\n\n` + worktrees
+        .map((w) => `• ${w.id} [${w.status}] Branch: ${w.branch}\n  Repo: ${w.repoRoot}\n  Erstellt: ${w.createdAt}`)
+        .join("\n\n");
+
+    return {
+      content: [
+        {
+          type: "text",
+          text,
+        },
+      ],
+      structuredContent: { worktrees },
+      isError: false,
     };
   }
 
@@ -445,7 +2432,35 @@ ${result.output}`;
 // Server Startup
 // ============================================================================
 
+/**
+ * Prüft die globale Konfiguration vor dem Start und beendet bei Fehlern mit
+ * einer Meldung pro Problem, statt später mit Defaults zu arbeiten.
+ */
+function assertValidConfig(): void {
+  const problems = bridgeConfig.errors.map((error) => error.message);
+  const defaultWorker = bridgeConfig.defaultWorker();
+  if (bridgeConfig.errors.length === 0 && !workerRegistry.has(defaultWorker)) {
+    problems.push(`defaultWorker "${defaultWorker}" ist nicht registriert (verfügbar: ${workerRegistry.names().join(", ")})`);
+  }
+  for (const rule of bridgeConfig.errors.length === 0 ? bridgeConfig.routing().rules : []) {
+    if (!workerRegistry.has(rule.worker)) {
+      problems.push(`routing.rules "${rule.name}": Worker "${rule.worker}" ist nicht registriert`);
+    }
+  }
+  const defaultRole = bridgeConfig.defaultRole();
+  if (defaultRole && !roleProfiles.get(defaultRole)) {
+    problems.push(`defaultRole "${defaultRole}" ist unbekannt (verfügbar: ${roleProfiles.names().join(", ")})`);
+  }
+  if (problems.length === 0) return;
+
+  for (const problem of problems) {
+    console.error(`[bridge] ${problem}`);
+  }
+  process.exit(1);
+}
+
 async function main(): Promise<void> {
+  assertValidConfig();
   const transport = new StdioServerTransport();
 
   // Graceful Shutdown
@@ -0,0 +1,140 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// Die Konfiguration wird beim Import gelesen - vorher auf eine leere Datei zeigen
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-budget-test-'));
+fs.writeFileSync(path.join(tempDir, 'bridge.json'), JSON.stringify({ paths: { dataDir: tempDir } }));
+process.env.BRIDGE_CONFIG = path.join(tempDir, 'bridge.json');
+
+const { BudgetExceededError, BudgetGuard } = await import('../src/BudgetGuard.js');
+type UsageTracker = import('../src/UsageTracker.js').UsageTracker;
+type UsageRecord = import('../src/UsageTracker.js').UsageRecord;
+
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DIRECTORY = path.resolve(tempDir, 'repo');
+const SCOPE = { worker: 'claude', workingDirectory: DIRECTORY, sessionName: 'default' };
+
+function record(ageMs: number, fields: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    timestamp: new Date(Date.now() - ageMs).toISOString(),
+    worker: 'claude',
+    workingDirectory: DIRECTORY,
+    success: true,
+    durationMs: 1000,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    ...fields,
+  };
+}
+
+/** UsageTracker mit festen Datensätzen (chronologisch wie im Log) */
+function tracker(records: UsageRecord[]): UsageTracker {
+  const sorted = [...records].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return {
+    list: ({ since, until }: { since?: Date; until?: Date } = {}) => sorted.filter((r) => {
+      const time = new Date(r.timestamp).getTime();
+      return (!since || time >= since.getTime()) && (!until || time <= until.getTime());
+    }),
+  } as unknown as UsageTracker;
+}
+
+function exceeded(fn: () => void): InstanceType<typeof BudgetExceededError> {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof BudgetExceededError);
+    return error;
+  }
+  assert.fail('BudgetExceededError erwartet');
+}
+
+describe('BudgetGuard', () => {
+  it('prüft ohne Limits nichts', () => {
+    const guard = new BudgetGuard({}, tracker([record(MINUTE)]));
+    assert.equal(guard.active, false);
+    guard.reserve(SCOPE);
+    guard.check(SCOPE);
+  });
+
+  it('zählt Reservierungen bei maxTasksPerHour mit', () => {
+    const guard = new BudgetGuard({ maxTasksPerHour: 3 }, tracker([record(2 * HOUR), record(40 * MINUTE), record(10 * MINUTE)]));
+    const first = guard.reserve(SCOPE);
+    const error = exceeded(() => guard.reserve(SCOPE));
+    assert.equal(error.limit, 'tasks_per_hour');
+    assert.equal(error.current, 3);
+    assert.equal(error.maximum, 3);
+    first.release();
+    guard.reserve(SCOPE);
+  });
+
+  it('zählt bei recheck die eigene Reservierung nicht', () => {
+    const guard = new BudgetGuard({ maxTasksPerHour: 2 }, tracker([record(10 * MINUTE)]));
+    const reservation = guard.reserve(SCOPE);
+    reservation.recheck();
+    reservation.release();
+    // Nach release zählt recheck wieder alle laufenden Tasks
+    const other = guard.reserve(SCOPE);
+    exceeded(() => reservation.recheck());
+    other.release();
+  });
+
+  it('gibt eine Reservierung nur einmal frei', () => {
+    const guard = new BudgetGuard({ maxTasksPerHour: 2 }, tracker([record(10 * MINUTE)]));
+    const reservation = guard.reserve(SCOPE);
+    reservation.release();
+    reservation.release();
+    guard.reserve(SCOPE);
+    exceeded(() => guard.reserve(SCOPE));
+  });
+
+  it('setzt resetAt auf den Zeitpunkt, ab dem genug Datensätze aus dem Fenster fallen', () => {
+    const records = [record(50 * MINUTE), record(30 * MINUTE), record(5 * MINUTE)];
+    const guard = new BudgetGuard({ maxTasksPerHour: 2 }, tracker(records));
+    const now = new Date();
+    const error = exceeded(() => guard.check(SCOPE, now));
+    // 3 Tasks, Maximum 2: die beiden ältesten müssen aus dem Fenster fallen
+    assert.equal(error.resetAt.getTime(), new Date(records[1].timestamp).getTime() + HOUR);
+  });
+
+  it('begrenzt die Laufzeit pro Session nur mit Datensätzen derselben Session', () => {
+    const records = [
+      record(20 * HOUR, { durationMs: 6 * MINUTE }),
+      record(10 * HOUR, { durationMs: 5 * MINUTE, sessionName: 'default' }),
+      record(HOUR, { durationMs: 30 * MINUTE, sessionName: 'bugfix' }),
+      record(HOUR, { durationMs: 30 * MINUTE, worker: 'gemini' }),
+    ];
+    const guard = new BudgetGuard({ maxRuntimeMsPerSession: 10 * MINUTE }, tracker(records));
+    const error = exceeded(() => guard.check(SCOPE));
+    assert.equal(error.limit, 'runtime_per_session');
+    assert.equal(error.current, 11 * MINUTE);
+    assert.equal(error.resetAt.getTime(), new Date(records[0].timestamp).getTime() + 24 * HOUR);
+    guard.check({ ...SCOPE, sessionName: 'other' });
+  });
+
+  it('zählt Reservierungen nicht zur Laufzeit', () => {
+    const guard = new BudgetGuard({ maxRuntimeMsPerDirectory: 10 * MINUTE }, tracker([record(HOUR, { durationMs: 9 * MINUTE })]));
+    guard.reserve(SCOPE);
+    guard.reserve(SCOPE);
+    guard.check(SCOPE);
+  });
+
+  it('summiert gemeldete Kosten und rundet die Anzeige', () => {
+    const guard = new BudgetGuard({ maxCostUsdPerDay: 1 }, tracker([
+      record(3 * HOUR, { costUsd: 0.33333333 }),
+      record(2 * HOUR),
+      record(HOUR, { costUsd: 0.7 }),
+    ]));
+    const error = exceeded(() => guard.check(SCOPE));
+    assert.equal(error.limit, 'cost_per_day');
+    assert.equal(error.current, 1.0333);
+    assert.match(error.message, /Kosten pro Tag \(USD\) \(1\.0333\/1\)/);
+  });
+});
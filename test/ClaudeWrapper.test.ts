@@ -0,0 +1,40 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// Die Konfiguration wird beim Import gelesen - vorher auf eine leere Datei zeigen
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-claude-test-'));
+fs.writeFileSync(path.join(tempDir, 'bridge.json'), JSON.stringify({ paths: { dataDir: tempDir } }));
+process.env.BRIDGE_CONFIG = path.join(tempDir, 'bridge.json');
+
+const { claudeInvocation } = await import('../src/ClaudeWrapper.js');
+
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const PROMPT = `Prüfe den Diff:\n+echo $(whoami) > out.txt\n${'x'.repeat(70000)}`;
+
+describe('claudeInvocation', () => {
+  it('übergibt den Prompt über stdin, auch sehr lange', () => {
+    const { args, stdin } = claudeInvocation(PROMPT, { model: 'opus' });
+    assert.equal(stdin, PROMPT);
+    assert.deepEqual(args.slice(0, 6), ['-p', '--output-format', 'stream-json', '--verbose', '--model', 'opus']);
+    assert.ok(args.every((arg) => !arg.includes('\n')));
+  });
+
+  it('setzt den System-Prompt ohne Shell als Argument', () => {
+    const { args, stdin } = claudeInvocation(PROMPT, { systemPrompt: 'Du bist Reviewer.' });
+    assert.equal(stdin, PROMPT);
+    assert.deepEqual(args.slice(args.indexOf('--append-system-prompt'), args.indexOf('--append-system-prompt') + 2), [
+      '--append-system-prompt',
+      'Du bist Reviewer.',
+    ]);
+  });
+
+  it('stellt den System-Prompt bei Shell-Start dem stdin-Prompt voran', () => {
+    const { args, stdin } = claudeInvocation('Aufgabe', { systemPrompt: 'Du bist\nReviewer.', shell: true });
+    assert.equal(args.includes('--append-system-prompt'), false);
+    assert.equal(stdin, 'Du bist\nReviewer.\n\n---\n\nAUFGABE:\nAufgabe');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ExecutionQueue } from '../src/ExecutionQueue.js';
+
+/** Task, der bis resolve() läuft und seinen Start protokolliert */
+function gate(log: string[], name: string) {
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => { release = resolve; });
+  return {
+    release: () => release(),
+    task: async () => {
+      log.push(`start ${name}`);
+      await done;
+      log.push(`end ${name}`);
+    },
+  };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ExecutionQueue', () => {
+  it('serialisiert schreibende Tasks im selben Verzeichnis', async () => {
+    const queue = new ExecutionQueue({ maxConcurrency: 4 });
+    const log: string[] = [];
+    const a = gate(log, 'a');
+    const b = gate(log, 'b');
+    const runs = [queue.run('/repo', a.task), queue.run('/repo', b.task)];
+    await tick();
+    assert.deepEqual(log, ['start a']);
+    a.release();
+    await runs[0];
+    await tick();
+    assert.deepEqual(log, ['start a', 'end a', 'start b']);
+    b.release();
+    await Promise.all(runs);
+  });
+
+  it('lässt lesende Tasks mit verschiedenem shareKey parallel laufen', async () => {
+    const queue = new ExecutionQueue({ maxConcurrency: 4 });
+    const log: string[] = [];
+    const a = gate(log, 'a');
+    const b = gate(log, 'b');
+    const c = gate(log, 'c');
+    const runs = [
+      queue.run('/repo', a.task, { shareKey: 'claude:x' }),
+      queue.run('/repo', b.task, { shareKey: 'gemini:default' }),
+      queue.run('/repo', c.task, { shareKey: 'claude:x' }),
+    ];
+    await tick();
+    assert.deepEqual(log, ['start a', 'start b']);
+    a.release();
+    await runs[0];
+    await tick();
+    assert.ok(log.includes('start c'));
+    b.release();
+    c.release();
+    await Promise.all(runs);
+  });
+
+  it('lässt wartende schreibende Tasks nicht von späteren lesenden überholen', async () => {
+    const queue = new ExecutionQueue({ maxConcurrency: 4 });
+    const log: string[] = [];
+    const read1 = gate(log, 'read1');
+    const write = gate(log, 'write');
+    const read2 = gate(log, 'read2');
+    const runs = [
+      queue.run('/repo', read1.task, { shareKey: 'a' }),
+      queue.run('/repo', write.task),
+      queue.run('/repo', read2.task, { shareKey: 'b' }),
+    ];
+    await tick();
+    assert.deepEqual(log, ['start read1']);
+    read1.release();
+    await runs[0];
+    await tick();
+    assert.deepEqual(log, ['start read1', 'end read1', 'start write']);
+    write.release();
+    await runs[1];
+    await tick();
+    assert.equal(log[log.length - 1], 'start read2');
+    read2.release();
+    await Promise.all(runs);
+  });
+
+  it('meldet die Wartezeit im Ticket', async () => {
+    const queue = new ExecutionQueue({ maxConcurrency: 1 });
+    const log: string[] = [];
+    const a = gate(log, 'a');
+    const first = queue.run('/one', a.task);
+    const second = queue.run('/two', async (ticket) => ticket);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    a.release();
+    await first;
+    const ticket = await second;
+    assert.equal(ticket.position, 1);
+    assert.ok(ticket.waitMs >= 15, `waitMs ${ticket.waitMs}`);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseVerdict } from '../src/PairProgrammer.js';
+
+describe('parseVerdict', () => {
+  it('erkennt APPROVE und CHANGES_REQUESTED', () => {
+    assert.equal(parseVerdict('Alles gut.\nURTEIL: APPROVE'), 'approve');
+    assert.equal(parseVerdict('Ein Befund.\nURTEIL: CHANGES_REQUESTED'), 'changes_requested');
+  });
+
+  it('akzeptiert VERDICT, Kleinschreibung, Leerzeichen und Markdown', () => {
+    assert.equal(parseVerdict('verdict: approve'), 'approve');
+    assert.equal(parseVerdict('**URTEIL:** CHANGES REQUESTED'), 'changes_requested');
+  });
+
+  it('nimmt das letzte Urteil', () => {
+    const output = 'Format: "URTEIL: APPROVE" oder "URTEIL: CHANGES_REQUESTED".\n\nURTEIL: CHANGES_REQUESTED\n\nNachtrag - behoben.\nURTEIL: APPROVE';
+    assert.equal(parseVerdict(output), 'approve');
+  });
+
+  it('liefert undefined ohne Urteil', () => {
+    assert.equal(parseVerdict('Sieht gut aus, ich würde approven.'), undefined);
+    assert.equal(parseVerdict(''), undefined);
+  });
+});
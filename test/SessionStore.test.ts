@@ -0,0 +1,104 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// Die Konfiguration wird beim Import gelesen - vorher auf eine leere Datei zeigen
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-sessions-test-'));
+fs.writeFileSync(path.join(tempDir, 'bridge.json'), JSON.stringify({ paths: { dataDir: tempDir } }));
+process.env.BRIDGE_CONFIG = path.join(tempDir, 'bridge.json');
+
+const { SessionStore, SessionStoreError } = await import('../src/SessionStore.js');
+
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const REPO = path.join(tempDir, 'repo');
+
+function createStore(options: ConstructorParameters<typeof SessionStore>[0] = {}) {
+  const directory = fs.mkdtempSync(path.join(tempDir, 'store-'));
+  return { directory, store: new SessionStore({ directory, ...options }) };
+}
+
+/** Pfad der einzigen Session-Datei im Ablageverzeichnis */
+function sessionFile(directory: string): string {
+  const files = fs.readdirSync(directory).filter((file) => file.endsWith('.json'));
+  assert.equal(files.length, 1, files.join(', '));
+  return path.join(directory, files[0]);
+}
+
+describe('SessionStore', () => {
+  it('verliert bei gleichzeitigen Tasks keine Zählung', async () => {
+    const { directory, store } = createStore();
+    await Promise.all(Array.from({ length: 20 }, () => store.recordTask('claude', REPO, 'default', { continued: true })));
+
+    const record = await store.load('claude', REPO);
+    assert.equal(record?.taskCount, 20);
+    assert.deepEqual(fs.readdirSync(directory).filter((file) => !file.endsWith('.json')), []);
+  });
+
+  it('gibt bei belegtem Lock nach lockTimeoutMs auf', async () => {
+    const { directory, store } = createStore({ lockTimeoutMs: 200 });
+    await store.recordTask('claude', REPO, 'default', { continued: false });
+    const lockFile = `${sessionFile(directory)}.lock`;
+    fs.writeFileSync(lockFile, 'andere Instanz');
+
+    const started = Date.now();
+    await assert.rejects(store.recordTask('claude', REPO, 'default', { continued: true }), (error: unknown) => {
+      assert.ok(error instanceof SessionStoreError);
+      assert.match(error.message, /Zeitüberschreitung/);
+      return true;
+    });
+    assert.ok(Date.now() - started >= 200);
+    assert.equal(fs.existsSync(lockFile), true, 'fremder Lock bleibt liegen');
+    assert.equal((await store.load('claude', REPO))?.taskCount, 1);
+  });
+
+  it('übernimmt verwaiste Locks', async () => {
+    const { directory, store } = createStore({ lockTimeoutMs: 200, staleLockMs: 1000 });
+    await store.recordTask('claude', REPO, 'default', { continued: false });
+    const lockFile = `${sessionFile(directory)}.lock`;
+    fs.writeFileSync(lockFile, 'abgestürzte Instanz');
+    const past = new Date(Date.now() - 5000);
+    fs.utimesSync(lockFile, past, past);
+
+    const record = await store.recordTask('claude', REPO, 'default', { continued: true });
+    assert.equal(record.taskCount, 2);
+    assert.equal(fs.existsSync(lockFile), false);
+  });
+
+  it('gibt den Lock auch nach einem Fehler frei', async () => {
+    const { directory, store } = createStore();
+    await store.recordTask('claude', REPO, 'default', { continued: false });
+    const file = sessionFile(directory);
+    // Ziel des rename ist ein Verzeichnis - das Schreiben scheitert unter dem Lock
+    fs.rmSync(file);
+    fs.mkdirSync(file);
+
+    await assert.rejects(store.recordTask('claude', REPO, 'default', { continued: true }), SessionStoreError);
+    assert.equal(fs.existsSync(`${file}.lock`), false);
+  });
+
+  it('trennt Worker und benannte Sessions', async () => {
+    const { store } = createStore();
+    await store.recordTask('claude', REPO, 'default', { continued: false, sessionId: 'a' });
+    await store.recordTask('claude', REPO, 'bugfix', { continued: false, sessionId: 'b', tags: ['fix'] });
+    await store.recordTask('gemini', REPO, 'default', { continued: false });
+
+    assert.equal((await store.load('claude', REPO, 'bugfix'))?.sessionId, 'b');
+    assert.deepEqual((await store.list({ worker: 'claude', tag: 'fix' })).map((record) => record.name), ['bugfix']);
+    assert.equal(await store.clear('claude', REPO, 'bugfix'), true);
+    assert.equal(await store.load('claude', REPO, 'bugfix'), null);
+    assert.equal((await store.load('claude', REPO))?.sessionId, 'a');
+    assert.equal((await store.list({ worker: 'gemini' })).length, 1);
+  });
+
+  it('lässt Sessions nach der TTL verfallen und löscht die Datei', async () => {
+    const { directory, store } = createStore({ ttlMs: 50 });
+    await store.recordTask('claude', REPO, 'default', { continued: false });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    assert.equal(await store.load('claude', REPO), null);
+    assert.deepEqual(fs.readdirSync(directory), []);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractJson, StructuredOutput, OutputSchemaError } from '../src/StructuredOutput.js';
+
+describe('extractJson', () => {
+  it('nimmt den letzten parsebaren ```json-Block', () => {
+    const text = 'Erst:\n```json\n{"a": 1}\n```\nDann:\n```json\n{"a": 2}\n```\n';
+    assert.deepEqual(extractJson(text), { found: true, value: { a: 2 } });
+  });
+
+  it('überspringt kaputte Blöcke', () => {
+    const text = '```json\n{"a": 1}\n```\n```json\n{"a": \n```';
+    assert.deepEqual(extractJson(text), { found: true, value: { a: 1 } });
+  });
+
+  it('parst die ganze Antwort ohne Block', () => {
+    assert.deepEqual(extractJson('  [1, 2, 3]  '), { found: true, value: [1, 2, 3] });
+  });
+
+  it('findet ein Objekt hinter einer Klammer in Prosa', () => {
+    const text = 'Siehe [1] und Abschnitt 2: {"ok": true} - fertig.';
+    assert.deepEqual(extractJson(text), { found: true, value: { ok: true } });
+  });
+
+  it('findet ein Array hinter einer geschweiften Klammer in Prosa', () => {
+    const text = 'Platzhalter {name} ersetzt. Ergebnis: [{"id": 1}]';
+    assert.deepEqual(extractJson(text), { found: true, value: [{ id: 1 }] });
+  });
+
+  it('meldet fehlendes JSON', () => {
+    assert.deepEqual(extractJson('Keine Daten hier.'), { found: false });
+  });
+});
+
+describe('StructuredOutput', () => {
+  const schema = {
+    type: 'object',
+    properties: { passed: { type: 'number' } },
+    required: ['passed'],
+    additionalProperties: false,
+  };
+
+  it('akzeptiert eine gültige Antwort', () => {
+    const check = new StructuredOutput(schema).check('Fertig.\n```json\n{"passed": 3}\n```');
+    assert.deepEqual(check, { valid: true, value: { passed: 3 }, errors: [] });
+  });
+
+  it('listet Schema-Verstöße mit Pfad', () => {
+    const check = new StructuredOutput(schema).check('```json\n{"passed": "drei", "extra": 1}\n```');
+    assert.equal(check.valid, false);
+    assert.deepEqual(check.errors.sort(), ['(Wurzel): must NOT have additional properties (extra)', '/passed: must be number']);
+  });
+
+  it('wirft OutputSchemaError bei ungültigem Schema', () => {
+    assert.throws(() => new StructuredOutput({ type: 'nope' }), OutputSchemaError);
+  });
+});
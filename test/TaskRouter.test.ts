@@ -0,0 +1,97 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// Die Konfiguration wird beim Import gelesen - vorher auf eine leere Datei zeigen
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-router-test-'));
+fs.writeFileSync(path.join(tempDir, 'bridge.json'), '{}');
+process.env.BRIDGE_CONFIG = path.join(tempDir, 'bridge.json');
+
+const { matchesGlob, TaskRouter } = await import('../src/TaskRouter.js');
+
+describe('matchesGlob', () => {
+  it('prüft Globs ohne "/" nur gegen den Dateinamen', () => {
+    assert.equal(matchesGlob('src/auth/login.ts', '*.ts'), true);
+    assert.equal(matchesGlob('src/auth/login.ts', '*.js'), false);
+  });
+
+  it('lässt * nicht über Verzeichnisgrenzen laufen', () => {
+    assert.equal(matchesGlob('docs/api/index.md', 'docs/*.md'), false);
+    assert.equal(matchesGlob('docs/index.md', 'docs/*.md'), true);
+  });
+
+  it('lässt **/ auch für kein Verzeichnis stehen', () => {
+    assert.equal(matchesGlob('docs/index.md', 'docs/**/*.md'), true);
+    assert.equal(matchesGlob('docs/a/b/index.md', 'docs/**/*.md'), true);
+    assert.equal(matchesGlob('docs/a/b/index.md', 'docs/**'), true);
+  });
+
+  it('unterstützt ? und {a,b}', () => {
+    assert.equal(matchesGlob('v1.md', 'v?.md'), true);
+    assert.equal(matchesGlob('v10.md', 'v?.md'), false);
+    assert.equal(matchesGlob('App.vue', '*.{ts,vue}'), true);
+    assert.equal(matchesGlob('App.css', '*.{ts,vue}'), false);
+  });
+
+  it('behandelt Regex-Zeichen im Glob wörtlich', () => {
+    assert.equal(matchesGlob('a+b.md', 'a+b.md'), true);
+    assert.equal(matchesGlob('aab.md', 'a+b.md'), false);
+  });
+});
+
+describe('TaskRouter', () => {
+  const router = new TaskRouter({ has: (name: string) => ['claude', 'gemini'].includes(name) });
+  const projectDir = path.join(tempDir, 'project');
+
+  const writeProject = (config: unknown): void => {
+    fs.mkdirSync(projectDir, { recursive: true });
+    const file = path.join(projectDir, '.bridge.json');
+    fs.writeFileSync(file, JSON.stringify(config));
+    // Neuer mtime, damit der Cache der BridgeConfig die Datei neu liest
+    const stamp = new Date(Date.now() + Math.floor(Math.random() * 1e9));
+    fs.utimesSync(file, stamp, stamp);
+  };
+
+  before(() => writeProject({}));
+  after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+  it('trifft Schlüsselwörter nur als ganzes Wort', () => {
+    assert.equal(router.route('Write an explanation of the planet orbit', projectDir).rule, 'implementation');
+    assert.equal(router.route('Erstelle einen Plan für das Release', projectDir).rule, 'planning');
+  });
+
+  it('trifft Stämme mit * am Wortanfang', () => {
+    assert.equal(router.route('Debugge den Login', projectDir).rule, 'debugging');
+  });
+
+  it('prüft genannte Quelldateien vor Schlüsselwörtern', () => {
+    const route = router.route('Erkläre src/auth/login.ts', projectDir);
+    assert.equal(route.worker, 'claude');
+    assert.equal(route.rule, 'source-files');
+  });
+
+  it('schaltet eingebaute Regeln bei konfiguriertem defaultWorker ab', () => {
+    writeProject({ defaultWorker: 'gemini' });
+    assert.deepEqual(router.route('Fix the bug in the parser', projectDir), { worker: 'gemini', reason: 'keine Regel trifft zu' });
+
+    writeProject({ defaultWorker: 'gemini', routing: { builtinRules: true } });
+    assert.equal(router.route('Fix the bug in the parser', projectDir).worker, 'claude');
+    writeProject({});
+  });
+
+  it('wendet Projektregeln vor eingebauten an', () => {
+    writeProject({ routing: { rules: [{ name: 'docs', worker: 'gemini', paths: ['docs/**'] }] } });
+    const route = router.route('Fix typos in docs/guide.md', projectDir);
+    assert.equal(route.rule, 'docs');
+    assert.equal(route.worker, 'gemini');
+    writeProject({});
+  });
+
+  it('lehnt pattern in Projektregeln ab', () => {
+    writeProject({ routing: { rules: [{ name: 'slow', worker: 'gemini', pattern: '(a+)+$' }] } });
+    assert.throws(() => router.route('aaaa', projectDir), /pattern/);
+    writeProject({});
+  });
+});
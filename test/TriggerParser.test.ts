@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { hasTrigger, parseTrigger, TriggerSyntaxError } from '../src/TriggerParser.js';
+
+const WORKERS = ['claude', 'gemini', 'aider'];
+
+describe('parseTrigger', () => {
+  it('erkennt den Trigger am Anfang', () => {
+    const parsed = parseTrigger('@claude bitte analysiere src/', WORKERS);
+    assert.equal(parsed.hasTrigger, true);
+    assert.deepEqual(parsed.targets, ['claude']);
+    assert.equal(parsed.cleanedMessage, 'bitte analysiere src/');
+  });
+
+  it('lässt spätere Mentions in der Aufgabe stehen', () => {
+    const parsed = parseTrigger('@gemini ask @claude later', WORKERS);
+    assert.equal(parsed.target, 'gemini');
+    assert.deepEqual(parsed.targets, ['gemini']);
+    assert.equal(parsed.cleanedMessage, 'ask @claude later');
+  });
+
+  it('leitet ohne Trigger am Anfang nirgends hin', () => {
+    const parsed = parseTrigger('frag später @claude', WORKERS);
+    assert.equal(parsed.hasTrigger, false);
+    assert.equal(parsed.target, null);
+    assert.equal(parsed.cleanedMessage, 'frag später @claude');
+  });
+
+  it('liest Fan-out-Ziele in Reihenfolge', () => {
+    assert.deepEqual(parseTrigger('@gemini+claude prüfe', WORKERS).targets, ['gemini', 'claude']);
+  });
+
+  it('liest Inline-Optionen und Dauern', () => {
+    const parsed = parseTrigger('@claude[model=smart, timeout=20m, session=bugfix, permission=read-only]: los', WORKERS);
+    assert.deepEqual(parsed.options, { model: 'smart', timeout: 1200000, session: 'bugfix', permission: 'read-only' });
+    assert.equal(parsed.trigger, '@claude[model=smart, timeout=20m, session=bugfix, permission=read-only]');
+    assert.equal(parsed.cleanedMessage, 'los');
+  });
+
+  it('löst maskierte Mentions auf, ohne sie als Trigger zu lesen', () => {
+    const parsed = parseTrigger('\\@claude soll \\@gemini-Aufrufe prüfen', WORKERS);
+    assert.equal(parsed.hasTrigger, false);
+    assert.equal(parsed.cleanedMessage, '@claude soll @gemini-Aufrufe prüfen');
+  });
+
+  it('ignoriert ein einzelnes unbekanntes @-Wort', () => {
+    const parsed = parseTrigger('@param beschreibt den Wert', WORKERS);
+    assert.equal(parsed.hasTrigger, false);
+    assert.equal(parsed.cleanedMessage, '@param beschreibt den Wert');
+  });
+
+  it('liest eine Klammer hinter einem unbekannten @-Wort nicht als Optionen', () => {
+    for (const message of ['@param[0] ist null', '@codex[model=fast] prüfe', '@items[i ist offen', '@foo+bar[0] prüfe']) {
+      const parsed = parseTrigger(message, WORKERS);
+      assert.equal(parsed.hasTrigger, false, message);
+      assert.equal(parsed.cleanedMessage, message);
+    }
+  });
+
+  it('verlangt ein Trennzeichen nach dem Trigger', () => {
+    assert.equal(parseTrigger('@claudeX mach was', WORKERS).hasTrigger, false);
+  });
+
+  it('lehnt fehlerhafte Trigger ab', () => {
+    for (const message of [
+      '@claude+codex prüfe',
+      '@claude+claude prüfe',
+      '@claude[model=fast prüfe',
+      '@claude[color=red] prüfe',
+      '@claude[model=] prüfe',
+      '@claude[model=a,model=b] prüfe',
+      '@claude[timeout=bald] prüfe',
+    ]) {
+      assert.throws(() => parseTrigger(message, WORKERS), TriggerSyntaxError, message);
+    }
+  });
+});
+
+describe('hasTrigger', () => {
+  it('prüft nur den Trigger am Anfang', () => {
+    assert.equal(hasTrigger('@claude+gemini prüfe', 'gemini'), true);
+    assert.equal(hasTrigger('@gemini ask @claude later', 'claude'), false);
+    assert.equal(hasTrigger('@claude[color=red] prüfe', 'claude'), false);
+    assert.equal(hasTrigger('@claude+gemini[model=fast] prüfe', 'claude'), true);
+    assert.equal(hasTrigger('@aider[model=fast] prüfe', 'aider'), true);
+  });
+});